@@ -6,7 +6,7 @@
  */
 
 import { useEffect, useRef, useState, useCallback } from "react";
-import { createChartDatafeed } from "../utils/chart-datafeed";
+import { ChartDatafeed, createChartDatafeed } from "../utils/chart-datafeed";
 import * as GoChartingSDK from "@gocharting/chart-sdk";
 import type {
 	ChartInstance,
@@ -15,14 +15,13 @@ import type {
 } from "@gocharting/chart-sdk";
 import "./ChartDemo.css";
 
-// Type for the datafeed returned by createChartDatafeed
-type ChartDatafeed = ReturnType<typeof createChartDatafeed>;
-
 // Symbol options for the demo
 const SYMBOLS = {
 	BTC: "BYBIT:FUTURE:BTCUSDT",
 	ETH: "BYBIT:FUTURE:ETHUSDT",
 	OGN: "BYBIT:FUTURE:OGNUSDT",
+	BTC_ETH: "FORMULA:BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT",
+	BTC_FRONT: "BYBIT:FUTURE:BTC1!",
 } as const;
 
 // Excluded indicators list from codepen reference
@@ -53,6 +52,7 @@ const EXCLUDED_INDICATORS = [
 
 export const ChartDemo = () => {
 	const chartContainerRef = useRef<HTMLDivElement>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
 
 	const chartWrapperRef = useRef<ChartWrapper | null>(null);
 	const chartInstance = useRef<ChartInstance | null>(null);
@@ -60,6 +60,7 @@ export const ChartDemo = () => {
 	const [status, setStatus] = useState("Ready to load chart...");
 	const [currentSymbol, setCurrentSymbol] = useState<string>(SYMBOLS.BTC);
 	const [isChartReady, setIsChartReady] = useState(false);
+	const [isDragging, setIsDragging] = useState(false);
 
 	const updateStatus = useCallback((message: string) => {
 		setStatus(message);
@@ -157,6 +158,42 @@ export const ChartDemo = () => {
 		[currentSymbol, updateStatus]
 	);
 
+	// Register a CSV or JSON file as a LOCAL symbol and show it
+	const loadFile = useCallback(
+		async (file: File) => {
+			if (!datafeedRef.current || !chartInstance.current) {
+				updateStatus("❌ Chart not ready");
+				return;
+			}
+
+			try {
+				updateStatus(`🔄 Loading ${file.name}...`);
+				const symbolInfo =
+					await datafeedRef.current.loadLocalFile(file);
+				chartInstance.current.setSymbol(symbolInfo.full_name);
+				setCurrentSymbol(symbolInfo.full_name);
+				updateStatus(
+					`✅ Loaded ${file.name} as ${symbolInfo.full_name} (${symbolInfo.timezone})`
+				);
+			} catch (error) {
+				const errorMessage =
+					error instanceof Error ? error.message : "Unknown error";
+				updateStatus(`❌ Error loading ${file.name}: ${errorMessage}`);
+			}
+		},
+		[updateStatus]
+	);
+
+	const handleFileDrop = useCallback(
+		(event: React.DragEvent<HTMLDivElement>) => {
+			event.preventDefault();
+			setIsDragging(false);
+			const file = event.dataTransfer.files[0];
+			if (file) loadFile(file);
+		},
+		[loadFile]
+	);
+
 	// Initialize chart on mount
 	useEffect(() => {
 		let isMounted = true;
@@ -201,8 +238,7 @@ export const ChartDemo = () => {
 				// Cleanup datafeed
 				if (datafeedRef.current) {
 					try {
-						// Cast to any to access optional destroy method
-						(datafeedRef.current as any).destroy?.();
+						datafeedRef.current.destroy();
 					} catch (e) {
 						console.error("Error destroying datafeed:", e);
 					}
@@ -250,9 +286,56 @@ export const ChartDemo = () => {
 				>
 					🌐 OGN/USDT
 				</button>
+				<button
+					className={`btn primary ${
+						currentSymbol === SYMBOLS.BTC_ETH ? "active" : ""
+					}`}
+					onClick={() => changeSymbol(SYMBOLS.BTC_ETH)}
+					disabled={!isChartReady}
+				>
+					⚖️ BTC/ETH Ratio
+				</button>
+				<button
+					className={`btn primary ${
+						currentSymbol === SYMBOLS.BTC_FRONT ? "active" : ""
+					}`}
+					onClick={() => changeSymbol(SYMBOLS.BTC_FRONT)}
+					disabled={!isChartReady}
+				>
+					📅 BTC Front Month
+				</button>
+				<button
+					className={`btn primary ${
+						currentSymbol.startsWith("LOCAL:") ? "active" : ""
+					}`}
+					onClick={() => fileInputRef.current?.click()}
+					disabled={!isChartReady}
+				>
+					📂 Load CSV/JSON
+				</button>
+				<input
+					ref={fileInputRef}
+					type='file'
+					accept='.csv,.txt,.json,text/csv,application/json'
+					style={{ display: "none" }}
+					onChange={(event) => {
+						const file = event.target.files?.[0];
+						if (file) loadFile(file);
+						// Allow picking the same file again after editing it
+						event.target.value = "";
+					}}
+				/>
 			</div>
 
-			<div className='chart-demo-wrapper'>
+			<div
+				className={`chart-demo-wrapper ${isDragging ? "dragging" : ""}`}
+				onDragOver={(event) => {
+					event.preventDefault();
+					setIsDragging(true);
+				}}
+				onDragLeave={() => setIsDragging(false)}
+				onDrop={handleFileDrop}
+			>
 				<div ref={chartContainerRef} className='chart-demo-chart'>
 					{!isChartReady && (
 						<div className='chart-demo-loading'>
@@ -1,6 +1,8 @@
 import { useEffect, useRef, useState } from "react";
 import * as GoChartingSDK from "@gocharting/chart-sdk";
-import { createChartDatafeed } from "../utils/chart-datafeed";
+import { ChartDatafeed, createChartDatafeed } from "../utils/chart-datafeed";
+import { createTradeBookMarkSource } from "../utils/mark-sources";
+import type { ReplayState } from "../utils/replay";
 import type {
 	ChartInstance,
 	ChartWrapper,
@@ -11,7 +13,6 @@ import type {
 	OrderSide,
 	OrderType as SDKOrderType,
 	OrderStatus,
-	Datafeed,
 	SymbolInfo,
 } from "@gocharting/chart-sdk";
 import "./ChartSDKAdvanced.css";
@@ -139,7 +140,7 @@ export const ChartSDKAdvanced = () => {
 	// ChartWrapper is the wrapper returned by createChart(), ChartInstance is the component
 	const chartWrapperRef = useRef<ChartWrapper | null>(null);
 	const chartInstanceRef = useRef<ChartInstance | null>(null);
-	const datafeedRef = useRef<Datafeed | null>(null);
+	const datafeedRef = useRef<ChartDatafeed | null>(null);
 
 	// Trading state
 	const [quantity, setQuantity] = useState(100);
@@ -148,6 +149,9 @@ export const ChartSDKAdvanced = () => {
 	const [orderType, setOrderType] = useState<"market" | "limit">("market");
 	const [limitPrice, setLimitPrice] = useState("");
 	const [pnlMultiplier, setPnlMultiplier] = useState(1);
+	const [replayStart, setReplayStart] = useState("");
+	const [replaySpeed, setReplaySpeed] = useState(10);
+	const [replayState, setReplayState] = useState<ReplayState | null>(null);
 	const [status, setStatus] = useState("Loading chart...");
 	const [orderHistory, setOrderHistory] = useState<OrderHistoryItem[]>([
 		{
@@ -165,6 +169,8 @@ export const ChartSDKAdvanced = () => {
 	const currentOrderBook = useRef<Order[]>([]);
 	const currentTradeBook = useRef<Trade[]>([]);
 	const currentPositions = useRef<Position[]>([]);
+	// Read by order handlers, which outlive renders
+	const currentReplay = useRef<ReplayState | null>(null);
 	const currentAccountList = useRef<DemoAccount[]>([
 		{
 			id: "DEMO_001",
@@ -210,8 +216,7 @@ export const ChartSDKAdvanced = () => {
 			// Cleanup datafeed
 			if (datafeedRef.current) {
 				try {
-					// Cast to any to access optional destroy method
-					(datafeedRef.current as any).destroy?.();
+					datafeedRef.current.destroy();
 				} catch (e) {
 					console.error("Error destroying datafeed:", e);
 				}
@@ -264,10 +269,21 @@ export const ChartSDKAdvanced = () => {
 	};
 
 	const getCurrentLTP = () => {
+		// Orders fill at the replayed price while a replay runs
+		const replayPrice = currentReplay.current?.price;
+		if (replayPrice) {
+			return replayPrice;
+		}
 		// Placeholder - in real implementation, get from chart
 		return 110000;
 	};
 
+	// Fills land on the last replayed bar while a replay runs
+	const getCurrentTime = () => {
+		const replayCursor = currentReplay.current?.cursor;
+		return replayCursor ? new Date(replayCursor * 1000 - 1) : new Date();
+	};
+
 	const handleAppCallback: AppCallback = (eventType, message, onClose) => {
 		console.log("*** APP CALLBACK TRIGGERED ***");
 		console.log("Event Type:", eventType);
@@ -294,8 +310,17 @@ export const ChartSDKAdvanced = () => {
 		}
 
 		try {
-			const datafeed = createChartDatafeed();
+			// Show the demo broker's fills as buy/sell marks on the chart
+			const datafeed = createChartDatafeed({
+				markSources: [
+					createTradeBookMarkSource(() => currentTradeBook.current),
+				],
+			});
 			datafeedRef.current = datafeed;
+			datafeed.onReplayChange((state: ReplayState | null) => {
+				currentReplay.current = state;
+				setReplayState(state);
+			});
 
 			// Add an ID to the container for the SDK
 			if (chartContainerRef.current) {
@@ -573,6 +598,7 @@ export const ChartSDKAdvanced = () => {
 			.toString(36)
 			.substring(2, 9)}`;
 		const executionPrice = ltp;
+		const tradeTime = getCurrentTime();
 
 		const newTrade: Trade = {
 			tradeId: tradeId,
@@ -583,9 +609,9 @@ export const ChartSDKAdvanced = () => {
 			size: newOrder.size,
 			value: executionPrice * newOrder.size,
 			commission: executionPrice * newOrder.size * 0.001,
-			timestamp: new Date().toISOString(),
-			datetime: new Date(),
-			timeStamp: new Date().getTime(),
+			timestamp: tradeTime.toISOString(),
+			datetime: tradeTime,
+			timeStamp: tradeTime.getTime(),
 			tradeSize: newOrder.size,
 			productId: newOrder.productId,
 			status: "filled",
@@ -923,6 +949,58 @@ export const ChartSDKAdvanced = () => {
 		setStatus(`✅ SELL order placed: ${quantity} @ ${orderType}`);
 	};
 
+	// Bar replay of the charted symbol, from the time picked in the panel
+	const getReplayStartTime = () => {
+		const startTime = Date.parse(replayStart) / 1000;
+		if (!Number.isFinite(startTime)) {
+			setStatus("❌ Pick a replay start time first");
+			return null;
+		}
+		return startTime;
+	};
+
+	const handleStartReplay = async () => {
+		const startTime = getReplayStartTime();
+		if (startTime === null) {
+			return;
+		}
+		try {
+			await datafeedRef.current?.startReplay(
+				currentSymbol.current,
+				startTime,
+				{ speed: replaySpeed }
+			);
+			setStatus(
+				`⏪ Replaying ${currentSymbol.current} from ${new Date(
+					startTime * 1000
+				).toLocaleString()}`
+			);
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : "Unknown error";
+			setStatus(`❌ Replay failed: ${errorMessage}`);
+		}
+	};
+
+	const handleSeekReplay = () => {
+		const startTime = getReplayStartTime();
+		if (startTime === null) {
+			return;
+		}
+		try {
+			datafeedRef.current?.seekReplay(startTime);
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : "Unknown error";
+			setStatus(`❌ Seek failed: ${errorMessage}`);
+		}
+	};
+
+	const handleReplaySpeed = (speed: number) => {
+		setReplaySpeed(speed);
+		datafeedRef.current?.setReplaySpeed(speed);
+	};
+
 	const handleResetBrokerData = () => {
 		currentOrderBook.current = [];
 		currentTradeBook.current = [];
@@ -1046,6 +1124,89 @@ export const ChartSDKAdvanced = () => {
 					</div>
 				</div>
 
+				{/* Replay Panel */}
+				<div className='trading-panel'>
+					<div className='trading-group'>
+						<label htmlFor='replay-start'>Replay From</label>
+						<input
+							type='datetime-local'
+							id='replay-start'
+							value={replayStart}
+							onChange={(e) => setReplayStart(e.target.value)}
+						/>
+					</div>
+
+					<div className='trading-group'>
+						<label htmlFor='replay-speed'>Bars / Second</label>
+						<select
+							id='replay-speed'
+							value={replaySpeed}
+							onChange={(e) =>
+								handleReplaySpeed(Number(e.target.value))
+							}
+						>
+							<option value={1}>1</option>
+							<option value={10}>10</option>
+							<option value={60}>60</option>
+							<option value={240}>240</option>
+						</select>
+					</div>
+
+					<div className='trading-group'>
+						<label>Replay Time</label>
+						<div className='replay-position'>
+							{replayState
+								? `${new Date(
+										replayState.cursor * 1000
+									).toLocaleString()} @ ${
+										replayState.price ?? "..."
+									}${replayState.ended ? " (ended)" : ""}`
+								: "Live"}
+						</div>
+					</div>
+
+					<div className='trading-buttons'>
+						<button
+							className='btn secondary'
+							onClick={handleStartReplay}
+						>
+							⏪ Start Replay
+						</button>
+						<button
+							className='btn secondary'
+							onClick={() =>
+								replayState?.playing
+									? datafeedRef.current?.pauseReplay()
+									: datafeedRef.current?.playReplay()
+							}
+							disabled={!replayState}
+						>
+							{replayState?.playing ? "⏸ Pause" : "▶ Play"}
+						</button>
+						<button
+							className='btn secondary'
+							onClick={() => datafeedRef.current?.stepReplay()}
+							disabled={!replayState || replayState.playing}
+						>
+							⏭ Step
+						</button>
+						<button
+							className='btn secondary'
+							onClick={handleSeekReplay}
+							disabled={!replayState}
+						>
+							⏩ Seek
+						</button>
+						<button
+							className='btn secondary'
+							onClick={() => datafeedRef.current?.stopReplay()}
+							disabled={!replayState}
+						>
+							⏹ Stop
+						</button>
+					</div>
+				</div>
+
 				{/* Chart Container */}
 				<div
 					ref={chartContainerRef}
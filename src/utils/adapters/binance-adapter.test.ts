@@ -0,0 +1,202 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { createBinanceAdapter } from "./binance-adapter";
+import { ParsedChannelMessage } from "./exchange-adapter";
+import { createResolution } from "../resolution";
+import { startStubServer, StubServer } from "../test-utils/stub-server";
+
+const MINUTE_MS = 60000;
+const NOW = Date.UTC(2024, 0, 8, 12, 0, 30);
+const MINUTE = createResolution(1, "minutes");
+
+const spot = {
+	full_name: "BINANCE:SPOT:BTCUSDT",
+	symbol: "BTCUSDT",
+} as SymbolInfo;
+const perpetual = {
+	full_name: "BINANCE:FUTURE:BTCUSDT",
+	symbol: "BTCUSDT",
+} as SymbolInfo;
+
+/**
+ * Klines endpoint serving one-minute bars from listedAt on, newest first
+ * up to endTime like Binance
+ */
+const serveKlines =
+	(listedAt: number) =>
+	(url: URL): unknown[] => {
+		const endTime = Number(url.searchParams.get("endTime"));
+		const limit = Number(url.searchParams.get("limit"));
+		const rows: unknown[] = [];
+		for (
+			let time = Math.floor(endTime / MINUTE_MS) * MINUTE_MS;
+			time >= listedAt && rows.length < limit;
+			time -= MINUTE_MS
+		) {
+			rows.unshift([
+				time,
+				"1",
+				"2",
+				"0.5",
+				"1.5",
+				"10",
+				time + 59999,
+				"15",
+				3,
+			]);
+		}
+		return rows;
+	};
+
+describe("createBinanceAdapter", () => {
+	let server: StubServer;
+
+	afterEach(() => {
+		server?.close();
+	});
+
+	it("lists one-second klines for spot only", () => {
+		const adapter = createBinanceAdapter({ now: () => NOW });
+		expect(adapter.getNativeIntervals?.(spot)).toContain("1S");
+		expect(adapter.getNativeIntervals?.(perpetual)).not.toContain("1S");
+		expect(adapter.getNativeIntervals?.(perpetual)).toContain("1");
+	});
+
+	it("pages back from the end of the period", async () => {
+		server = startStubServer(serveKlines(NOW - 3000 * MINUTE_MS));
+		const adapter = createBinanceAdapter({ now: () => NOW });
+		const to = Math.floor(NOW / 1000);
+		const from = to - 1500 * 60;
+		const { bars, nextTime } = await adapter.getBars(spot, MINUTE, {
+			from,
+			to,
+			firstDataRequest: false,
+		});
+		expect(server.requests).toHaveLength(2);
+		expect(server.requests[0].pathname).toBe("/api/v3/klines");
+		expect(server.requests[0].searchParams.get("interval")).toBe("1m");
+		expect(bars[0].time).toBeGreaterThanOrEqual(from);
+		expect(bars[0].time - from).toBeLessThan(60);
+		expect(bars[bars.length - 1].time).toBeLessThanOrEqual(to);
+		expect(bars[0]).toMatchObject({ volume: 10, turnover: 15 });
+		expect(nextTime).toBeUndefined();
+	});
+
+	it("reports where older bars continue when it runs out of pages", async () => {
+		server = startStubServer(serveKlines(0));
+		const adapter = createBinanceAdapter({ now: () => NOW });
+		const to = Math.floor(NOW / 1000);
+		const from = to - 20000 * 60;
+		const { bars, nextTime } = await adapter.getBars(perpetual, MINUTE, {
+			from,
+			to,
+			firstDataRequest: false,
+		});
+		// Ten pages of 1,500 USD-M klines
+		expect(server.requests).toHaveLength(10);
+		expect(server.requests[0].pathname).toBe("/fapi/v1/klines");
+		expect(bars).toHaveLength(15000);
+		expect(nextTime).toBe(bars[0].time - 1);
+	});
+
+	it("reports nothing older past the listing", async () => {
+		const listedAt = NOW - 100 * MINUTE_MS;
+		server = startStubServer(serveKlines(listedAt));
+		const adapter = createBinanceAdapter({ now: () => NOW });
+		const { bars, nextTime } = await adapter.getBars(spot, MINUTE, {
+			from: Math.floor(NOW / 1000) - 500 * 60,
+			to: Math.floor(NOW / 1000),
+			firstDataRequest: false,
+		});
+		expect(server.requests).toHaveLength(1);
+		expect(bars[0].time * 1000).toBe(
+			Math.ceil(listedAt / MINUTE_MS) * MINUTE_MS
+		);
+		expect(nextTime).toBeUndefined();
+	});
+
+	it("rejects second intervals on USD-M futures", async () => {
+		server = startStubServer(serveKlines(0));
+		const adapter = createBinanceAdapter({ now: () => NOW });
+		await expect(
+			adapter.getBars(perpetual, createResolution(1, "seconds"), {
+				from: 0,
+				to: Math.floor(NOW / 1000),
+				firstDataRequest: false,
+			})
+		).rejects.toThrow("no second klines");
+		expect(server.requests).toEqual([]);
+	});
+
+	it("streams klines next to trades on the trade channel", () => {
+		const adapter = createBinanceAdapter({ now: () => NOW });
+		const channel = adapter.getChannel(spot);
+		expect(channel).toBe("btcusdt@aggTrade");
+		expect(
+			JSON.parse(adapter.formatSubscribe?.([channel]) as string)
+		).toMatchObject({
+			method: "SUBSCRIBE",
+			params: ["btcusdt@aggTrade", "btcusdt@kline_1m"],
+		});
+		expect(
+			JSON.parse(adapter.formatUnsubscribe?.([channel]) as string).params
+		).toEqual(["btcusdt@aggTrade", "btcusdt@kline_1m"]);
+
+		const socketUrl = adapter.getSocketUrl(spot) as string;
+		const [kline] = adapter.parseMessage?.(
+			JSON.stringify({
+				e: "kline",
+				E: NOW,
+				s: "BTCUSDT",
+				k: {
+					t: NOW - 30000,
+					i: "1m",
+					o: "100",
+					h: "102",
+					l: "99",
+					c: "101",
+					v: "3",
+					q: "303",
+				},
+			}),
+			socketUrl
+		) as ParsedChannelMessage[];
+		expect(kline).toEqual({
+			channel,
+			trades: [],
+			kline: {
+				interval: "1",
+				bar: {
+					time: (NOW - 30000) / 1000,
+					open: 100,
+					high: 102,
+					low: 99,
+					close: 101,
+					volume: 3,
+					turnover: 303,
+				},
+			},
+		});
+
+		const [trade] = adapter.parseMessage?.(
+			JSON.stringify({
+				e: "aggTrade",
+				E: NOW,
+				s: "BTCUSDT",
+				a: 7,
+				p: "101",
+				q: "0.5",
+				T: NOW,
+				m: true,
+			}),
+			socketUrl
+		) as ParsedChannelMessage[];
+		expect(trade.channel).toBe(channel);
+		expect(trade.trades[0]).toMatchObject({
+			tradeID: "7",
+			price: 101,
+			quantity: 0.5,
+			side: "SELL",
+			segment: "SPOT",
+		});
+	});
+});
@@ -0,0 +1,473 @@
+import { SymbolInfo, PeriodParams } from "@gocharting/chart-sdk";
+import { RawBar, ResolutionInfo, TradeMessage } from "../datafeed-types";
+import {
+	AdapterBarsResult,
+	ExchangeAdapter,
+	ParsedChannelMessage,
+} from "./exchange-adapter";
+
+/** Stop paging after this many requests to stay clear of Binance's weight limits */
+const BINANCE_MAX_PAGES = 10;
+/** Bars requested on a chart's first load when it asks for no count */
+const BINANCE_DEFAULT_BARS = 200;
+/**
+ * Binance only pings at the protocol level, which pages cannot see, so a
+ * quiet stream is kept talking by listing its subscriptions
+ */
+const BINANCE_PING_INTERVAL_MS = 20000;
+/** Reconnect when not even a subscription listing came back for this long */
+const BINANCE_HEARTBEAT_TIMEOUT_MS = 45000;
+
+/** Quote assets recognised at the end of a Binance symbol */
+const BINANCE_QUOTE_ASSETS = [
+	"USDT",
+	"USDC",
+	"FDUSD",
+	"BUSD",
+	"BTC",
+	"ETH",
+	"BNB",
+	"EUR",
+	"TRY",
+];
+
+/** Native Binance kline intervals of spot */
+const BINANCE_NATIVE_INTERVALS = [
+	"1S",
+	"1",
+	"3",
+	"5",
+	"15",
+	"30",
+	"60",
+	"120",
+	"240",
+	"360",
+	"480",
+	"720",
+	"D",
+	"3D",
+	"W",
+	"M",
+];
+
+/** USD-M futures have the spot intervals but one second */
+const BINANCE_USDM_INTERVALS = BINANCE_NATIVE_INTERVALS.filter(
+	(interval) => interval !== "1S"
+);
+
+/** Interval of the kline stream kept next to each trade stream */
+const BINANCE_KLINE_INTERVAL = "1";
+const BINANCE_KLINE_TOPIC_SUFFIX = "@kline_1m";
+const BINANCE_TRADE_TOPIC_SUFFIX = "@aggTrade";
+
+/** Native Binance kline intervals by resolution units */
+const BINANCE_INTERVALS: Record<string, number[]> = {
+	seconds: [1],
+	minutes: [1, 3, 5, 15, 30],
+	hours: [1, 2, 4, 6, 8, 12],
+	days: [1, 3],
+	weeks: [1],
+	months: [1],
+};
+
+const BINANCE_INTERVAL_SUFFIX: Record<string, string> = {
+	seconds: "s",
+	minutes: "m",
+	hours: "h",
+	days: "d",
+	weeks: "w",
+	months: "M",
+};
+
+/**
+ * Binance market a symbol trades on
+ */
+type BinanceMarket = "spot" | "usdm";
+
+/**
+ * Binance kline row:
+ * [openTime, open, high, low, close, volume, closeTime, quoteVolume, trades, ...]
+ */
+type BinanceKline = [
+	number,
+	string,
+	string,
+	string,
+	string,
+	string,
+	number,
+	string,
+	number,
+	...unknown[],
+];
+
+type PagedPeriodParams = PeriodParams & { countBack?: number };
+
+/**
+ * Binance aggTrade stream payload
+ */
+type BinanceAggTrade = {
+	e: "aggTrade";
+	/** Event time */
+	E: number;
+	/** Symbol */
+	s: string;
+	/** Aggregate trade ID */
+	a: number;
+	/** Price */
+	p: string;
+	/** Quantity */
+	q: string;
+	/** Trade time */
+	T: number;
+	/** Buyer is the maker, i.e. the taker sold */
+	m: boolean;
+};
+
+/**
+ * Binance kline stream payload
+ */
+type BinanceKlineEvent = {
+	e: "kline";
+	/** Event time */
+	E: number;
+	/** Symbol */
+	s: string;
+	k: {
+		/** Open time */
+		t: number;
+		/** Interval, e.g. "1m" */
+		i: string;
+		o: string;
+		h: string;
+		l: string;
+		c: string;
+		/** Base asset volume */
+		v: string;
+		/** Quote asset volume */
+		q: string;
+	};
+};
+
+/**
+ * Endpoints used by the Binance adapter, overridable to point at a mock server
+ */
+export type BinanceAdapterOptions = {
+	spotRestUrl?: string;
+	usdmRestUrl?: string;
+	spotSocketUrl?: string;
+	usdmSocketUrl?: string;
+	/** Current time in milliseconds, e.g. a skew-corrected clock */
+	now?: () => number;
+};
+
+/**
+ * Spot unless the symbol is a futures/perpetual contract
+ */
+const getBinanceMarket = (symbolInfo: SymbolInfo): BinanceMarket => {
+	const segment = (
+		symbolInfo.segment ||
+		(symbolInfo.full_name || "").split(":")[1] ||
+		""
+	).toUpperCase();
+	return segment === "FUTURE" || segment === "PERP" ? "usdm" : "spot";
+};
+
+/**
+ * Binance symbol for a ticker; bare base assets such as BTC are quoted in USDT
+ */
+const getBinanceSymbol = (symbolInfo: SymbolInfo): string => {
+	const ticker = (symbolInfo.symbol || symbolInfo.ticker || "").toUpperCase();
+	const hasQuote = BINANCE_QUOTE_ASSETS.some(
+		(quote) => ticker.length > quote.length && ticker.endsWith(quote)
+	);
+	return hasQuote ? ticker : `${ticker}USDT`;
+};
+
+/**
+ * Binance kline interval for a resolution
+ */
+const mapBinanceInterval = (resolutionInfo: ResolutionInfo): string => {
+	let { scale, units } = resolutionInfo;
+	// 60 minutes and 24 hours are better expressed in the larger unit
+	if (units === "minutes" && scale % 60 === 0) {
+		scale = scale / 60;
+		units = "hours";
+	}
+	if (units === "hours" && scale % 24 === 0) {
+		scale = scale / 24;
+		units = "days";
+	}
+	if (!BINANCE_INTERVALS[units]?.includes(scale)) {
+		throw new Error(
+			`Binance does not support the ${scale} ${units} interval`
+		);
+	}
+	return `${scale}${BINANCE_INTERVAL_SUFFIX[units]}`;
+};
+
+/**
+ * Stream topics for subscribing trade channels: each aggTrade topic along
+ * with its symbol's kline topic
+ */
+const withKlineTopics = (topics: string[]): string[] =>
+	topics.reduce(
+		(all: string[], topic) =>
+			topic.endsWith(BINANCE_TRADE_TOPIC_SUFFIX)
+				? all.concat(
+						topic,
+						topic.slice(0, -BINANCE_TRADE_TOPIC_SUFFIX.length) +
+							BINANCE_KLINE_TOPIC_SUFFIX
+					)
+				: all.concat(topic),
+		[]
+	);
+
+const toRawBar = (kline: BinanceKline): RawBar => ({
+	time: Math.floor(kline[0] / 1000), // Convert to seconds
+	open: Number(kline[1]),
+	high: Number(kline[2]),
+	low: Number(kline[3]),
+	close: Number(kline[4]),
+	volume: Number(kline[5]),
+	turnover: Number(kline[7]),
+});
+
+/**
+ * Adapter for Binance spot and USD-M futures public market data
+ *
+ * BINANCE:SPOT:BTCUSDT (or BINANCE:BTC) resolves to spot,
+ * BINANCE:FUTURE:BTCUSDT to the USD-M perpetual. History is paged
+ * backwards from the end of the period through the klines endpoint, up to
+ * BINANCE_MAX_PAGES requests; a period left unfinished reports where its
+ * older bars continue. Live trades come from the aggTrade stream, and the
+ * one-minute kline stream beside it keeps one-minute bars in line with
+ * the venue's.
+ */
+export const createBinanceAdapter = (
+	options: BinanceAdapterOptions = {}
+): ExchangeAdapter => {
+	const {
+		spotRestUrl = "https://api.binance.com/api/v3",
+		usdmRestUrl = "https://fapi.binance.com/fapi/v1",
+		spotSocketUrl = "wss://stream.binance.com:9443/ws",
+		usdmSocketUrl = "wss://fstream.binance.com/ws",
+		now = Date.now,
+	} = options;
+	let requestId = 0;
+
+	const fetchKlines = async (
+		market: BinanceMarket,
+		params: Record<string, string>
+	): Promise<BinanceKline[]> => {
+		const baseUrl = market === "usdm" ? usdmRestUrl : spotRestUrl;
+		const url = new URL(`${baseUrl}/klines`);
+		Object.keys(params).forEach((key) =>
+			url.searchParams.append(key, params[key])
+		);
+		const res = await fetch(url.toString());
+		if (!res.ok) {
+			throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+		}
+		return (await res.json()) as BinanceKline[];
+	};
+
+	return {
+		name: "binance",
+		exchanges: ["BINANCE"],
+
+		nativeIntervals: BINANCE_NATIVE_INTERVALS,
+
+		// USD-M futures have no one-second klines
+		getNativeIntervals: (symbolInfo: SymbolInfo) =>
+			getBinanceMarket(symbolInfo) === "usdm"
+				? BINANCE_USDM_INTERVALS
+				: BINANCE_NATIVE_INTERVALS,
+
+		mapInterval: mapBinanceInterval,
+
+		async getBars(
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo,
+			periodParams: PagedPeriodParams
+		): Promise<AdapterBarsResult> {
+			const { from, to, firstDataRequest, rows, countBack } =
+				periodParams;
+			const market = getBinanceMarket(symbolInfo);
+			if (market === "usdm" && resolutionInfo.units === "seconds") {
+				throw new Error("Binance USD-M futures have no second klines");
+			}
+			const pageLimit = market === "usdm" ? 1500 : 1000;
+			const baseParams = {
+				symbol: getBinanceSymbol(symbolInfo),
+				interval: mapBinanceInterval(resolutionInfo),
+			};
+
+			// Convert to milliseconds if needed (from is in seconds in installed SDK)
+			const endMs = firstDataRequest
+				? now()
+				: typeof to === "number"
+					? to * 1000
+					: (to as Date).getTime();
+			const startMs = firstDataRequest
+				? endMs
+				: typeof from === "number"
+					? from * 1000
+					: (from as Date).getTime();
+			const wantedBars = firstDataRequest
+				? countBack || rows || BINANCE_DEFAULT_BARS
+				: countBack || 0;
+
+			// Binance returns the newest klines up to endTime, so walk back
+			// from the end of the period until it and countBack are covered
+			let bars: RawBar[] = [];
+			let cursor = endMs;
+			let reachedListing = false;
+			const isCovered = () =>
+				bars.length > 0 &&
+				bars[0].time * 1000 <= startMs &&
+				bars.length >= wantedBars;
+			for (
+				let page = 0;
+				page < BINANCE_MAX_PAGES && !reachedListing;
+				page++
+			) {
+				if (isCovered()) {
+					break;
+				}
+				const klines = await fetchKlines(market, {
+					...baseParams,
+					endTime: String(cursor),
+					limit: String(pageLimit),
+				});
+				bars = [...klines.map(toRawBar), ...bars];
+				// A short page means there is nothing older
+				reachedListing = klines.length < pageLimit;
+				if (klines.length) {
+					cursor = klines[0][0] - 1;
+				}
+			}
+
+			// Keep the range, extended back only as far as countBack requires
+			const startSeconds = Math.floor(startMs / 1000);
+			const inRange = bars.filter((bar) => bar.time >= startSeconds);
+			const served =
+				inRange.length >= wantedBars
+					? inRange
+					: bars.slice(Math.max(0, bars.length - wantedBars));
+			if (served.length > 0) {
+				// Out of pages: older bars of the period continue before
+				// the oldest one fetched
+				return reachedListing || isCovered()
+					? { bars: served }
+					: { bars: served, nextTime: Math.floor(cursor / 1000) };
+			}
+
+			// Nothing in range: tell the chart where older data resumes, if anywhere
+			const olderBar = bars[bars.length - 1];
+			return {
+				bars: [],
+				nextTime: olderBar ? olderBar.time : null,
+			};
+		},
+
+		getChannel(symbolInfo: SymbolInfo): string {
+			return `${getBinanceSymbol(symbolInfo).toLowerCase()}${BINANCE_TRADE_TOPIC_SUFFIX}`;
+		},
+
+		getSocketUrl(symbolInfo: SymbolInfo): string {
+			return getBinanceMarket(symbolInfo) === "usdm"
+				? usdmSocketUrl
+				: spotSocketUrl;
+		},
+
+		heartbeat: {
+			message: () => {
+				requestId += 1;
+				return JSON.stringify({
+					method: "LIST_SUBSCRIPTIONS",
+					id: requestId,
+				});
+			},
+			intervalMs: BINANCE_PING_INTERVAL_MS,
+			timeoutMs: BINANCE_HEARTBEAT_TIMEOUT_MS,
+		},
+
+		// Each trade channel also carries its symbol's kline stream
+		formatSubscribe(topics: string[]): string {
+			requestId += 1;
+			return JSON.stringify({
+				method: "SUBSCRIBE",
+				params: withKlineTopics(topics),
+				id: requestId,
+			});
+		},
+
+		formatUnsubscribe(topics: string[]): string {
+			requestId += 1;
+			return JSON.stringify({
+				method: "UNSUBSCRIBE",
+				params: withKlineTopics(topics),
+				id: requestId,
+			});
+		},
+
+		parseMessage(
+			data: string,
+			socketUrl: string
+		): ParsedChannelMessage[] | null {
+			const message = JSON.parse(data) as
+				BinanceAggTrade | BinanceKlineEvent;
+			if (message.e === "kline") {
+				const { k } = message;
+				return [
+					{
+						channel: `${message.s.toLowerCase()}${BINANCE_TRADE_TOPIC_SUFFIX}`,
+						trades: [],
+						kline: {
+							interval: BINANCE_KLINE_INTERVAL,
+							bar: {
+								time: Math.floor(k.t / 1000),
+								open: Number(k.o),
+								high: Number(k.h),
+								low: Number(k.l),
+								close: Number(k.c),
+								volume: Number(k.v),
+								turnover: Number(k.q),
+							},
+						},
+					},
+				];
+			}
+			if (message.e !== "aggTrade") {
+				// Skip subscription results and other events
+				return null;
+			}
+
+			// Both markets share the payload format; the socket tells them apart
+			const segment = socketUrl === usdmSocketUrl ? "FUTURE" : "SPOT";
+			const price = Number(message.p);
+			const quantity = Number(message.q);
+			const tradeMessage: TradeMessage = {
+				type: "trade",
+				productId: `BINANCE:${segment}:${message.s}`,
+				symbol: message.s,
+				exchange: "BINANCE",
+				segment,
+				timeStamp: new Date(message.T),
+				tradeID: String(message.a),
+				price,
+				quantity,
+				amount: price * quantity,
+				side: message.m ? "SELL" : "BUY",
+			};
+			return [
+				{
+					channel: `${message.s.toLowerCase()}${BINANCE_TRADE_TOPIC_SUFFIX}`,
+					trades: [tradeMessage],
+				},
+			];
+		},
+	};
+};
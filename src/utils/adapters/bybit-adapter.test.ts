@@ -0,0 +1,114 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { createBybitAdapter } from "./bybit-adapter";
+import { createResolution } from "../resolution";
+import { startStubServer, StubServer } from "../test-utils/stub-server";
+
+const HOUR = createResolution(1, "hours");
+const HOUR_MS = 3600 * 1000;
+const NOW = 472222 * HOUR_MS;
+const SPOT = {
+	full_name: "BYBIT:SPOT:BTCUSDT",
+	ticker: "BTCUSDT",
+} as SymbolInfo;
+
+// Hourly klines: ten after the listing, then no trading for 5000 hours,
+// then the five up to now
+const KLINE_TIMES = [
+	...Array.from({ length: 10 }, (_, k) => NOW - (5009 - k) * HOUR_MS),
+	...Array.from({ length: 5 }, (_, k) => NOW - (4 - k) * HOUR_MS),
+];
+const LISTED_UNTIL = NOW - 5000 * HOUR_MS;
+
+// /v5/market/kline: the newest klines from start to end, newest first
+const serveKlines = (url: URL) => {
+	const params = url.searchParams;
+	const start = Number(params.get("start") || 0);
+	const end = Number(params.get("end"));
+	const list = KLINE_TIMES.filter((time) => time >= start && time <= end)
+		.slice(-Number(params.get("limit")))
+		.reverse()
+		.map((time) => [String(time), "1", "2", "0.5", "1.5", "10", "15"]);
+	return {
+		retCode: 0,
+		retMsg: "OK",
+		result: { symbol: params.get("symbol"), category: "spot", list },
+		retExtInfo: {},
+	};
+};
+
+const toSeconds = (ms: number) => ms / 1000;
+
+describe("createBybitAdapter getBars", () => {
+	let server: StubServer;
+
+	afterEach(() => {
+		server.close();
+	});
+
+	it("serves options without history instead of failing", async () => {
+		server = startStubServer(() => ({ status: 500 }));
+		const adapter = createBybitAdapter(() => 1700000000000);
+		const result = await adapter.getBars(
+			{
+				full_name: "BYBIT:OPTION:BTC-29DEC23-40000-C",
+				ticker: "BTC-29DEC23-40000-C",
+			} as SymbolInfo,
+			HOUR,
+			{ from: 1690000000, to: 1700000000, firstDataRequest: true }
+		);
+		expect(result).toEqual({ bars: [], nextTime: null });
+		expect(server.requests).toEqual([]);
+	});
+
+	it("skips a gap in trading to fill countBack", async () => {
+		server = startStubServer(serveKlines);
+		const adapter = createBybitAdapter(() => NOW);
+		const { bars, nextTime } = await adapter.getBars(SPOT, HOUR, {
+			from: 0,
+			to: 0,
+			firstDataRequest: true,
+			countBack: 10,
+		});
+		expect(bars.map((bar) => bar.time)).toEqual(
+			KLINE_TIMES.slice(-10).map(toSeconds)
+		);
+		expect(nextTime).toBeUndefined();
+
+		// An empty window is followed by a one-bar lookup that jumps the gap
+		const lookups = server.requests.filter(
+			(url) => !url.searchParams.has("start")
+		);
+		expect(lookups[0].searchParams.get("limit")).toBe("1");
+		const windowEnds = server.requests
+			.filter((url) => url.searchParams.has("start"))
+			.map((url) => Number(url.searchParams.get("end")));
+		expect(windowEnds).toContain(LISTED_UNTIL);
+		// Nothing older than the listing: paging stops well short of the cap
+		expect(server.requests.length).toBeLessThan(10);
+	});
+
+	it("points at the older bars when the range falls in a gap", async () => {
+		server = startStubServer(serveKlines);
+		const adapter = createBybitAdapter(() => NOW);
+		const result = await adapter.getBars(SPOT, HOUR, {
+			from: toSeconds(NOW - 3000 * HOUR_MS),
+			to: toSeconds(NOW - 2000 * HOUR_MS),
+			firstDataRequest: false,
+		});
+		expect(result).toEqual({
+			bars: [],
+			nextTime: toSeconds(LISTED_UNTIL),
+		});
+	});
+
+	it("reports no more data before the listing", async () => {
+		server = startStubServer(serveKlines);
+		const adapter = createBybitAdapter(() => NOW);
+		const result = await adapter.getBars(SPOT, HOUR, {
+			from: toSeconds(NOW - 9000 * HOUR_MS),
+			to: toSeconds(NOW - 8000 * HOUR_MS),
+			firstDataRequest: false,
+		});
+		expect(result).toEqual({ bars: [], nextTime: null });
+	});
+});
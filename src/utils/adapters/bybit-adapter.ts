@@ -0,0 +1,1140 @@
+import { SymbolInfo, PeriodParams } from "@gocharting/chart-sdk";
+import { RawBar, ResolutionInfo, TradeMessage } from "../datafeed-types";
+import {
+	aggregateBars,
+	getBarStartTime,
+	getIntervalLabel,
+	getResolutionSeconds,
+} from "../resolution";
+import {
+	DerivedSeries,
+	getDerivedSeries,
+	getUnderlyingSymbol,
+} from "../derived-series";
+import {
+	AdapterBarsResult,
+	DatedContract,
+	ExchangeAdapter,
+	InstrumentInfo,
+	ParsedChannelMessage,
+} from "./exchange-adapter";
+
+/** Most klines Bybit returns per request */
+const BYBIT_PAGE_LIMIT = 1000;
+/** Kline pages requested in parallel */
+const BYBIT_PAGE_CONCURRENCY = 3;
+/** Upper bound on pages per getBars call, i.e. 50,000 bars */
+const BYBIT_MAX_PAGES = 50;
+
+/** Native Bybit kline intervals */
+const BYBIT_INTERVALS = [
+	"1",
+	"3",
+	"5",
+	"15",
+	"30",
+	"60",
+	"120",
+	"240",
+	"360",
+	"720",
+	"D",
+	"W",
+	"M",
+];
+
+/** Open interest intervals, by SDK interval */
+const BYBIT_OPEN_INTEREST_INTERVALS: Record<string, string> = {
+	"5": "5min",
+	"15": "15min",
+	"30": "30min",
+	"60": "1h",
+	"240": "4h",
+	D: "1d",
+};
+/** Most open interest readings Bybit returns per request */
+const BYBIT_OPEN_INTEREST_PAGE_LIMIT = 200;
+/** Most funding settlements Bybit returns per request */
+const BYBIT_FUNDING_PAGE_LIMIT = 200;
+/** Funding settles at most hourly, so a page never spans more than 200 hours */
+const BYBIT_FUNDING_PAGE_SPAN_MS = BYBIT_FUNDING_PAGE_LIMIT * 3600 * 1000;
+/** Most instruments Bybit lists per request */
+const BYBIT_INSTRUMENT_PAGE_LIMIT = 1000;
+/** Dated contracts are listed afresh after this long, as new ones launch */
+const BYBIT_CONTRACT_LIST_MAX_AGE_MS = 60 * 60 * 1000;
+
+/** Kline endpoint of each price series; trades use /v5/market/kline */
+const BYBIT_KLINE_ENDPOINTS: Partial<Record<DerivedSeries, string>> = {
+	MARK: "mark-price-kline",
+	INDEX: "index-price-kline",
+};
+
+/** Ticker field streaming each derived series */
+const BYBIT_TICKER_FIELDS: Record<DerivedSeries, keyof BybitTickerData> = {
+	OI: "openInterest",
+	FUNDING: "fundingRate",
+	MARK: "markPrice",
+	INDEX: "indexPrice",
+};
+
+/** Most recent trades Bybit returns per category */
+const BYBIT_RECENT_TRADE_LIMITS: Record<BybitCategory, number> = {
+	linear: 1000,
+	inverse: 1000,
+	spot: 60,
+	option: 100,
+};
+
+/** Order book depths published per category, shallowest first */
+const BYBIT_DEPTH_LEVELS: Record<BybitCategory, number[]> = {
+	linear: [1, 50, 200, 500],
+	inverse: [1, 50, 200, 500],
+	spot: [1, 50, 200],
+	option: [25, 100],
+};
+
+/** Bybit drops public connections that stay silent, so ping well within its window */
+const BYBIT_PING_INTERVAL_MS = 20000;
+/** Reconnect when not even a pong came back for this long */
+const BYBIT_HEARTBEAT_TIMEOUT_MS = 45000;
+
+// ============================================================================
+// Bybit API Response Types
+// ============================================================================
+
+/**
+ * Bybit Kline (OHLCV) API response structure
+ */
+type BybitKlineResponse = {
+	retCode: number;
+	retMsg: string;
+	result: {
+		symbol: string;
+		category: string;
+		list: string[][]; // [timestamp, open, high, low, close, volume, turnover]; mark and index klines stop at close
+	};
+	retExtInfo: Record<string, unknown>;
+	time: number;
+};
+
+/**
+ * Bybit open interest API response structure
+ */
+type BybitOpenInterestResponse = {
+	retCode: number;
+	retMsg: string;
+	result: {
+		symbol: string;
+		category: string;
+		list: Array<{
+			openInterest: string;
+			/** Reading time in milliseconds */
+			timestamp: string;
+		}>;
+		nextPageCursor: string;
+	};
+};
+
+/**
+ * Bybit funding rate history API response structure
+ */
+type BybitFundingHistoryResponse = {
+	retCode: number;
+	retMsg: string;
+	result: {
+		category: string;
+		list: Array<{
+			symbol: string;
+			fundingRate: string;
+			/** Settlement time in milliseconds */
+			fundingRateTimestamp: string;
+		}>;
+	};
+};
+
+/**
+ * Bybit recent public trades API response structure
+ */
+type BybitRecentTradeResponse = {
+	retCode: number;
+	retMsg: string;
+	result: {
+		category: string;
+		list: Array<{
+			execId: string;
+			symbol: string;
+			price: string;
+			size: string;
+			/** "Buy" or "Sell" */
+			side: string;
+			/** Trade time in milliseconds */
+			time: string;
+			isBlockTrade: boolean;
+		}>;
+	};
+};
+
+/**
+ * Bybit instrument as listed by /v5/market/instruments-info
+ */
+type BybitInstrument = {
+	symbol: string;
+	status: string;
+	baseCoin: string;
+	quoteCoin: string;
+	/** Listing time in milliseconds; not reported for spot */
+	launchTime?: string;
+	/** Expiry in milliseconds; "0" for perpetuals, absent for spot */
+	deliveryTime?: string;
+	/** LinearPerpetual, LinearFutures, InversePerpetual or InverseFutures */
+	contractType?: string;
+	priceFilter: {
+		tickSize: string;
+	};
+	lotSizeFilter: {
+		minOrderQty: string;
+		maxOrderQty: string;
+		/** Quantity step of derivatives */
+		qtyStep?: string;
+		/** Quantity step of spot pairs */
+		basePrecision?: string;
+	};
+};
+
+/**
+ * Bybit instruments info API response structure
+ */
+type BybitInstrumentsResponse = {
+	retCode: number;
+	retMsg: string;
+	result: {
+		category: string;
+		list: BybitInstrument[];
+		/** Cursor of the next page; empty on the last one */
+		nextPageCursor?: string;
+	};
+};
+
+/**
+ * Bybit server time API response structure
+ */
+type BybitServerTimeResponse = {
+	retCode: number;
+	retMsg: string;
+	result: {
+		timeSecond: string;
+		timeNano: string;
+	};
+	time: number;
+};
+
+/**
+ * Bybit WebSocket trade data structure
+ */
+type BybitTradeData = {
+	/** Timestamp in milliseconds */
+	T: number;
+	/** Symbol */
+	s: string;
+	/** Side: "Buy" or "Sell" */
+	S: string;
+	/** Price */
+	p: string;
+	/** Trade ID */
+	i: string;
+	/** Size/Volume */
+	v: string;
+};
+
+/**
+ * Bybit WebSocket message structure
+ */
+type BybitWebSocketMessage = {
+	topic: string;
+	type: string;
+	data: BybitTradeData[];
+	ts?: number;
+};
+
+/**
+ * Bybit WebSocket ticker fields used for derived series. Deltas only carry
+ * the fields that changed.
+ */
+type BybitTickerData = {
+	symbol: string;
+	markPrice?: string;
+	indexPrice?: string;
+	openInterest?: string;
+	/** Predicted rate of the next settlement */
+	fundingRate?: string;
+};
+
+/**
+ * Bybit WebSocket ticker message structure
+ */
+type BybitTickerMessage = {
+	topic: string;
+	type: "snapshot" | "delta";
+	data: BybitTickerData;
+	ts: number;
+};
+
+/**
+ * Bybit WebSocket order book message structure
+ */
+type BybitOrderBookMessage = {
+	topic: string;
+	type: "snapshot" | "delta";
+	data: {
+		s: string;
+		/** Bids as [price, size]; size 0 removes the level */
+		b: [string, string][];
+		/** Asks as [price, size]; size 0 removes the level */
+		a: [string, string][];
+		/** Update id; 1 marks a fresh snapshot after a service restart */
+		u: number;
+		seq: number;
+	};
+	ts: number;
+};
+
+/**
+ * Period params including the number of bars the chart wants before `to`
+ */
+type PagedPeriodParams = PeriodParams & { countBack?: number };
+
+/**
+ * Bybit v5 market category
+ */
+export type BybitCategory = "spot" | "linear" | "inverse" | "option";
+
+/** Bybit category for each symbol segment */
+const BYBIT_SEGMENT_CATEGORIES: Record<string, BybitCategory> = {
+	FUTURE: "linear",
+	SPOT: "spot",
+	INVERSE: "inverse",
+	OPTION: "option",
+};
+
+/** Option symbols look like BTC-29MAR24-70000-C or BTC-29MAR24-70000-C-USDT */
+const BYBIT_OPTION_SYMBOL =
+	/^([A-Z0-9]+)-\d{1,2}[A-Z]{3}\d{2}-[\d.]+-[CP](-[A-Z]+)?$/;
+
+/**
+ * Bybit category for a symbol, taken from its segment
+ * (BYBIT:SPOT:BTCUSDT -> spot). Unknown segments are treated as linear.
+ */
+export const getBybitCategory = (symbolInfo: SymbolInfo): BybitCategory => {
+	const segment = (
+		symbolInfo.segment ||
+		(symbolInfo.full_name || "").split(":")[1] ||
+		""
+	).toUpperCase();
+	return BYBIT_SEGMENT_CATEGORIES[segment] || "linear";
+};
+
+/** Symbol segment for a category, the inverse of BYBIT_SEGMENT_CATEGORIES */
+const getBybitSegment = (category: BybitCategory): string =>
+	Object.keys(BYBIT_SEGMENT_CATEGORIES).find(
+		(segment) => BYBIT_SEGMENT_CATEGORIES[segment] === category
+	) || "FUTURE";
+
+const getBybitSocketUrl = (category: BybitCategory): string =>
+	`wss://stream.bybit.com/v5/public/${category}`;
+
+/**
+ * Bybit kline interval for a resolution
+ */
+const mapBybitInterval = (resolutionInfo: ResolutionInfo): string => {
+	const label = getIntervalLabel(resolutionInfo);
+	if (!BYBIT_INTERVALS.includes(label)) {
+		throw new Error(`Bybit does not support the ${label} interval`);
+	}
+	return label;
+};
+
+/**
+ * Bybit open interest interval for a resolution
+ */
+const mapOpenInterestInterval = (resolutionInfo: ResolutionInfo): string => {
+	const label = getIntervalLabel(resolutionInfo);
+	const interval = BYBIT_OPEN_INTEREST_INTERVALS[label];
+	if (!interval) {
+		throw new Error(`Bybit has no ${label} open interest`);
+	}
+	return interval;
+};
+
+/**
+ * Kline page from Bybit, oldest first. The endpoint defaults to trade
+ * klines; mark and index price klines have no volume.
+ */
+const fetchBybitKlines = async (params: {
+	endpoint?: string;
+	category: BybitCategory;
+	symbol: string;
+	interval: string;
+	start?: number;
+	end: number;
+	limit: number;
+}): Promise<RawBar[]> => {
+	const url = new URL(
+		`https://api.bybit.com/v5/market/${params.endpoint || "kline"}`
+	);
+	url.searchParams.append("category", params.category);
+	url.searchParams.append("symbol", params.symbol);
+	url.searchParams.append("interval", params.interval);
+	if (params.start !== undefined) {
+		url.searchParams.append("start", String(params.start));
+	}
+	url.searchParams.append("end", String(params.end));
+	url.searchParams.append("limit", String(params.limit));
+
+	const response = await fetch(url.toString());
+	const data = (await response.json()) as BybitKlineResponse;
+	if (data.retCode !== 0 || !data.result?.list) {
+		throw new Error(`No data from Bybit API: ${data.retMsg}`);
+	}
+
+	const bars: RawBar[] = [];
+	const list = data.result.list;
+	for (let k = 0; k < list.length; k++) {
+		const [timestamp, open, high, low, close, size, value] = list[k];
+		// Inverse klines count volume in USD contracts and turnover in coins
+		const [volume, turnover] =
+			params.category === "inverse" ? [value, size] : [size, value];
+		const bar: RawBar = {
+			time: Math.floor(Number(timestamp) / 1000), // Convert to seconds
+			open: Number(open),
+			high: Number(high),
+			low: Number(low),
+			close: Number(close),
+			volume: Number(volume || 0),
+		};
+		if (turnover !== undefined) {
+			bar.turnover = Number(turnover);
+		}
+		bars.push(bar);
+	}
+	// Bybit returns newest first, we need oldest first
+	return bars.reverse();
+};
+
+/**
+ * Open interest page from Bybit as flat bars, oldest first
+ */
+const fetchBybitOpenInterest = async (params: {
+	category: BybitCategory;
+	symbol: string;
+	intervalTime: string;
+	start?: number;
+	end: number;
+	limit: number;
+}): Promise<RawBar[]> => {
+	const url = new URL("https://api.bybit.com/v5/market/open-interest");
+	url.searchParams.append("category", params.category);
+	url.searchParams.append("symbol", params.symbol);
+	url.searchParams.append("intervalTime", params.intervalTime);
+	if (params.start !== undefined) {
+		url.searchParams.append("startTime", String(params.start));
+	}
+	url.searchParams.append("endTime", String(params.end));
+	url.searchParams.append("limit", String(params.limit));
+
+	const response = await fetch(url.toString());
+	const data = (await response.json()) as BybitOpenInterestResponse;
+	if (data.retCode !== 0 || !data.result?.list) {
+		throw new Error(`No open interest from Bybit API: ${data.retMsg}`);
+	}
+	return data.result.list
+		.map(({ openInterest, timestamp }) =>
+			createFlatBar(Number(timestamp), Number(openInterest))
+		)
+		.reverse();
+};
+
+/**
+ * Funding settlements from Bybit as flat bars, oldest first
+ */
+const fetchBybitFundingRates = async (params: {
+	category: BybitCategory;
+	symbol: string;
+	start?: number;
+	end: number;
+	limit: number;
+}): Promise<RawBar[]> => {
+	const url = new URL("https://api.bybit.com/v5/market/funding/history");
+	url.searchParams.append("category", params.category);
+	url.searchParams.append("symbol", params.symbol);
+	if (params.start !== undefined) {
+		url.searchParams.append("startTime", String(params.start));
+	}
+	url.searchParams.append("endTime", String(params.end));
+	url.searchParams.append("limit", String(params.limit));
+
+	const response = await fetch(url.toString());
+	const data = (await response.json()) as BybitFundingHistoryResponse;
+	if (data.retCode !== 0 || !data.result?.list) {
+		throw new Error(`No funding history from Bybit API: ${data.retMsg}`);
+	}
+	return data.result.list
+		.map(({ fundingRate, fundingRateTimestamp }) =>
+			createFlatBar(Number(fundingRateTimestamp), Number(fundingRate))
+		)
+		.reverse();
+};
+
+/**
+ * Bar of a single reading (time in milliseconds) without volume
+ */
+const createFlatBar = (time: number, value: number): RawBar => ({
+	time: Math.floor(time / 1000),
+	open: value,
+	high: value,
+	low: value,
+	close: value,
+	volume: 0,
+});
+
+/**
+ * Bars for the requested period from an endpoint paged by time
+ *
+ * Walks backwards from the end of the period in windows of pageSpanMs until
+ * the range is covered and countBack is satisfied, skipping over gaps in
+ * trading, or until nothing older is listed. Windows are independent, so a
+ * few are fetched at a time. fetchPage returns a window's bars oldest
+ * first, or the latest bars before end when start is undefined.
+ */
+const fetchBybitPages = async (
+	fetchPage: (
+		start: number | undefined,
+		end: number,
+		limit: number
+	) => Promise<RawBar[]>,
+	pageLimit: number,
+	pageSpanMs: number,
+	intervalMs: number,
+	periodParams: PagedPeriodParams,
+	now: () => number
+): Promise<AdapterBarsResult> => {
+	const { from, to, firstDataRequest, rows, countBack } = periodParams;
+
+	let endMs: number;
+	let startMs: number;
+	let wantedBars: number;
+	if (firstDataRequest) {
+		// Use current time to get recent data up to today
+		endMs = now();
+		wantedBars = countBack || rows || 200;
+		startMs = endMs - wantedBars * intervalMs;
+	} else {
+		// Convert to milliseconds if needed (from is in seconds in installed SDK)
+		startMs =
+			typeof from === "number" ? from * 1000 : (from as Date).getTime();
+		endMs = typeof to === "number" ? to * 1000 : (to as Date).getTime();
+		wantedBars = countBack || 0;
+	}
+
+	const barsByTime = new Map<number, RawBar>();
+	let windowEnd = endMs;
+	let reachedListing = false;
+	for (
+		let page = 0;
+		page < BYBIT_MAX_PAGES && !reachedListing;
+		page += BYBIT_PAGE_CONCURRENCY
+	) {
+		const windows: Array<{ start: number; end: number }> = [];
+		while (
+			windows.length < BYBIT_PAGE_CONCURRENCY &&
+			page + windows.length < BYBIT_MAX_PAGES &&
+			(windowEnd > startMs || barsByTime.size < wantedBars)
+		) {
+			windows.push({
+				start: windowEnd - pageSpanMs + 1,
+				end: windowEnd,
+			});
+			windowEnd -= pageSpanMs;
+		}
+		if (windows.length === 0) {
+			break;
+		}
+
+		const pages = await Promise.all(
+			windows.map((range) => fetchPage(range.start, range.end, pageLimit))
+		);
+		pages.forEach((pageBars) => {
+			pageBars.forEach((bar) => barsByTime.set(bar.time, bar));
+		});
+		// An empty oldest window is either a gap in trading or the time
+		// before the listing: carry on from the closest older bar, if any
+		if (pages[pages.length - 1].length === 0) {
+			const oldestWindow = windows[windows.length - 1];
+			const [olderBar] = await fetchPage(
+				undefined,
+				oldestWindow.start - 1,
+				1
+			);
+			if (olderBar) {
+				windowEnd = Math.min(windowEnd, olderBar.time * 1000);
+			} else {
+				reachedListing = true;
+			}
+		}
+	}
+
+	const endSeconds = Math.floor(endMs / 1000);
+	const startSeconds = Math.floor(startMs / 1000);
+	let bars = Array.from(barsByTime.values())
+		.filter((bar) => bar.time <= endSeconds)
+		.sort((a, b) => a.time - b.time);
+	// Keep the range, extended back only as far as countBack requires
+	const inRange = bars.filter((bar) => bar.time >= startSeconds);
+	bars =
+		inRange.length >= wantedBars
+			? inRange
+			: bars.slice(Math.max(0, bars.length - wantedBars));
+
+	if (bars.length > 0) {
+		return { bars };
+	}
+
+	// Nothing in range: tell the chart where older data resumes, if anywhere
+	const [olderBar] = await fetchPage(undefined, startMs, 1);
+	return { bars: [], nextTime: olderBar ? olderBar.time : null };
+};
+
+/**
+ * Instrument details by category and symbol. Listings rarely change, so
+ * each symbol is fetched once per session.
+ */
+const instrumentCache = new Map<string, Promise<InstrumentInfo | null>>();
+
+/**
+ * Contract details of a symbol from Bybit, or null when it is not listed
+ */
+const fetchBybitInstrument = async (
+	category: BybitCategory,
+	symbol: string
+): Promise<InstrumentInfo | null> => {
+	const url = new URL("https://api.bybit.com/v5/market/instruments-info");
+	url.searchParams.append("category", category);
+	url.searchParams.append("symbol", symbol);
+
+	const response = await fetch(url.toString());
+	const data = (await response.json()) as BybitInstrumentsResponse;
+	if (data.retCode !== 0 || !data.result?.list) {
+		throw new Error(`No instrument info from Bybit API: ${data.retMsg}`);
+	}
+	const [instrument] = data.result.list;
+	if (!instrument) {
+		return null;
+	}
+
+	const { priceFilter, lotSizeFilter } = instrument;
+	const deliveryTime = Number(instrument.deliveryTime || 0);
+	return {
+		tickSize: Number(priceFilter.tickSize),
+		qtyStep: Number(lotSizeFilter.qtyStep || lotSizeFilter.basePrecision),
+		minOrderQty: Number(lotSizeFilter.minOrderQty),
+		maxOrderQty: Number(lotSizeFilter.maxOrderQty),
+		// Linear contracts are one base coin, inverse ones one USD
+		contractSize: 1,
+		quoteCurrency: instrument.quoteCoin,
+		launchTime: instrument.launchTime
+			? Number(instrument.launchTime)
+			: null,
+		deliveryTime: deliveryTime > 0 ? deliveryTime : null,
+	};
+};
+
+/**
+ * Dated contracts listed per category, with when they were listed
+ */
+const contractListCache = new Map<
+	BybitCategory,
+	{ createdAt: number; request: Promise<DatedContract[]> }
+>();
+
+/**
+ * Root of a dated contract: BTC for linear BTC-27DEC24, BTCUSD for inverse
+ * BTCUSDZ24
+ */
+const getBybitContractRoot = (
+	category: BybitCategory,
+	symbol: string
+): string =>
+	category === "inverse" ? symbol.slice(0, -3) : symbol.split("-")[0];
+
+/**
+ * Dated futures of a category that are trading on Bybit. Expired contracts
+ * are no longer listed.
+ */
+const fetchBybitDatedContracts = async (
+	category: BybitCategory
+): Promise<DatedContract[]> => {
+	const segment = getBybitSegment(category);
+	const contracts: DatedContract[] = [];
+	let cursor = "";
+	do {
+		const url = new URL("https://api.bybit.com/v5/market/instruments-info");
+		url.searchParams.append("category", category);
+		url.searchParams.append("limit", String(BYBIT_INSTRUMENT_PAGE_LIMIT));
+		if (cursor) url.searchParams.append("cursor", cursor);
+
+		const response = await fetch(url.toString());
+		const data = (await response.json()) as BybitInstrumentsResponse;
+		if (data.retCode !== 0 || !data.result?.list) {
+			throw new Error(`No instruments from Bybit API: ${data.retMsg}`);
+		}
+		data.result.list
+			.filter(
+				(instrument) =>
+					instrument.contractType === "LinearFutures" ||
+					instrument.contractType === "InverseFutures"
+			)
+			.forEach((instrument) => {
+				contracts.push({
+					fullName: `BYBIT:${segment}:${instrument.symbol}`,
+					expiry: Number(instrument.deliveryTime),
+					launchTime: instrument.launchTime
+						? Number(instrument.launchTime)
+						: null,
+				});
+			});
+		cursor = data.result.nextPageCursor || "";
+	} while (cursor);
+	return contracts;
+};
+
+/**
+ * Latest ticker of each symbol, by socket URL and symbol. Deltas only carry
+ * changed fields, so every derived series is read from the merged ticker.
+ * The venue's tickers are the same for every adapter, so they are shared.
+ */
+const latestTickers = new Map<string, BybitTickerData>();
+
+/**
+ * One reading per derived series in a ticker message, each on its own
+ * channel (tickers.BTCUSDT#OI) with the value as the trade price
+ */
+const parseTickerMessage = (
+	message: BybitTickerMessage,
+	socketUrl: string,
+	category: BybitCategory
+): ParsedChannelMessage[] => {
+	const { data, ts } = message;
+	const key = `${socketUrl}|${data.symbol}`;
+	const ticker: BybitTickerData =
+		message.type === "snapshot"
+			? data
+			: { ...latestTickers.get(key), ...data };
+	latestTickers.set(key, ticker);
+
+	const segment = getBybitSegment(category);
+	return (Object.keys(BYBIT_TICKER_FIELDS) as DerivedSeries[])
+		.filter((series) => ticker[BYBIT_TICKER_FIELDS[series]])
+		.map((series) => {
+			const symbol = `${data.symbol}#${series}`;
+			const value = Number(ticker[BYBIT_TICKER_FIELDS[series]]);
+			return {
+				channel: `tickers.${symbol}`,
+				trades: [
+					{
+						type: "trade",
+						productId: `BYBIT:${segment}:${symbol}`,
+						symbol,
+						exchange: "BYBIT",
+						segment,
+						timeStamp: new Date(ts),
+						tradeID: `${symbol}-${ts}`,
+						price: value,
+						quantity: 0,
+						amount: 0,
+						side: "",
+					},
+				],
+			};
+		});
+};
+
+/**
+ * Trade message for a Bybit trade from the socket or the REST API. Both
+ * carry the same trade id, so live and fetched trades de-duplicate.
+ * Inverse trade sizes are USD contracts, so the coin quantity is
+ * size / price.
+ */
+const createBybitTrade = (
+	category: BybitCategory,
+	trade: {
+		symbol: string;
+		id: string;
+		price: string;
+		size: string;
+		side: string;
+		/** Trade time in milliseconds */
+		time: number;
+	}
+): TradeMessage => {
+	const segment = getBybitSegment(category);
+	const price = Number(trade.price);
+	const size = Number(trade.size);
+	const inverse = category === "inverse";
+	return {
+		type: "trade",
+		productId: `BYBIT:${segment}:${trade.symbol}`,
+		symbol: trade.symbol,
+		exchange: "BYBIT",
+		segment,
+		timeStamp: new Date(trade.time),
+		tradeID: trade.id,
+		price,
+		quantity: inverse ? size / price : size,
+		amount: inverse ? size : price * size,
+		side: trade.side.toUpperCase(),
+	};
+};
+
+/**
+ * Order book update in an orderbook.{depth}.{symbol} message
+ */
+const parseOrderBookMessage = (
+	message: BybitOrderBookMessage
+): ParsedChannelMessage[] => {
+	const { data } = message;
+	const toLevels = (levels: [string, string][]): Array<[number, number]> =>
+		levels.map(([price, size]) => [Number(price), Number(size)]);
+	return [
+		{
+			channel: message.topic,
+			trades: [],
+			depth: {
+				type:
+					message.type === "snapshot" || data.u === 1
+						? "snapshot"
+						: "delta",
+				bids: toLevels(data.b),
+				asks: toLevels(data.a),
+				sequence: data.u,
+				time: message.ts,
+			},
+		},
+	];
+};
+
+/**
+ * Adapter for Bybit v5 public market data
+ *
+ * History comes from /v5/market/kline, recent trades from
+ * /v5/market/recent-trade and live trades from the publicTrade.{symbol}
+ * topic. The symbol's segment picks the market:
+ * FUTURE -> linear, SPOT -> spot, INVERSE -> inverse, OPTION -> option,
+ * each on its own socket. Bybit keeps no kline history for options, so
+ * an option chart starts empty with no further history and fills from its
+ * live trades.
+ *
+ * Derived series of perpetuals (BTCUSDT#OI, #FUNDING, #MARK, #INDEX) come
+ * from the open interest, funding history, mark and index kline endpoints
+ * and stream from the tickers.{symbol} topic. Live funding values are the
+ * predicted rate of the next settlement.
+ *
+ * Order books stream from orderbook.{depth}.{symbol}.
+ *
+ * Dated linear and inverse futures are listed for continuous symbols,
+ * which only reach back as far as the contracts still trading.
+ *
+ * @param now - Clock the latest history ends at, e.g. a skew-corrected one
+ */
+export const createBybitAdapter = (
+	now: () => number = Date.now
+): ExchangeAdapter => ({
+	name: "bybit",
+	exchanges: ["BYBIT"],
+
+	nativeIntervals: BYBIT_INTERVALS,
+
+	mapInterval: mapBybitInterval,
+
+	async getBars(
+		symbolInfo: SymbolInfo,
+		resolutionInfo: ResolutionInfo,
+		periodParams: PagedPeriodParams
+	): Promise<AdapterBarsResult> {
+		const category = getBybitCategory(symbolInfo);
+		// No history to page back through; the live tape builds the bars
+		if (category === "option") {
+			return { bars: [], nextTime: null };
+		}
+		// Extract the correct symbol for Bybit API
+		const symbol = getUnderlyingSymbol(symbolInfo);
+		const series = getDerivedSeries(symbolInfo);
+		const intervalMs = getResolutionSeconds(resolutionInfo) * 1000;
+
+		if (series === "OI") {
+			const intervalTime = mapOpenInterestInterval(resolutionInfo);
+			return fetchBybitPages(
+				(start, end, limit) =>
+					fetchBybitOpenInterest({
+						category,
+						symbol,
+						intervalTime,
+						start,
+						end,
+						limit,
+					}),
+				BYBIT_OPEN_INTEREST_PAGE_LIMIT,
+				BYBIT_OPEN_INTEREST_PAGE_LIMIT * intervalMs,
+				intervalMs,
+				periodParams,
+				now
+			);
+		}
+
+		if (series === "FUNDING") {
+			const { bars, nextTime } = await fetchBybitPages(
+				(start, end, limit) =>
+					fetchBybitFundingRates({
+						category,
+						symbol,
+						start,
+						end,
+						limit,
+					}),
+				BYBIT_FUNDING_PAGE_LIMIT,
+				BYBIT_FUNDING_PAGE_SPAN_MS,
+				intervalMs,
+				periodParams,
+				now
+			);
+			// Settlements land in the bar of the requested resolution they fall in
+			return {
+				bars: aggregateBars(bars, resolutionInfo),
+				nextTime:
+					typeof nextTime === "number"
+						? getBarStartTime(nextTime, resolutionInfo)
+						: nextTime,
+			};
+		}
+
+		const request = {
+			endpoint: series ? BYBIT_KLINE_ENDPOINTS[series] : undefined,
+			category,
+			symbol,
+			interval: mapBybitInterval(resolutionInfo),
+		};
+		return fetchBybitPages(
+			(start, end, limit) =>
+				fetchBybitKlines({ ...request, start, end, limit }),
+			BYBIT_PAGE_LIMIT,
+			BYBIT_PAGE_LIMIT * intervalMs,
+			intervalMs,
+			periodParams,
+			now
+		);
+	},
+
+	// Open interest has its own intervals; funding settlements fit any bar
+	getNativeIntervals(symbolInfo: SymbolInfo): string[] | undefined {
+		switch (getDerivedSeries(symbolInfo)) {
+			case "OI":
+				return Object.keys(BYBIT_OPEN_INTEREST_INTERVALS);
+			case "FUNDING":
+				return undefined;
+			default:
+				return BYBIT_INTERVALS;
+		}
+	},
+
+	getChannel(symbolInfo: SymbolInfo): string {
+		const symbol: string = symbolInfo.symbol || symbolInfo.ticker || "";
+		return getDerivedSeries(symbolInfo)
+			? `tickers.${symbol}`
+			: `publicTrade.${symbol}`;
+	},
+
+	// Derived series share their symbol's ticker topic (tickers.BTCUSDT).
+	// Option trades are only published per base coin (publicTrade.BTC).
+	getTopic(channel: string): string {
+		if (channel.startsWith("tickers.")) {
+			return channel.split("#")[0];
+		}
+		const symbol = channel.replace(/^publicTrade\./, "");
+		const optionMatch = BYBIT_OPTION_SYMBOL.exec(symbol);
+		return optionMatch ? `publicTrade.${optionMatch[1]}` : channel;
+	},
+
+	getDepthChannel(symbolInfo: SymbolInfo, levels: number): string {
+		const depths = BYBIT_DEPTH_LEVELS[getBybitCategory(symbolInfo)];
+		const depth =
+			depths.find((each) => each >= levels) || depths[depths.length - 1];
+		return `orderbook.${depth}.${getUnderlyingSymbol(symbolInfo)}`;
+	},
+
+	getSocketUrl(symbolInfo: SymbolInfo): string {
+		// Use Bybit's public WebSocket endpoint for the symbol's category
+		return getBybitSocketUrl(getBybitCategory(symbolInfo));
+	},
+
+	formatSubscribe(topics: string[]): string {
+		return JSON.stringify({ op: "subscribe", args: topics });
+	},
+
+	formatUnsubscribe(topics: string[]): string {
+		return JSON.stringify({ op: "unsubscribe", args: topics });
+	},
+
+	parseMessage(
+		data: string,
+		socketUrl: string
+	): ParsedChannelMessage[] | null {
+		const feedMessage = JSON.parse(data) as
+			BybitWebSocketMessage | BybitTickerMessage | BybitOrderBookMessage;
+		const { topic } = feedMessage;
+
+		// Each category has its own socket, so the URL tells them apart
+		const category =
+			Object.values(BYBIT_SEGMENT_CATEGORIES).find(
+				(each) => getBybitSocketUrl(each) === socketUrl
+			) || "linear";
+
+		if (topic && topic.startsWith("orderbook.")) {
+			return parseOrderBookMessage(feedMessage as BybitOrderBookMessage);
+		}
+		if (topic && topic.startsWith("tickers.")) {
+			return parseTickerMessage(
+				feedMessage as BybitTickerMessage,
+				socketUrl,
+				category
+			);
+		}
+		if (!topic || !topic.startsWith("publicTrade")) {
+			// Skip pongs, subscription acks and other non-trading events
+			return null;
+		}
+		// Group by symbol: an option topic carries trades of many contracts
+		const tradesByChannel = new Map<string, TradeMessage[]>();
+		((feedMessage as BybitWebSocketMessage).data || []).forEach(
+			(each: BybitTradeData) => {
+				const { T: timestamp, s, S: side, p: price, i, v: size } = each;
+				const channel = `publicTrade.${s}`;
+				const trades = tradesByChannel.get(channel) || [];
+				trades.push(
+					createBybitTrade(category, {
+						symbol: s,
+						id: i,
+						price,
+						size,
+						side,
+						time: timestamp,
+					})
+				);
+				tradesByChannel.set(channel, trades);
+			}
+		);
+
+		return Array.from(tradesByChannel.entries()).map(
+			([channel, trades]) => ({ channel, trades })
+		);
+	},
+
+	async getRecentTrades(
+		symbolInfo: SymbolInfo,
+		limit: number
+	): Promise<TradeMessage[]> {
+		// Derived series have no trades of their own
+		if (getDerivedSeries(symbolInfo)) {
+			return [];
+		}
+		const category = getBybitCategory(symbolInfo);
+		const url = new URL("https://api.bybit.com/v5/market/recent-trade");
+		url.searchParams.append("category", category);
+		url.searchParams.append("symbol", getUnderlyingSymbol(symbolInfo));
+		url.searchParams.append(
+			"limit",
+			String(Math.min(limit, BYBIT_RECENT_TRADE_LIMITS[category]))
+		);
+
+		const response = await fetch(url.toString());
+		const data = (await response.json()) as BybitRecentTradeResponse;
+		if (data.retCode !== 0 || !data.result?.list) {
+			throw new Error(`No recent trades from Bybit API: ${data.retMsg}`);
+		}
+		// Bybit returns newest first, we need oldest first
+		return data.result.list
+			.map((trade) =>
+				createBybitTrade(category, {
+					symbol: trade.symbol,
+					id: trade.execId,
+					price: trade.price,
+					size: trade.size,
+					side: trade.side,
+					time: Number(trade.time),
+				})
+			)
+			.reverse();
+	},
+
+	heartbeat: {
+		message: () =>
+			JSON.stringify({ op: "ping", req_id: String(Date.now()) }),
+		intervalMs: BYBIT_PING_INTERVAL_MS,
+		timeoutMs: BYBIT_HEARTBEAT_TIMEOUT_MS,
+	},
+
+	getInstrumentInfo(symbolInfo: SymbolInfo): Promise<InstrumentInfo | null> {
+		const category = getBybitCategory(symbolInfo);
+		const symbol = getUnderlyingSymbol(symbolInfo);
+		const key = `${category}:${symbol}`;
+		let instrument = instrumentCache.get(key);
+		if (!instrument) {
+			instrument = fetchBybitInstrument(category, symbol);
+			// Forget failures so the next resolve retries
+			instrument.catch(() => instrumentCache.delete(key));
+			instrumentCache.set(key, instrument);
+		}
+		return instrument;
+	},
+
+	async getDatedContracts(
+		symbolInfo: SymbolInfo,
+		root: string
+	): Promise<DatedContract[]> {
+		const category = getBybitCategory(symbolInfo);
+		if (category !== "linear" && category !== "inverse") {
+			return [];
+		}
+		let cached = contractListCache.get(category);
+		if (
+			!cached ||
+			Date.now() - cached.createdAt >= BYBIT_CONTRACT_LIST_MAX_AGE_MS
+		) {
+			const request = fetchBybitDatedContracts(category);
+			const listing = { createdAt: Date.now(), request };
+			// Forget failures so the next request retries
+			request.catch(() => {
+				if (contractListCache.get(category) === listing) {
+					contractListCache.delete(category);
+				}
+			});
+			contractListCache.set(category, listing);
+			cached = listing;
+		}
+		const contracts = await cached.request;
+		return contracts.filter(
+			(contract) =>
+				getBybitContractRoot(
+					category,
+					contract.fullName.split(":").pop() as string
+				) === root
+		);
+	},
+
+	async getServerTime(): Promise<number> {
+		const response = await fetch("https://api.bybit.com/v5/market/time");
+		const data = (await response.json()) as BybitServerTimeResponse;
+		if (data.retCode !== 0 || !data.result) {
+			throw new Error(`No server time from Bybit API: ${data.retMsg}`);
+		}
+		// Nanoseconds carry sub-second precision
+		return Math.floor(Number(data.result.timeNano) / 1e6);
+	},
+});
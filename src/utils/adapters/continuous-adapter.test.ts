@@ -0,0 +1,88 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import {
+	createContinuousAdapter,
+	ContinuousSource,
+} from "./continuous-adapter";
+import { DatedContract } from "./exchange-adapter";
+import { RawBar } from "../datafeed-types";
+import { createResolution } from "../resolution";
+
+const DAY = 86400;
+const MINUTE = createResolution(1, "minutes");
+const SYMBOL = { full_name: "BYBIT:FUTURE:BTC1!" } as SymbolInfo;
+
+const CONTRACTS: DatedContract[] = [
+	{
+		fullName: "BYBIT:FUTURE:BTC-10MAR25",
+		expiry: 10 * DAY * 1000,
+		launchTime: 2 * DAY * 1000,
+	},
+	{
+		fullName: "BYBIT:FUTURE:BTC-20APR25",
+		expiry: 20 * DAY * 1000,
+		launchTime: 5 * DAY * 1000,
+	},
+];
+
+// Hourly bars of each contract from its listing
+const createSource = (): ContinuousSource => ({
+	resolveSymbol: async (symbolName) =>
+		({ full_name: symbolName, session: "24x7" }) as SymbolInfo,
+	getBars: async (symbolInfo, _resolution, { from, to }) => {
+		const contract = CONTRACTS.find(
+			({ fullName }) => fullName === symbolInfo.full_name
+		) as DatedContract;
+		const bars: RawBar[] = [];
+		const start = Math.max(from, (contract.launchTime as number) / 1000);
+		for (
+			let time = Math.ceil(start / 3600) * 3600;
+			time <= to;
+			time += 3600
+		) {
+			bars.push({ time, open: 1, high: 1, low: 1, close: 1, volume: 1 });
+		}
+		return { bars };
+	},
+	getDatedContracts: async () => CONTRACTS,
+	subscribeTrades: () => () => {},
+	resetSymbol: () => {},
+});
+
+describe("createContinuousAdapter", () => {
+	const adapter = createContinuousAdapter(
+		createSource(),
+		{},
+		() => 8 * DAY * 1000
+	);
+	const getBars = (from: number, to: number) =>
+		adapter.getBars(SYMBOL, MINUTE, {
+			from,
+			to,
+			firstDataRequest: false,
+		});
+
+	it("takes each period from the contract held then", async () => {
+		const { bars } = await getBars(8 * DAY, 10 * DAY);
+		expect(bars[0].time).toBe(8 * DAY);
+		expect(bars[bars.length - 1].time).toBe(10 * DAY);
+	});
+
+	it("reports nothing older before the first contract was listed", async () => {
+		await expect(getBars(DAY, DAY + 43200)).resolves.toEqual({
+			bars: [],
+			nextTime: null,
+		});
+	});
+
+	it("keeps scrolling back through gaps after the listing", async () => {
+		const source = createSource();
+		source.getBars = async () => ({ bars: [] });
+		const gappy = createContinuousAdapter(source, {}, () => 8 * DAY * 1000);
+		const result = await gappy.getBars(SYMBOL, MINUTE, {
+			from: 3 * DAY,
+			to: 4 * DAY,
+			firstDataRequest: false,
+		});
+		expect(result).toEqual({ bars: [] });
+	});
+});
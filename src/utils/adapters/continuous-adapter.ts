@@ -0,0 +1,382 @@
+import { SymbolInfo, PeriodParams } from "@gocharting/chart-sdk";
+import {
+	adjustContinuousBar,
+	createContinuousSymbolInfo,
+	getContinuousSegments,
+	getContinuousSymbol,
+	getContractAt,
+	parseContinuousSymbol,
+	ContinuousContract,
+	ContinuousOptions,
+	ContinuousSegment,
+	ContinuousSymbol,
+	DEFAULT_CONTINUOUS_OPTIONS,
+} from "../continuous-futures";
+import { RawBar, ResolutionInfo, TradeMessage } from "../datafeed-types";
+import { createResolution } from "../resolution";
+import { getTradingSession, TradingSession } from "../session";
+import {
+	AdapterBarsResult,
+	DatedContract,
+	ExchangeAdapter,
+} from "./exchange-adapter";
+
+/** Roll schedules are worked out again after this long */
+const CONTINUOUS_SCHEDULE_MAX_AGE_MS = 10 * 60 * 1000;
+/** How often a stream checks whether its series rolled */
+const CONTINUOUS_ROLL_CHECK_MS = 60 * 1000;
+/** Life assumed for contracts whose listing time is unknown */
+const CONTINUOUS_CONTRACT_LIFE_MS = 365 * 86400 * 1000;
+
+type PagedPeriodParams = PeriodParams & { countBack?: number };
+
+/**
+ * Unix seconds a contract was listed, estimated when the venue does not say
+ */
+const getListingTime = (contract: DatedContract): number =>
+	Math.floor(
+		(contract.launchTime ?? contract.expiry - CONTINUOUS_CONTRACT_LIFE_MS) /
+			1000
+	);
+
+/**
+ * Where a continuous adapter gets its contracts from, usually the datafeed
+ * it belongs to
+ */
+export type ContinuousSource = {
+	/** Symbol info of a contract, or of its #OI series */
+	resolveSymbol: (symbolName: string) => Promise<SymbolInfo>;
+	/** Contract bars at a resolution, built the way a chart gets them */
+	getBars: (
+		symbolInfo: SymbolInfo,
+		resolutionInfo: ResolutionInfo,
+		periodParams: PagedPeriodParams,
+		session: TradingSession
+	) => Promise<AdapterBarsResult>;
+	/** Dated contracts of a root, from the venue of the continuous symbol */
+	getDatedContracts: (
+		symbolInfo: SymbolInfo,
+		root: string
+	) => Promise<DatedContract[]>;
+	/** Streams a contract's live trades; returns an unsubscribe function */
+	subscribeTrades: (
+		symbolInfo: SymbolInfo,
+		onTrade: (trade: TradeMessage) => void
+	) => () => void;
+	/** Asks charts of a symbol to reload, as a roll adjusts its history */
+	resetSymbol: (symbolName: string) => void;
+};
+
+/**
+ * Adapter stitching continuous futures from dated contracts
+ */
+export type ContinuousAdapter = ExchangeAdapter & {
+	/** Symbol info of a continuous symbol; throws for other symbol names */
+	resolveSymbol: (symbolName: string) => Promise<SymbolInfo>;
+	getOptions: () => ContinuousOptions;
+	/** Changes the roll rule or adjustment; charts need to reload */
+	setOptions: (options: Partial<ContinuousOptions>) => void;
+};
+
+/**
+ * Adapter for continuous futures such as BYBIT:FUTURE:BTC1!, the front
+ * contract of root BTC, or BTC2!, the one after it
+ *
+ * The venue of the symbol's prefix lists the dated contracts, and the roll
+ * rule picks which one each period is taken from (see
+ * getContinuousSegments). Each bar comes from the contract held at its
+ * start, back-adjusted as configured. Live trades stream from the contract
+ * held now; when the series rolls the stream moves to the next contract
+ * and charts reload their adjusted history.
+ *
+ * @param now - Clock deciding which contract is held, e.g. a skew-corrected one
+ */
+export const createContinuousAdapter = (
+	source: ContinuousSource,
+	options: Partial<ContinuousOptions> = {},
+	now: () => number = Date.now
+): ContinuousAdapter => {
+	const checkOptions = (checked: ContinuousOptions) => {
+		if (!(checked.rollDays >= 0) || !Number.isFinite(checked.rollDays)) {
+			throw new Error(`Invalid roll days: ${checked.rollDays}`);
+		}
+	};
+
+	let rollOptions: ContinuousOptions = {
+		...DEFAULT_CONTINUOUS_OPTIONS,
+		...options,
+	};
+	checkOptions(rollOptions);
+	const schedules = new Map<
+		string,
+		{ createdAt: number; request: Promise<ContinuousSegment[]> }
+	>();
+
+	const getContinuous = (symbolInfo: SymbolInfo): ContinuousSymbol => {
+		const continuous = getContinuousSymbol(symbolInfo);
+		if (!continuous) {
+			throw new Error(`Not a continuous symbol: ${symbolInfo.full_name}`);
+		}
+		return continuous;
+	};
+
+	// Contracts of a continuous symbol in the order they expire
+	const getContracts = async (
+		symbolName: string,
+		continuous: ContinuousSymbol
+	): Promise<DatedContract[]> => {
+		const contracts = await source.getDatedContracts(
+			{ full_name: symbolName } as SymbolInfo,
+			continuous.root
+		);
+		if (!contracts.length) {
+			throw new Error(`No dated contracts listed for ${symbolName}`);
+		}
+		return [...contracts].sort((a, b) => a.expiry - b.expiry);
+	};
+
+	// Daily bars of a contract from its listing, as far as the roll rule and
+	// adjustment need them
+	const loadContract = async (
+		contract: DatedContract,
+		scheduleOptions: ContinuousOptions
+	): Promise<ContinuousContract> => {
+		const from = getListingTime(contract);
+		const to = Math.floor(Math.min(contract.expiry, now()) / 1000);
+		const getDailyBars = async (symbolName: string): Promise<RawBar[]> => {
+			if (to <= from) return [];
+			const symbolInfo = await source.resolveSymbol(symbolName);
+			const { bars } = await source.getBars(
+				symbolInfo,
+				createResolution(1, "days"),
+				{ from, to, firstDataRequest: false } as PeriodParams,
+				getTradingSession(symbolInfo)
+			);
+			return bars;
+		};
+		const { roll, adjustment } = scheduleOptions;
+		return {
+			contract,
+			dailyBars:
+				roll === "volume" || adjustment !== "none"
+					? await getDailyBars(contract.fullName)
+					: [],
+			openInterest:
+				roll === "open-interest"
+					? await getDailyBars(`${contract.fullName}#OI`)
+					: undefined,
+		};
+	};
+
+	// Segments of a continuous symbol. Working them out loads daily bars of
+	// every contract, so they are kept for a while.
+	const getSegments = (
+		symbolInfo: SymbolInfo
+	): Promise<ContinuousSegment[]> => {
+		const symbolName = symbolInfo.full_name;
+		const cached = schedules.get(symbolName);
+		if (
+			cached &&
+			now() - cached.createdAt < CONTINUOUS_SCHEDULE_MAX_AGE_MS
+		) {
+			return cached.request;
+		}
+		const continuous = getContinuous(symbolInfo);
+		const scheduleOptions = rollOptions;
+		const request = getContracts(symbolName, continuous)
+			.then((contracts) =>
+				Promise.all(
+					contracts.map((contract) =>
+						loadContract(contract, scheduleOptions)
+					)
+				)
+			)
+			.then((contracts) =>
+				getContinuousSegments(
+					contracts,
+					continuous.rank,
+					scheduleOptions
+				)
+			);
+		const schedule = { createdAt: now(), request };
+		schedules.set(symbolName, schedule);
+		// Work it out again next time rather than keeping a failure
+		request.catch(() => {
+			if (schedules.get(symbolName) === schedule) {
+				schedules.delete(symbolName);
+			}
+		});
+		return request;
+	};
+
+	return {
+		name: "continuous",
+		// Picked by symbol name rather than by exchange prefix
+		exchanges: [],
+		// Contract bars are cached already
+		cache: false,
+
+		// Every interval is fetched from the contracts as it is
+		getNativeIntervals: () => undefined,
+
+		mapInterval: (resolutionInfo: ResolutionInfo): string =>
+			resolutionInfo.label,
+
+		async getBars(
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo,
+			periodParams: PagedPeriodParams
+		): Promise<AdapterBarsResult> {
+			const segments = await getSegments(symbolInfo);
+			const { from, to } = periodParams;
+			const fromTime =
+				typeof from === "number"
+					? from
+					: Math.floor((from as Date).getTime() / 1000);
+			const toTime =
+				typeof to === "number"
+					? to
+					: Math.floor((to as Date).getTime() / 1000);
+
+			const pieces = await Promise.all(
+				segments
+					.filter(
+						(segment) =>
+							segment.from <= toTime && segment.to > fromTime
+					)
+					.map(async (segment) => {
+						const contractInfo = await source.resolveSymbol(
+							segment.contract.fullName
+						);
+						const { bars } = await source.getBars(
+							contractInfo,
+							resolutionInfo,
+							{
+								...periodParams,
+								from: Math.max(fromTime, segment.from),
+								to: Math.min(toTime, segment.to - 1),
+								firstDataRequest: false,
+								countBack: undefined,
+							},
+							getTradingSession(contractInfo)
+						);
+						return bars
+							.filter(
+								(bar) =>
+									bar.time >= segment.from &&
+									bar.time < segment.to
+							)
+							.map((bar) => adjustContinuousBar(bar, segment));
+					})
+			);
+			const bars = pieces.flat();
+			// Nothing older once the period reaches back past the listing of
+			// the first contract; the first segment itself starts at 0
+			const listedAt = Math.min(
+				...segments.map((segment) => getListingTime(segment.contract))
+			);
+			return bars.length || fromTime > listedAt
+				? { bars }
+				: { bars, nextTime: null };
+		},
+
+		async resolveSymbol(symbolName: string): Promise<SymbolInfo> {
+			const continuous = parseContinuousSymbol(symbolName);
+			if (!continuous) {
+				throw new Error(`Not a continuous symbol: ${symbolName}`);
+			}
+			const contract = getContractAt(
+				await getContracts(symbolName, continuous),
+				continuous.rank,
+				now()
+			);
+			if (!contract) {
+				throw new Error(
+					`Fewer than ${continuous.rank} contracts of ${continuous.root} are listed`
+				);
+			}
+			return createContinuousSymbolInfo(
+				await source.resolveSymbol(contract.fullName),
+				symbolName,
+				continuous
+			);
+		},
+
+		getChannel(symbolInfo: SymbolInfo): string {
+			return `continuous.${symbolInfo.full_name}`;
+		},
+
+		getSocketUrl: () => null,
+
+		startSyntheticStream(
+			symbolInfo: SymbolInfo,
+			emit: (trades: TradeMessage[]) => void
+		): () => void {
+			const symbolName = symbolInfo.full_name;
+			const ticker = symbolInfo.ticker || symbolInfo.symbol;
+			let held: ContinuousSegment | null = null;
+			let unsubscribe = () => {};
+			let stopped = false;
+
+			// Subscribe to the contract held now, moving on when it changes
+			const follow = async () => {
+				const segments = await getSegments(symbolInfo);
+				const nowSeconds = now() / 1000;
+				const segment = segments.find(
+					(candidate) =>
+						candidate.from <= nowSeconds &&
+						nowSeconds < candidate.to
+				);
+				if (
+					!segment ||
+					segment.contract.fullName === held?.contract.fullName
+				) {
+					return;
+				}
+				const contractInfo = await source.resolveSymbol(
+					segment.contract.fullName
+				);
+				if (stopped) return;
+				const rolled = held !== null;
+				unsubscribe();
+				held = segment;
+				unsubscribe = source.subscribeTrades(contractInfo, (trade) =>
+					emit([
+						{
+							...trade,
+							productId: symbolName,
+							symbol: ticker,
+							price:
+								trade.price * segment.factor + segment.offset,
+						},
+					])
+				);
+				// History before the roll is adjusted to the new contract
+				if (rolled) source.resetSymbol(symbolName);
+			};
+
+			// Failures are retried on the next check; the datafeed reports
+			// the channel stale meanwhile
+			follow().catch(() => {});
+			const interval = setInterval(
+				() => follow().catch(() => {}),
+				CONTINUOUS_ROLL_CHECK_MS
+			);
+
+			return () => {
+				stopped = true;
+				clearInterval(interval);
+				unsubscribe();
+			};
+		},
+
+		getOptions: () => rollOptions,
+
+		setOptions(nextOptions: Partial<ContinuousOptions>) {
+			const updated = { ...rollOptions, ...nextOptions };
+			checkOptions(updated);
+			rollOptions = updated;
+			schedules.clear();
+		},
+	};
+};
@@ -0,0 +1,74 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { createDemoAdapter } from "./demo-adapter";
+import { TradeMessage } from "../datafeed-types";
+
+const symbolInfo = {
+	symbol: "BTCUSDT",
+	full_name: "DEMO:FUTURE:BTCUSDT",
+	session: "24x7",
+	timezone: "Etc/UTC",
+	tick_size: 0.5,
+} as SymbolInfo;
+
+describe("createDemoAdapter getRecentTrades", () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("ends generated history where the live tape starts, at its price", async () => {
+		jest.useFakeTimers();
+		let clock = Date.UTC(2024, 0, 8, 12, 0, 1);
+		const adapter = createDemoAdapter({}, () => clock);
+		const live: TradeMessage[] = [];
+		const stop = adapter.startSyntheticStream?.(
+			symbolInfo,
+			(trades) => live.push(...trades),
+			{ price: 42000, time: clock / 1000 - 60 }
+		) as () => void;
+		const tapeStart = clock;
+
+		// Time passes before the panel asks for history
+		for (let tick = 0; tick < 5; tick++) {
+			clock += 2000;
+			jest.advanceTimersByTime(2000);
+		}
+		const history = (await adapter.getRecentTrades?.(
+			symbolInfo,
+			50
+		)) as TradeMessage[];
+		stop();
+
+		expect(history).toHaveLength(50);
+		const newest = history[history.length - 1];
+		expect(newest.timeStamp.getTime()).toBeLessThan(tapeStart);
+		expect(newest.price).toBe(42000);
+		expect(live).toHaveLength(5);
+		expect(live[0].timeStamp.getTime()).toBeGreaterThan(
+			newest.timeStamp.getTime()
+		);
+		// The tape's first trade is one walk step from where history ends
+		expect(Math.abs(live[0].price - 42000)).toBeLessThanOrEqual(10 * 0.5);
+		expect(
+			history.every(
+				(trade) =>
+					!live.some(({ tradeID }) => tradeID === trade.tradeID)
+			)
+		).toBe(true);
+	});
+
+	it("walks back from now without a live tape", async () => {
+		const now = Date.UTC(2024, 0, 8, 12, 0, 1);
+		const adapter = createDemoAdapter({}, () => now);
+		const history = (await adapter.getRecentTrades?.(
+			symbolInfo,
+			3
+		)) as TradeMessage[];
+		// One trade per 2 seconds up to now
+		const last = Date.UTC(2024, 0, 8, 12, 0, 0);
+		expect(history.map((trade) => trade.timeStamp.getTime())).toEqual([
+			last - 4000,
+			last - 2000,
+			last,
+		]);
+	});
+});
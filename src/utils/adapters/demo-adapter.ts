@@ -0,0 +1,353 @@
+import { SymbolInfo, PeriodParams } from "@gocharting/chart-sdk";
+import { DepthUpdate, ResolutionInfo, TradeMessage } from "../datafeed-types";
+import {
+	createDemoGenerator,
+	DemoGenerator,
+	DemoGeneratorOptions,
+} from "../demo-generator";
+import { createResolution } from "../resolution";
+import { getTradingSession, isMarketOpen } from "../session";
+import {
+	AdapterBarsResult,
+	ExchangeAdapter,
+	SyntheticStreamStart,
+} from "./exchange-adapter";
+
+/** Interval between generated trades */
+const DEMO_TRADE_INTERVAL_MS = 2000;
+/** Interval between generated order book updates */
+const DEMO_DEPTH_INTERVAL_MS = 500;
+/** Step used to walk back through closed sessions when generating trades */
+const DEMO_CLOSED_STEP_MS = 60000;
+/** How far back generated trade history looks for an open session */
+const DEMO_TRADE_LOOKBACK_MS = 7 * 86400 * 1000;
+/** Chance per update that a resting level changes size */
+const DEMO_DEPTH_CHANGE_PROBABILITY = 0.1;
+
+/**
+ * Intervals generated directly. Others are resampled from these, so
+ * session-aligned intervals such as 90 minutes match live bars.
+ */
+const DEMO_INTERVALS = ["1S", "1", "5", "15", "30", "60", "D", "W", "M"];
+
+/**
+ * Adapter serving generated data for exchanges without a real feed
+ *
+ * Used as the datafeed's fallback for any exchange prefix no other adapter
+ * claims. A real adapter's failures are reported rather than replaced with
+ * generated data. Data is seeded per symbol, so the same symbol always produces the same history.
+ * Generated order books sit around the latest generated trade.
+ *
+ * @param now - Clock stamping generated trades, e.g. a skew-corrected one
+ */
+export const createDemoAdapter = (
+	options: DemoGeneratorOptions = {},
+	now: () => number = Date.now
+): ExchangeAdapter => {
+	const generators = new Map<string, DemoGenerator>();
+	// Latest generated trade price per symbol, for the order book
+	const lastPrices = new Map<string, number>();
+	// Where each running live tape starts: time in ms and the price it
+	// walks on from, so generated history leads into it
+	const tapeStarts = new Map<string, { time: number; price: number }>();
+
+	const getKey = (symbolInfo: SymbolInfo): string =>
+		symbolInfo?.full_name || symbolInfo?.symbol || "DEMO";
+
+	const getGenerator = (symbolInfo: SymbolInfo): DemoGenerator => {
+		const key = getKey(symbolInfo);
+		let generator = generators.get(key);
+		if (!generator) {
+			generator = createDemoGenerator(symbolInfo || {}, options);
+			generators.set(key, generator);
+		}
+		return generator;
+	};
+
+	const createTrade = (
+		symbolInfo: SymbolInfo,
+		tradeID: string,
+		tradeTime: number,
+		price: number,
+		size: number,
+		side: string
+	): TradeMessage => {
+		const symbol = symbolInfo?.symbol || "DEMO";
+		return {
+			type: "trade",
+			productId: `DEMO:FUTURE:${symbol}`,
+			symbol: symbol,
+			exchange: symbolInfo?.exchange || "DEMO",
+			segment: "FUTURE",
+			timeStamp: new Date(tradeTime),
+			tradeID,
+			price,
+			quantity: size,
+			amount: price * size,
+			side,
+		};
+	};
+
+	// Latest trade price, else the close of the latest generated daily bar
+	const getCurrentPrice = (symbolInfo: SymbolInfo): number => {
+		const lastPrice = lastPrices.get(getKey(symbolInfo));
+		if (lastPrice !== undefined) return lastPrice;
+		const generator = getGenerator(symbolInfo);
+		const nowSeconds = Math.floor(now() / 1000);
+		const bars = generator.generateBars(
+			nowSeconds - 7 * 86400,
+			nowSeconds,
+			createResolution(1, "days")
+		);
+		return bars.length ? bars[bars.length - 1].close : generator.startPrice;
+	};
+
+	return {
+		name: "demo",
+		exchanges: ["DEMO"],
+		// Generated bars depend on the datafeed's demo options and are
+		// cheaper to rebuild than to store
+		cache: false,
+
+		nativeIntervals: DEMO_INTERVALS,
+
+		mapInterval: (resolutionInfo: ResolutionInfo): string =>
+			resolutionInfo.label,
+
+		async getBars(
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo,
+			periodParams: PeriodParams
+		): Promise<AdapterBarsResult> {
+			const { from, to } = periodParams;
+			// Convert timestamps to seconds if needed
+			const fromTime =
+				typeof from === "number"
+					? from
+					: (from as Date).getTime() / 1000;
+			const toTime =
+				typeof to === "number" ? to : (to as Date).getTime() / 1000;
+			return {
+				bars: getGenerator(symbolInfo).generateBars(
+					fromTime,
+					toTime,
+					resolutionInfo
+				),
+			};
+		},
+
+		getChannel(symbolInfo: SymbolInfo): string {
+			return `demoTrade.${symbolInfo.symbol || symbolInfo.ticker || ""}`;
+		},
+
+		getSocketUrl: () => null,
+
+		startSyntheticStream(
+			symbolInfo: SymbolInfo,
+			emit: (trades: TradeMessage[]) => void,
+			start?: SyntheticStreamStart | null
+		): () => void {
+			const generator = getGenerator(symbolInfo);
+			const random = generator.createRandom("stream");
+			const tickSize: number = symbolInfo?.tick_size || 0.01;
+			// Continue from the last bar on the chart so there is no gap
+			let lastPrice = start ? start.price : generator.startPrice;
+			const startMs = start ? start.time * 1000 : 0;
+			let tradeCount = 0;
+			const symbol = symbolInfo?.symbol || "DEMO";
+			const session = getTradingSession(symbolInfo || {});
+			const key = getKey(symbolInfo);
+			const tapeStart = {
+				time: Math.max(now(), startMs),
+				price: lastPrice,
+			};
+			tapeStarts.set(key, tapeStart);
+
+			const interval = setInterval(() => {
+				const tradeTime = Math.max(now(), startMs);
+				// The market is quiet outside its sessions
+				if (!isMarketOpen(tradeTime / 1000, session)) return;
+
+				// Random walk of a few ticks per trade, never below one tick
+				const change = Math.round((random() - 0.5) * 20) * tickSize;
+				lastPrice = Math.max(
+					tickSize,
+					generator.roundPrice(lastPrice + change)
+				);
+				tradeCount += 1;
+				lastPrices.set(key, lastPrice);
+
+				const size = Number((random() * 10 + 0.1).toFixed(3));
+				emit([
+					createTrade(
+						symbolInfo,
+						`${symbol}-${tradeCount}`,
+						tradeTime,
+						lastPrice,
+						size,
+						random() > 0.5 ? "BUY" : "SELL"
+					),
+				]);
+			}, DEMO_TRADE_INTERVAL_MS);
+
+			return () => {
+				clearInterval(interval);
+				if (tapeStarts.get(key) === tapeStart) {
+					tapeStarts.delete(key);
+				}
+			};
+		},
+
+		// Trades walking back from the current price, one per trade interval
+		// of the market's open sessions. With a live tape running they walk
+		// back from where it starts instead, so the two join without
+		// overlapping or jumping. Ids never collide with streamed ones.
+		async getRecentTrades(
+			symbolInfo: SymbolInfo,
+			limit: number
+		): Promise<TradeMessage[]> {
+			const generator = getGenerator(symbolInfo);
+			const random = generator.createRandom("history");
+			const tickSize: number = symbolInfo?.tick_size || 0.01;
+			const symbol = symbolInfo?.symbol || "DEMO";
+			const session = getTradingSession(symbolInfo || {});
+
+			const trades: TradeMessage[] = [];
+			const tapeStart = tapeStarts.get(getKey(symbolInfo));
+			let price = tapeStart
+				? tapeStart.price
+				: getCurrentPrice(symbolInfo);
+			// History ends before the tape's first trade, else now
+			const end = tapeStart ? tapeStart.time - 1 : now();
+			let tradeTime =
+				Math.floor(end / DEMO_TRADE_INTERVAL_MS) *
+				DEMO_TRADE_INTERVAL_MS;
+			const earliest = tradeTime - DEMO_TRADE_LOOKBACK_MS;
+			while (trades.length < limit && tradeTime > earliest) {
+				if (!isMarketOpen(tradeTime / 1000, session)) {
+					// Sessions close on whole minutes
+					tradeTime =
+						Math.floor(tradeTime / DEMO_CLOSED_STEP_MS) *
+							DEMO_CLOSED_STEP_MS -
+						DEMO_TRADE_INTERVAL_MS;
+					continue;
+				}
+				const size = Number((random() * 10 + 0.1).toFixed(3));
+				trades.push(
+					createTrade(
+						symbolInfo,
+						`${symbol}-h${tradeTime}`,
+						tradeTime,
+						price,
+						size,
+						random() > 0.5 ? "BUY" : "SELL"
+					)
+				);
+				// Undo a random walk step of a few ticks
+				const change = Math.round((random() - 0.5) * 20) * tickSize;
+				price = Math.max(
+					tickSize,
+					generator.roundPrice(price - change)
+				);
+				tradeTime -= DEMO_TRADE_INTERVAL_MS;
+			}
+			return trades.reverse();
+		},
+
+		getDepthChannel(symbolInfo: SymbolInfo, levels: number): string {
+			const symbol = symbolInfo.symbol || symbolInfo.ticker || "";
+			return `demoDepth.${levels}.${symbol}`;
+		},
+
+		startSyntheticDepth(
+			symbolInfo: SymbolInfo,
+			levels: number,
+			emit: (update: DepthUpdate) => void
+		): () => void {
+			const generator = getGenerator(symbolInfo);
+			const random = generator.createRandom("depth");
+			const tickSize: number = symbolInfo?.tick_size || 0.01;
+			const session = getTradingSession(symbolInfo || {});
+			let bids = new Map<number, number>();
+			let asks = new Map<number, number>();
+			let sequence = 0;
+
+			// Ladder of levels from the touch outwards. Most resting orders
+			// stay put between updates; liquidity thickens away from the touch.
+			const buildSide = (
+				previous: Map<number, number>,
+				best: number,
+				direction: number
+			): Map<number, number> => {
+				const side = new Map<number, number>();
+				for (let level = 0; level < levels; level++) {
+					const price = generator.roundPrice(
+						best + direction * level * tickSize
+					);
+					if (price < tickSize) break;
+					const previousSize = previous.get(price);
+					side.set(
+						price,
+						previousSize !== undefined &&
+							random() > DEMO_DEPTH_CHANGE_PROBABILITY
+							? previousSize
+							: Number(
+									(
+										(random() * 5 + 0.1) *
+										(1 + level * 0.2)
+									).toFixed(3)
+								)
+					);
+				}
+				return side;
+			};
+
+			// Levels that differ between two books; removed ones get size 0
+			const diffSide = (
+				previous: Map<number, number>,
+				next: Map<number, number>
+			): Array<[number, number]> => [
+				...Array.from(next.entries()).filter(
+					([price, size]) => previous.get(price) !== size
+				),
+				...Array.from(previous.keys())
+					.filter((price) => !next.has(price))
+					.map((price): [number, number] => [price, 0]),
+			];
+
+			const update = (type: DepthUpdate["type"]) => {
+				const bestBid = Math.max(
+					tickSize,
+					generator.roundPrice(getCurrentPrice(symbolInfo))
+				);
+				const nextBids = buildSide(bids, bestBid, -1);
+				const nextAsks = buildSide(asks, bestBid + tickSize, 1);
+				sequence += 1;
+				emit({
+					type,
+					bids:
+						type === "snapshot"
+							? Array.from(nextBids.entries())
+							: diffSide(bids, nextBids),
+					asks:
+						type === "snapshot"
+							? Array.from(nextAsks.entries())
+							: diffSide(asks, nextAsks),
+					sequence,
+					time: now(),
+				});
+				bids = nextBids;
+				asks = nextAsks;
+			};
+
+			update("snapshot");
+			const interval = setInterval(() => {
+				// Resting orders do not move while the market is closed
+				if (!isMarketOpen(now() / 1000, session)) return;
+				update("delta");
+			}, DEMO_DEPTH_INTERVAL_MS);
+
+			return () => clearInterval(interval);
+		},
+	};
+};
@@ -0,0 +1,100 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import {
+	ExchangeAdapter,
+	findAdapter,
+	getExchangePrefix,
+} from "./exchange-adapter";
+
+const adapter = (name: string, exchanges: string[]): ExchangeAdapter =>
+	({ name, exchanges }) as ExchangeAdapter;
+
+const BYBIT = adapter("bybit", ["BYBIT"]);
+const BINANCE = adapter("binance", ["BINANCE"]);
+const UDF = adapter("udf", ["*"]);
+const DEMO = adapter("demo", ["DEMO"]);
+
+describe("getExchangePrefix", () => {
+	it("prefers the exchange field", () => {
+		expect(
+			getExchangePrefix({
+				exchange: "Bybit",
+				full_name: "BINANCE:SPOT:BTCUSDT",
+			} as SymbolInfo)
+		).toBe("BYBIT");
+	});
+
+	it("falls back to the first part of the full name", () => {
+		expect(
+			getExchangePrefix({
+				full_name: "binance:SPOT:BTCUSDT",
+			} as SymbolInfo)
+		).toBe("BINANCE");
+	});
+
+	it("is empty without either", () => {
+		expect(getExchangePrefix({} as SymbolInfo)).toBe("");
+	});
+});
+
+describe("findAdapter", () => {
+	it("routes by the exchange prefix, ignoring case", () => {
+		const adapters = [BYBIT, BINANCE];
+		expect(
+			findAdapter(
+				adapters,
+				{ full_name: "binance:SPOT:BTCUSDT" } as SymbolInfo,
+				DEMO
+			)
+		).toBe(BINANCE);
+		expect(
+			findAdapter(
+				adapters,
+				{ exchange: "bybit", full_name: "BTCUSDT" } as SymbolInfo,
+				DEMO
+			)
+		).toBe(BYBIT);
+	});
+
+	it("takes the first adapter that matches", () => {
+		const custom = adapter("custom", ["BYBIT"]);
+		expect(
+			findAdapter(
+				[custom, BYBIT],
+				{ full_name: "BYBIT:SPOT:BTCUSDT" } as SymbolInfo,
+				DEMO
+			)
+		).toBe(custom);
+	});
+
+	it("lets a wildcard adapter claim every prefix after it", () => {
+		const adapters = [BYBIT, UDF, BINANCE];
+		expect(
+			findAdapter(
+				adapters,
+				{ full_name: "BYBIT:SPOT:BTCUSDT" } as SymbolInfo,
+				DEMO
+			)
+		).toBe(BYBIT);
+		expect(
+			findAdapter(
+				adapters,
+				{ full_name: "BINANCE:SPOT:BTCUSDT" } as SymbolInfo,
+				DEMO
+			)
+		).toBe(UDF);
+		expect(
+			findAdapter(adapters, { full_name: "AAPL" } as SymbolInfo, DEMO)
+		).toBe(UDF);
+	});
+
+	it("falls back when no adapter claims the prefix", () => {
+		expect(
+			findAdapter(
+				[BYBIT, BINANCE],
+				{ full_name: "NASDAQ:AAPL" } as SymbolInfo,
+				DEMO
+			)
+		).toBe(DEMO);
+		expect(findAdapter([], {} as SymbolInfo, DEMO)).toBe(DEMO);
+	});
+});
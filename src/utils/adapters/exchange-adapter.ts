@@ -0,0 +1,271 @@
+import { SymbolInfo, PeriodParams, SearchResult } from "@gocharting/chart-sdk";
+import {
+	DepthUpdate,
+	RawBar,
+	ResolutionInfo,
+	TradeMessage,
+} from "../datafeed-types";
+
+/**
+ * Trades parsed from one socket message, grouped by the channel they arrived
+ * on. Depth channels carry an order book update instead.
+ */
+export type ParsedChannelMessage = {
+	channel: string;
+	trades: TradeMessage[];
+	depth?: DepthUpdate;
+	/**
+	 * Venue's own state of the channel's current bar at an interval (SDK
+	 * notation), e.g. from a kline stream. Bars charted at that interval
+	 * follow it, picking up trades the trade stream missed.
+	 */
+	kline?: { interval: string; bar: RawBar };
+};
+
+/**
+ * History returned by an adapter
+ */
+export type AdapterBarsResult = {
+	/** Bars oldest first, with time in unix seconds */
+	bars: RawBar[];
+	/**
+	 * When bars is empty: time (unix seconds) of the closest older bar, or
+	 * null when the venue has nothing older. Undefined when unknown.
+	 * When bars stop short of the period's start because the adapter
+	 * stopped paging: time the period's older bars continue from.
+	 */
+	nextTime?: number | null;
+};
+
+/**
+ * Contract details of a symbol as listed by its venue
+ */
+export type InstrumentInfo = {
+	tickSize: number;
+	/** Step order quantities must be a multiple of */
+	qtyStep: number;
+	minOrderQty: number;
+	maxOrderQty: number;
+	/** Underlying units per contract */
+	contractSize: number;
+	quoteCurrency: string;
+	/** Listing time in unix milliseconds, when known */
+	launchTime: number | null;
+	/** Expiry in unix milliseconds; null for spot and perpetuals */
+	deliveryTime: number | null;
+};
+
+/**
+ * Dated futures contract listed by a venue
+ */
+export type DatedContract = {
+	/** Full symbol name, e.g. BYBIT:FUTURE:BTC-27DEC24 */
+	fullName: string;
+	/** Expiry in unix milliseconds */
+	expiry: number;
+	/** Listing time in unix milliseconds, when known */
+	launchTime: number | null;
+};
+
+/**
+ * Application-level keep-alive for an adapter's socket
+ */
+export type AdapterHeartbeat = {
+	message: () => string;
+	intervalMs: number;
+	timeoutMs: number;
+};
+
+/**
+ * Where a synthetic stream should pick up: the last bar the datafeed served
+ */
+export type SyntheticStreamStart = {
+	price: number;
+	/** Bar start time in unix seconds */
+	time: number;
+};
+
+/**
+ * Contract every venue implements to plug into createChartDatafeed
+ *
+ * The datafeed owns sockets, subscriptions, bar aggregation and staleness
+ * tracking; an adapter only knows how to talk to its venue.
+ */
+export type ExchangeAdapter = {
+	/** Adapter name used in logs */
+	name: string;
+	/**
+	 * Exchange prefixes routed to this adapter, e.g. ["BYBIT"], or ["*"]
+	 * for every prefix
+	 */
+	exchanges: string[];
+
+	/**
+	 * Whether the datafeed may cache this adapter's bars; defaults to true.
+	 * False for adapters already holding their bars in memory.
+	 */
+	cache?: boolean;
+	/**
+	 * Keeps this adapter's cached bars apart from another source's bars of
+	 * the same symbol names, e.g. "udf:https://data.example.com/udf";
+	 * defaults to name
+	 */
+	cacheScope?: string;
+
+	/**
+	 * Intervals the venue serves directly, in SDK notation ("1", "60", "D").
+	 * The datafeed builds other intervals from the longest native one that
+	 * fits them. Omit when every interval is native.
+	 */
+	nativeIntervals?: string[];
+
+	/**
+	 * Native intervals of a symbol, for venues whose series differ in the
+	 * intervals they serve. Overrides nativeIntervals; undefined when every
+	 * interval is native.
+	 */
+	getNativeIntervals?: (symbolInfo: SymbolInfo) => string[] | undefined;
+
+	/** Venue-specific interval code for a resolution; throws when unsupported */
+	mapInterval: (resolutionInfo: ResolutionInfo) => string;
+
+	/** Historical bars for the requested period */
+	getBars: (
+		symbolInfo: SymbolInfo,
+		resolutionInfo: ResolutionInfo,
+		periodParams: PeriodParams
+	) => Promise<AdapterBarsResult>;
+
+	/** Trade channel name for a symbol */
+	getChannel: (symbolInfo: SymbolInfo) => string;
+
+	/**
+	 * WebSocket URL serving the symbol. Symbols sharing a URL share one
+	 * socket. Null when the adapter streams through startSyntheticStream.
+	 */
+	getSocketUrl: (symbolInfo: SymbolInfo) => string | null;
+
+	/**
+	 * Wire-level topic carrying a channel. Defaults to the channel itself;
+	 * differs when one topic multiplexes several symbols.
+	 */
+	getTopic?: (channel: string) => string;
+
+	/** Subscribe request for the given topics */
+	formatSubscribe?: (topics: string[]) => string;
+
+	/** Unsubscribe request for the given topics */
+	formatUnsubscribe?: (topics: string[]) => string;
+
+	/**
+	 * Order book channel for a symbol, at the venue's smallest book depth
+	 * covering levels. Its updates arrive through parseMessage.
+	 */
+	getDepthChannel?: (symbolInfo: SymbolInfo, levels: number) => string;
+
+	/** Trades contained in a socket message, or null for control messages */
+	parseMessage?: (
+		data: string,
+		socketUrl: string
+	) => ParsedChannelMessage[] | null;
+
+	heartbeat?: AdapterHeartbeat;
+
+	/**
+	 * Latest public trades of a symbol, oldest first, with the same trade
+	 * ids as the live stream. Venues may return fewer than limit.
+	 */
+	getRecentTrades?: (
+		symbolInfo: SymbolInfo,
+		limit: number
+	) => Promise<TradeMessage[]>;
+
+	/**
+	 * Venue's contract details for a symbol, or null when it does not list
+	 * the symbol. Throws when the venue cannot be reached.
+	 */
+	getInstrumentInfo?: (
+		symbolInfo: SymbolInfo
+	) => Promise<InstrumentInfo | null>;
+
+	/**
+	 * Dated futures of a contract root listed in the symbol's segment, e.g.
+	 * BTC-27DEC24 and BTC-28MAR25 for root BTC, in any order. Venues may
+	 * leave out expired contracts.
+	 */
+	getDatedContracts?: (
+		symbolInfo: SymbolInfo,
+		root: string
+	) => Promise<DatedContract[]>;
+
+	/**
+	 * Symbol info from the venue's own symbol service, for venues that
+	 * list symbols the GoCharting API does not know. Throws for unknown
+	 * symbols.
+	 */
+	resolveSymbol?: (symbolName: string) => Promise<SymbolInfo>;
+
+	/**
+	 * Symbols matching a search from the venue's own symbol service, listed
+	 * ahead of the GoCharting API's. The API is not searched when an
+	 * adapter claims every prefix.
+	 */
+	searchSymbols?: (
+		userInput: string,
+		exchange: string,
+		symbolType: string
+	) => Promise<SearchResult[]>;
+
+	/** Venue's current time in unix milliseconds */
+	getServerTime?: () => Promise<number>;
+
+	/**
+	 * Streams generated or polled trades for adapters without a socket,
+	 * continuing from start when the datafeed has served history for the
+	 * symbol. Returns a function that stops the stream.
+	 */
+	startSyntheticStream?: (
+		symbolInfo: SymbolInfo,
+		emit: (trades: TradeMessage[]) => void,
+		start?: SyntheticStreamStart | null
+	) => () => void;
+
+	/**
+	 * Streams a generated order book for adapters without a socket: a
+	 * snapshot, then deltas. Returns a function that stops the stream.
+	 */
+	startSyntheticDepth?: (
+		symbolInfo: SymbolInfo,
+		levels: number,
+		emit: (update: DepthUpdate) => void
+	) => () => void;
+};
+
+/**
+ * Exchange prefix of a symbol, e.g. "BYBIT" for BYBIT:FUTURE:BTCUSDT
+ */
+export const getExchangePrefix = (symbolInfo: SymbolInfo): string =>
+	(
+		symbolInfo.exchange ||
+		(symbolInfo.full_name || "").split(":")[0] ||
+		""
+	).toUpperCase();
+
+/**
+ * First adapter registered for the symbol's exchange prefix or for every
+ * prefix, else the fallback
+ */
+export const findAdapter = (
+	adapters: ExchangeAdapter[],
+	symbolInfo: SymbolInfo,
+	fallback: ExchangeAdapter
+): ExchangeAdapter => {
+	const prefix = getExchangePrefix(symbolInfo);
+	return (
+		adapters.find(
+			(adapter) =>
+				adapter.exchanges.includes(prefix) ||
+				adapter.exchanges.includes("*")
+		) || fallback
+	);
+};
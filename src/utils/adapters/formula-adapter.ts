@@ -0,0 +1,233 @@
+import { SymbolInfo, PeriodParams } from "@gocharting/chart-sdk";
+import { ResolutionInfo, TradeMessage } from "../datafeed-types";
+import {
+	alignFormulaBars,
+	createFormulaSymbolInfo,
+	evaluateFormula,
+	parseFormulaSymbol,
+	FormulaSymbol,
+	FORMULA_EXCHANGE,
+} from "../formula-series";
+import { getTradingSession, TradingSession } from "../session";
+import { AdapterBarsResult, ExchangeAdapter } from "./exchange-adapter";
+
+type PagedPeriodParams = PeriodParams & { countBack?: number };
+
+/**
+ * Where a formula adapter gets its constituents from, usually the
+ * datafeed it belongs to
+ */
+export type FormulaSource = {
+	/** Symbol info of a constituent */
+	resolveSymbol: (symbolName: string) => Promise<SymbolInfo>;
+	/**
+	 * Constituent bars at a resolution, built the way a chart gets them
+	 * but along the formula's session, so bar times line up
+	 */
+	getBars: (
+		symbolInfo: SymbolInfo,
+		resolutionInfo: ResolutionInfo,
+		periodParams: PagedPeriodParams,
+		session: TradingSession
+	) => Promise<AdapterBarsResult>;
+	/** Streams a constituent's live trades; returns an unsubscribe function */
+	subscribeTrades: (
+		symbolInfo: SymbolInfo,
+		onTrade: (trade: TradeMessage) => void
+	) => () => void;
+};
+
+/**
+ * Adapter computing formula symbols from their constituents
+ */
+export type FormulaAdapter = ExchangeAdapter & {
+	/** Symbol info of a formula; throws for plain symbol names */
+	resolveSymbol: (symbolName: string) => Promise<SymbolInfo>;
+};
+
+/**
+ * Adapter for symbols written as arithmetic over other symbols, such as
+ * FORMULA:BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT
+ *
+ * History is computed from constituent bars aligned by time (see
+ * alignFormulaBars), each fetched at the chart's resolution. Live trades
+ * are computed from the constituents' trade streams: every constituent
+ * trade prints the formula's value at the latest price of each
+ * constituent, starting from the newest closes served.
+ */
+export const createFormulaAdapter = (source: FormulaSource): FormulaAdapter => {
+	// Newest constituent closes served per formula, to start streams from
+	const lastCloses = new Map<string, { time: number; closes: number[] }>();
+
+	const getFormula = (symbolInfo: SymbolInfo): FormulaSymbol => {
+		const name = symbolInfo.full_name || symbolInfo.symbol || "";
+		const formula = parseFormulaSymbol(name);
+		if (!formula) {
+			throw new Error(`Not a formula: ${name}`);
+		}
+		return formula;
+	};
+
+	const getConstituents = (formula: FormulaSymbol): Promise<SymbolInfo[]> =>
+		Promise.all(
+			formula.symbols.map((symbolName) =>
+				source.resolveSymbol(symbolName)
+			)
+		);
+
+	// Remember the closes behind the newest bar served
+	const rememberCloses = (
+		formula: FormulaSymbol,
+		time: number,
+		constituentBars: AdapterBarsResult[]
+	) => {
+		const remembered = lastCloses.get(formula.expression);
+		if (remembered && remembered.time > time) return;
+		const closes = constituentBars.map(
+			({ bars }) =>
+				bars.filter((bar) => bar.time <= time).pop()?.close ?? NaN
+		);
+		lastCloses.set(formula.expression, { time, closes });
+	};
+
+	return {
+		name: "formula",
+		exchanges: [FORMULA_EXCHANGE],
+		// Constituent bars are cached already
+		cache: false,
+
+		// Every interval is fetched from the constituents as it is
+		getNativeIntervals: () => undefined,
+
+		mapInterval: (resolutionInfo: ResolutionInfo): string =>
+			resolutionInfo.label,
+
+		async getBars(
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo,
+			periodParams: PagedPeriodParams
+		): Promise<AdapterBarsResult> {
+			const formula = getFormula(symbolInfo);
+			const constituents = await getConstituents(formula);
+			const session = getTradingSession(symbolInfo);
+			const results = await Promise.all(
+				constituents.map((constituent) =>
+					source.getBars(
+						constituent,
+						resolutionInfo,
+						periodParams,
+						session
+					)
+				)
+			);
+			const bars = alignFormulaBars(
+				formula,
+				results.map(({ bars }) => bars)
+			);
+			if (bars.length) {
+				rememberCloses(formula, bars[bars.length - 1].time, results);
+				return { bars };
+			}
+			// A common older bar is no newer than the closest older bar of
+			// each constituent that had none in the period
+			const nextTimes = results
+				.filter((result) => !result.bars.length)
+				.map(({ nextTime }) => nextTime);
+			if (nextTimes.some((nextTime) => nextTime === null)) {
+				return { bars, nextTime: null };
+			}
+			if (
+				!nextTimes.length ||
+				nextTimes.some((nextTime) => nextTime === undefined)
+			) {
+				return { bars };
+			}
+			return {
+				bars,
+				nextTime: Math.min(...(nextTimes as number[])),
+			};
+		},
+
+		async resolveSymbol(symbolName: string): Promise<SymbolInfo> {
+			const formula = parseFormulaSymbol(symbolName);
+			if (!formula) {
+				throw new Error(`Not a formula: ${symbolName}`);
+			}
+			return createFormulaSymbolInfo(
+				formula,
+				await getConstituents(formula)
+			);
+		},
+
+		getChannel(symbolInfo: SymbolInfo): string {
+			return `formula.${getFormula(symbolInfo).expression}`;
+		},
+
+		getSocketUrl: () => null,
+
+		startSyntheticStream(
+			symbolInfo: SymbolInfo,
+			emit: (trades: TradeMessage[]) => void
+		): () => void {
+			const formula = getFormula(symbolInfo);
+			const ticker = symbolInfo.ticker || formula.expression;
+			const prices = [
+				...(lastCloses.get(formula.expression)?.closes ||
+					formula.symbols.map(() => NaN)),
+			];
+			let unsubscribes: Array<() => void> = [];
+			let tradeCount = 0;
+			let stopped = false;
+
+			const onTrade = (index: number, trade: TradeMessage) => {
+				prices[index] = trade.price;
+				const price = evaluateFormula(
+					formula.root,
+					Object.fromEntries(
+						formula.symbols.map((symbol, position) => [
+							symbol,
+							prices[position],
+						])
+					)
+				);
+				// Quiet until every constituent has a price
+				if (!Number.isFinite(price)) return;
+				tradeCount += 1;
+				emit([
+					{
+						type: "trade",
+						productId: formula.name,
+						symbol: ticker,
+						exchange: FORMULA_EXCHANGE,
+						segment: "",
+						timeStamp: trade.timeStamp,
+						tradeID: `${formula.expression}-${tradeCount}`,
+						price,
+						quantity: 0,
+						amount: 0,
+						side: "",
+					},
+				]);
+			};
+
+			getConstituents(formula)
+				.then((constituents) => {
+					if (stopped) return;
+					unsubscribes = constituents.map((constituent, index) =>
+						source.subscribeTrades(constituent, (trade) =>
+							onTrade(index, trade)
+						)
+					);
+				})
+				.catch(() => {
+					// Left quiet; the datafeed reports the channel stale
+				});
+
+			return () => {
+				stopped = true;
+				unsubscribes.forEach((unsubscribe) => unsubscribe());
+				unsubscribes = [];
+			};
+		},
+	};
+};
@@ -0,0 +1,26 @@
+export { createBybitAdapter, getBybitCategory } from "./bybit-adapter";
+export { createBinanceAdapter } from "./binance-adapter";
+export type { BinanceAdapterOptions } from "./binance-adapter";
+export { createContinuousAdapter } from "./continuous-adapter";
+export type { ContinuousAdapter, ContinuousSource } from "./continuous-adapter";
+export { createDemoAdapter } from "./demo-adapter";
+export { createFormulaAdapter } from "./formula-adapter";
+export type { FormulaAdapter, FormulaSource } from "./formula-adapter";
+export {
+	createLocalAdapter,
+	toLocalSymbolName,
+	LOCAL_EXCHANGE,
+} from "./local-adapter";
+export type { LocalAdapter } from "./local-adapter";
+export { createUdfAdapter } from "./udf-adapter";
+export type { UdfAdapterOptions } from "./udf-adapter";
+export { findAdapter, getExchangePrefix } from "./exchange-adapter";
+export type {
+	ExchangeAdapter,
+	AdapterBarsResult,
+	AdapterHeartbeat,
+	DatedContract,
+	InstrumentInfo,
+	ParsedChannelMessage,
+	SyntheticStreamStart,
+} from "./exchange-adapter";
@@ -0,0 +1,242 @@
+import { SymbolInfo, PeriodParams, SearchResult } from "@gocharting/chart-sdk";
+import { ResolutionInfo, TradeMessage } from "../datafeed-types";
+import { LocalSeries } from "../local-data";
+import { parseInterval, planResolution } from "../resolution";
+import { AdapterBarsResult, ExchangeAdapter } from "./exchange-adapter";
+
+/** Exchange prefix of symbols loaded from files */
+export const LOCAL_EXCHANGE = "LOCAL";
+
+/** Intervals offered on the chart when the file's interval can build them */
+const LOCAL_CHART_INTERVALS = [
+	"1S",
+	"1",
+	"5",
+	"15",
+	"30",
+	"60",
+	"240",
+	"1D",
+	"1W",
+	"1M",
+];
+
+type PagedPeriodParams = PeriodParams & { countBack?: number };
+
+/**
+ * Series loaded under a name, with how it is described in search
+ */
+type LocalEntry = {
+	series: LocalSeries;
+	description: string;
+};
+
+/**
+ * Adapter serving series loaded from files, plus the registry they are
+ * loaded into
+ */
+export type LocalAdapter = ExchangeAdapter & {
+	/**
+	 * Registers a series as LOCAL:<name>, replacing one loaded under the
+	 * same name. Returns the full symbol name.
+	 */
+	addSeries: (
+		name: string,
+		series: LocalSeries,
+		description?: string
+	) => string;
+	/** Forgets a loaded series */
+	removeSeries: (name: string) => void;
+};
+
+/**
+ * Symbol name part of a file or URL name: letters, digits and
+ * underscores, upper case, e.g. "MYDATA" for "my-data.csv"
+ */
+export const toLocalSymbolName = (name: string): string =>
+	name
+		.replace(/^.*[/\\]/, "")
+		.replace(/\.[a-z0-9]+$/i, "")
+		.replace(/[^a-z0-9_]+/gi, "_")
+		.replace(/^_+|_+$/g, "")
+		.toUpperCase() || "DATA";
+
+/**
+ * Adapter for OHLCV series loaded from CSV or JSON files
+ *
+ * Bars are held in memory and served as the file's native interval;
+ * the datafeed resamples them into longer intervals along the inferred
+ * sessions. Files do not stream, so subscriptions stay quiet.
+ */
+export const createLocalAdapter = (): LocalAdapter => {
+	const entries = new Map<string, LocalEntry>();
+
+	const getEntry = (symbolInfo: SymbolInfo): LocalEntry => {
+		const name = symbolInfo.symbol || symbolInfo.ticker || "";
+		const entry = entries.get(name);
+		if (!entry) {
+			throw new Error(`No file loaded as ${LOCAL_EXCHANGE}:${name}`);
+		}
+		return entry;
+	};
+
+	// Chart intervals the file's own interval can build
+	const getChartIntervals = (series: LocalSeries): string[] =>
+		LOCAL_CHART_INTERVALS.filter((interval) => {
+			try {
+				planResolution(parseInterval(interval), [series.interval]);
+				return true;
+			} catch {
+				return false;
+			}
+		});
+
+	const createSymbolInfo = (name: string, entry: LocalEntry): SymbolInfo => {
+		const { series, description } = entry;
+		const fullName = `${LOCAL_EXCHANGE}:${name}`;
+		const intervals = getChartIntervals(series);
+		return {
+			symbol: name,
+			full_name: fullName,
+			description,
+			type: "local",
+			session: series.session,
+			session_label: series.session,
+			timezone: series.timezone,
+			ticker: name,
+			exchange: LOCAL_EXCHANGE,
+			segment: "SPOT",
+			has_intraday: intervals.some((interval) =>
+				/^\d+S?$/.test(interval)
+			),
+			has_daily: true,
+			supported_resolutions: intervals,
+			volume_precision: series.volumePrecision,
+			data_status: "endofday" as const,
+			tick_size: 1 / 10 ** series.pricePrecision,
+			max_tick_precision: series.pricePrecision,
+			quote_currency: "",
+			exchange_info: {
+				name: LOCAL_EXCHANGE.toLowerCase(),
+				code: LOCAL_EXCHANGE,
+				country_cd: "",
+				zone: series.timezone,
+				has_unique_trade_id: false,
+				holidays: null,
+				hours: series.openDays.map((open) => ({ open })),
+				contains_ambiguous_symbols: false,
+				valid_intervals: intervals,
+			},
+		};
+	};
+
+	return {
+		name: "local",
+		exchanges: [LOCAL_EXCHANGE],
+		cache: false,
+
+		getNativeIntervals: (symbolInfo: SymbolInfo) => [
+			getEntry(symbolInfo).series.interval,
+		],
+
+		mapInterval: (resolutionInfo: ResolutionInfo): string =>
+			resolutionInfo.label,
+
+		// Bars inside the period, extended back to countBack bars when the
+		// period holds fewer
+		async getBars(
+			symbolInfo: SymbolInfo,
+			_resolutionInfo: ResolutionInfo,
+			periodParams: PagedPeriodParams
+		): Promise<AdapterBarsResult> {
+			const { bars } = getEntry(symbolInfo).series;
+			const { from, to, countBack } = periodParams;
+			const fromTime =
+				typeof from === "number"
+					? from
+					: Math.floor((from as Date).getTime() / 1000);
+			const toTime =
+				typeof to === "number"
+					? to
+					: Math.floor((to as Date).getTime() / 1000);
+			const end = bars.findIndex((bar) => bar.time >= toTime);
+			const before = end === -1 ? bars : bars.slice(0, end);
+			let start = before.findIndex((bar) => bar.time >= fromTime);
+			if (start === -1) start = before.length;
+			if (countBack && before.length - start < countBack) {
+				start = Math.max(0, before.length - countBack);
+			}
+			const served = before.slice(start);
+			return {
+				bars: served,
+				nextTime: served.length
+					? undefined
+					: before.length
+						? before[before.length - 1].time
+						: null,
+			};
+		},
+
+		async resolveSymbol(symbolName: string): Promise<SymbolInfo> {
+			const name = symbolName.split(":").pop() || "";
+			const entry = entries.get(name);
+			if (!entry) {
+				throw new Error(`No file loaded as ${symbolName}`);
+			}
+			return createSymbolInfo(name, entry);
+		},
+
+		async searchSymbols(
+			userInput: string,
+			exchange: string
+		): Promise<SearchResult[]> {
+			if (exchange && exchange.toUpperCase() !== LOCAL_EXCHANGE) {
+				return [];
+			}
+			const query = userInput.toLowerCase();
+			return Array.from(entries.entries())
+				.filter(
+					([name, entry]) =>
+						name.toLowerCase().includes(query) ||
+						entry.description.toLowerCase().includes(query)
+				)
+				.map(([name, entry]) => ({
+					symbol: name,
+					full_name: `${LOCAL_EXCHANGE}:${name}`,
+					description: entry.description,
+					exchange: LOCAL_EXCHANGE,
+					ticker: name,
+					type: "local" as SearchResult["type"],
+				}));
+		},
+
+		getChannel(symbolInfo: SymbolInfo): string {
+			return `local.${symbolInfo.symbol || symbolInfo.ticker || ""}`;
+		},
+
+		getSocketUrl: () => null,
+
+		startSyntheticStream(
+			_symbolInfo: SymbolInfo,
+			_emit: (trades: TradeMessage[]) => void
+		): () => void {
+			return () => {};
+		},
+
+		addSeries(
+			name: string,
+			series: LocalSeries,
+			description?: string
+		): string {
+			entries.set(name, {
+				series,
+				description: description || `${name} (imported)`,
+			});
+			return `${LOCAL_EXCHANGE}:${name}`;
+		},
+
+		removeSeries(name: string) {
+			entries.delete(name);
+		},
+	};
+};
@@ -0,0 +1,152 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { createUdfAdapter } from "./udf-adapter";
+import { TradeMessage } from "../datafeed-types";
+import { createResolution } from "../resolution";
+import { UdfClient, UdfHistoryResponse } from "../udf-client";
+
+const createClient = (overrides: Partial<UdfClient> = {}): UdfClient => ({
+	baseUrl: "https://data.example.com/udf",
+	getConfig: async () => ({ supported_resolutions: ["1", "5", "D"] }),
+	resolveSymbol: async () => ({
+		name: "AAPL",
+		exchange: "NASDAQ",
+		session: "0930-1600:23456",
+		timezone: "America/New_York",
+		minmov: 1,
+		pricescale: 100,
+		intraday_multipliers: ["1"],
+	}),
+	searchSymbols: async () => [],
+	getHistory: async () => ({ s: "no_data" }),
+	getMarks: async () => [],
+	getTimescaleMarks: async () => [],
+	getTime: async () => 0,
+	...overrides,
+});
+
+const history = (
+	time: number,
+	close: number,
+	volume: number,
+	high = close,
+	low = close
+): UdfHistoryResponse => ({
+	s: "ok",
+	t: [time],
+	o: [100],
+	h: [high],
+	l: [low],
+	c: [close],
+	v: [volume],
+});
+
+// Lets pending polls settle
+const flush = async () => {
+	for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe("createUdfAdapter", () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("resolves symbols with their stored intervals and trading days", async () => {
+		const adapter = createUdfAdapter(createClient());
+		const info = await adapter.resolveSymbol?.("NASDAQ:AAPL");
+		expect(info).toMatchObject({
+			symbol: "AAPL",
+			full_name: "NASDAQ:AAPL",
+			ticker: "AAPL",
+			tick_size: 0.01,
+			max_tick_precision: 2,
+			supported_resolutions: ["1", "5", "D"],
+			native_resolutions: ["1", "D"],
+		});
+		expect(
+			info?.exchange_info?.hours.map((day: { open: boolean }) => day.open)
+		).toEqual([false, true, true, true, true, true, false]);
+		expect(adapter.getNativeIntervals?.(info as SymbolInfo)).toEqual([
+			"1",
+			"D",
+		]);
+		// Cached apart from other servers' bars of the same names
+		expect(adapter.cacheScope).toBe("udf:https://data.example.com/udf");
+	});
+
+	it("passes no_data through with the server's nextTime", async () => {
+		const adapter = createUdfAdapter(
+			createClient({
+				getHistory: async (_symbol, _resolution, from) =>
+					from > 1000
+						? { s: "no_data", nextTime: 600 }
+						: { s: "no_data" },
+			})
+		);
+		const symbolInfo = { ticker: "AAPL" } as SymbolInfo;
+		const minute = createResolution(1, "minutes");
+		await expect(
+			adapter.getBars(symbolInfo, minute, {
+				from: 2000,
+				to: 3000,
+				firstDataRequest: false,
+			})
+		).resolves.toEqual({ bars: [], nextTime: 600 });
+		await expect(
+			adapter.getBars(symbolInfo, minute, {
+				from: 0,
+				to: 500,
+				firstDataRequest: false,
+			})
+		).resolves.toEqual({ bars: [], nextTime: null });
+	});
+
+	it("polls live bars, streaming only what changed after the first poll", async () => {
+		jest.useFakeTimers();
+		const polls = [
+			history(60, 101, 10),
+			history(60, 103, 14, 104),
+			history(120, 102, 3, 103, 101),
+		];
+		let poll = 0;
+		const adapter = createUdfAdapter(
+			createClient({
+				getHistory: async () =>
+					polls[Math.min(poll++, polls.length - 1)],
+			}),
+			{ pollIntervalMs: 1000, now: () => 200000 }
+		);
+		const emitted: TradeMessage[][] = [];
+		const stop = adapter.startSyntheticStream?.(
+			{ ticker: "AAPL", native_resolutions: ["1"] } as SymbolInfo,
+			(trades) => emitted.push(trades)
+		) as () => void;
+		await flush();
+		// The bar the chart was served already is only the baseline
+		expect(emitted).toEqual([]);
+
+		jest.advanceTimersByTime(1000);
+		await flush();
+		expect(
+			emitted[0].map(({ price, quantity }) => [price, quantity])
+		).toEqual([
+			[104, 0],
+			[103, 4],
+		]);
+
+		jest.advanceTimersByTime(1000);
+		await flush();
+		expect(
+			emitted[1].map(({ price, quantity, timeStamp }) => [
+				price,
+				quantity,
+				timeStamp.getTime() / 1000,
+			])
+		).toEqual([
+			[100, 0, 120],
+			[103, 0, 120],
+			[101, 0, 120],
+			[102, 3, 120],
+		]);
+		stop();
+	});
+});
@@ -0,0 +1,338 @@
+import { SymbolInfo, PeriodParams, SearchResult } from "@gocharting/chart-sdk";
+import { RawBar, ResolutionInfo, TradeMessage } from "../datafeed-types";
+import { getResolutionSeconds, parseInterval } from "../resolution";
+import { getExchangeCalendar, getWeeklyHours } from "../session";
+import { UdfClient, UdfHistoryResponse, UdfSymbolInfo } from "../udf-client";
+import { AdapterBarsResult, ExchangeAdapter } from "./exchange-adapter";
+
+/** How often the latest bar is polled for live updates */
+const UDF_POLL_INTERVAL_MS = 10000;
+/** Bars looked back over when polling, to bridge closed sessions */
+const UDF_POLL_LOOKBACK_BARS = 10;
+/** Most results requested per search */
+const UDF_SEARCH_LIMIT = 30;
+/** Resolutions assumed when neither the symbol nor /config lists any */
+const UDF_DEFAULT_RESOLUTIONS = ["1", "5", "15", "30", "60", "1D", "1W", "1M"];
+
+type PagedPeriodParams = PeriodParams & { countBack?: number };
+
+/**
+ * Symbol info resolved from a UDF server, with the intervals the server
+ * builds bars for itself
+ */
+type UdfResolvedSymbolInfo = SymbolInfo & {
+	native_resolutions?: string[];
+};
+
+/**
+ * Options for createUdfAdapter
+ */
+export type UdfAdapterOptions = {
+	/** How often live bars are polled; defaults to 10 seconds */
+	pollIntervalMs?: number;
+	/** Current time in milliseconds, e.g. a skew-corrected clock */
+	now?: () => number;
+};
+
+const isIntraday = (interval: string): boolean =>
+	["seconds", "minutes", "hours"].includes(parseInterval(interval).units);
+
+/**
+ * Intervals the server stores. intraday_multipliers lists its minute
+ * intervals; the daily and longer ones it supports are taken as stored.
+ */
+const getNativeResolutions = (
+	info: UdfSymbolInfo,
+	supported: string[]
+): string[] =>
+	info.intraday_multipliers?.length
+		? [
+				...info.intraday_multipliers,
+				...supported.filter((interval) => !isIntraday(interval)),
+			]
+		: supported;
+
+/**
+ * exchange_info.hours from the days of a UDF session ("0930-1600:23456",
+ * 1 being Sunday), else Monday to Friday unless it trades 24x7
+ */
+const getSessionHours = (session: string): Array<{ open: boolean }> => {
+	const days = /:(\d+)/.exec(session)?.[1];
+	if (!days) return getWeeklyHours(session);
+	return [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({
+		open: days.includes(String(weekday + 1)),
+	}));
+};
+
+const toRawBars = (history: UdfHistoryResponse): RawBar[] =>
+	(history.t || []).map((time, index) => ({
+		time,
+		open: Number(history.o?.[index]),
+		high: Number(history.h?.[index]),
+		low: Number(history.l?.[index]),
+		close: Number(history.c?.[index]),
+		volume: Number(history.v?.[index] ?? 0),
+	}));
+
+/**
+ * Adapter for any data server speaking the UDF protocol
+ *
+ * Claims every exchange prefix, so it is meant as the only adapter of a
+ * datafeed (see createUdfDatafeed). Symbols and search come from the
+ * server's /symbols and /search, history from /history and server time
+ * from /time. UDF has no streaming, so live bars are polled: each poll
+ * replays changes to the latest bar as trades through the datafeed's
+ * streaming layer.
+ */
+export const createUdfAdapter = (
+	client: UdfClient,
+	options: UdfAdapterOptions = {}
+): ExchangeAdapter => {
+	const { pollIntervalMs = UDF_POLL_INTERVAL_MS, now = Date.now } = options;
+
+	const getTicker = (symbolInfo: SymbolInfo): string =>
+		symbolInfo.ticker || symbolInfo.symbol || "";
+
+	const fetchBars = async (
+		symbolInfo: SymbolInfo,
+		resolution: string,
+		from: number,
+		to: number,
+		countBack?: number
+	): Promise<AdapterBarsResult> => {
+		const history = await client.getHistory(
+			getTicker(symbolInfo),
+			resolution,
+			from,
+			to,
+			countBack
+		);
+		if (history.s === "no_data") {
+			// Without nextTime the server has nothing older
+			return { bars: [], nextTime: history.nextTime ?? null };
+		}
+		return { bars: toRawBars(history) };
+	};
+
+	return {
+		name: "udf",
+		exchanges: ["*"],
+		// Servers may list the same symbol names with different bars
+		cacheScope: `udf:${client.baseUrl}`,
+
+		getNativeIntervals: (symbolInfo: SymbolInfo) =>
+			(symbolInfo as UdfResolvedSymbolInfo).native_resolutions,
+
+		mapInterval: (resolutionInfo: ResolutionInfo): string =>
+			resolutionInfo.label,
+
+		async getBars(
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo,
+			periodParams: PagedPeriodParams
+		): Promise<AdapterBarsResult> {
+			const { from, to, countBack } = periodParams;
+			const fromTime =
+				typeof from === "number"
+					? from
+					: Math.floor((from as Date).getTime() / 1000);
+			const toTime =
+				typeof to === "number"
+					? to
+					: Math.floor((to as Date).getTime() / 1000);
+			return fetchBars(
+				symbolInfo,
+				resolutionInfo.label,
+				fromTime,
+				toTime,
+				countBack
+			);
+		},
+
+		async resolveSymbol(symbolName: string): Promise<SymbolInfo> {
+			const [info, config] = await Promise.all([
+				client.resolveSymbol(symbolName),
+				client.getConfig(),
+			]);
+			const supported =
+				info.supported_resolutions ||
+				config.supported_resolutions ||
+				UDF_DEFAULT_RESOLUTIONS;
+			const exchange = info.exchange || info.listed_exchange || "";
+			const session = info.session || "24x7";
+			const timezone = info.timezone || "Etc/UTC";
+			const pricescale = info.pricescale || 100;
+			const resolved: UdfResolvedSymbolInfo = {
+				symbol: info.name,
+				full_name: symbolName,
+				description: info.description || info.name,
+				type: info.type || "",
+				session,
+				session_label: session,
+				timezone,
+				ticker: info.ticker || info.name,
+				exchange,
+				has_intraday: info.has_intraday ?? true,
+				has_daily: info.has_daily ?? true,
+				supported_resolutions: supported,
+				volume_precision: info.volume_precision ?? 0,
+				data_status: "streaming" as const,
+				tick_size: (info.minmov || 1) / pricescale,
+				max_tick_precision: Math.round(Math.log10(pricescale)),
+				quote_currency: info.currency_code || "",
+				exchange_info: {
+					name: exchange.toLowerCase(),
+					code: exchange,
+					country_cd: "",
+					zone: timezone,
+					has_unique_trade_id: false,
+					holidays: getExchangeCalendar(exchange)?.holidays || null,
+					hours: getSessionHours(session),
+					contains_ambiguous_symbols: false,
+					valid_intervals: supported,
+				},
+				native_resolutions: getNativeResolutions(info, supported),
+			};
+			return resolved;
+		},
+
+		async searchSymbols(
+			userInput: string,
+			exchange: string,
+			symbolType: string
+		): Promise<SearchResult[]> {
+			const results = await client.searchSymbols(
+				userInput,
+				symbolType,
+				exchange,
+				UDF_SEARCH_LIMIT
+			);
+			return results.map((result) => ({
+				symbol: result.symbol,
+				full_name: result.full_name,
+				description: result.description,
+				exchange: result.exchange,
+				ticker: result.ticker || result.symbol,
+				type: result.type as SearchResult["type"],
+			}));
+		},
+
+		async getServerTime(): Promise<number> {
+			const config = await client.getConfig();
+			if (!config.supports_time) {
+				throw new Error("UDF server does not report its time");
+			}
+			return (await client.getTime()) * 1000;
+		},
+
+		getChannel(symbolInfo: SymbolInfo): string {
+			return `udf.${getTicker(symbolInfo)}`;
+		},
+
+		getSocketUrl: () => null,
+
+		// Poll the latest bar at the finest native interval. The first poll
+		// only records it, as the chart was served that bar already. A new
+		// bar is replayed as open, high, low and close prints; later polls of
+		// the same bar as new extremes and a close carrying the added volume.
+		startSyntheticStream(
+			symbolInfo: SymbolInfo,
+			emit: (trades: TradeMessage[]) => void
+		): () => void {
+			const natives: string[] = (symbolInfo as UdfResolvedSymbolInfo)
+				.native_resolutions || ["1"];
+			const resolutionInfo = natives
+				.map(parseInterval)
+				.sort(
+					(a, b) => getResolutionSeconds(a) - getResolutionSeconds(b)
+				)[0];
+			const intervalSeconds = getResolutionSeconds(resolutionInfo);
+			const ticker = getTicker(symbolInfo);
+			let lastBar: RawBar | null = null;
+			let tradeCount = 0;
+			let polling = false;
+			let stopped = false;
+
+			const createTrade = (
+				bar: RawBar,
+				price: number,
+				quantity: number
+			): TradeMessage => {
+				tradeCount += 1;
+				return {
+					type: "trade",
+					productId: symbolInfo.full_name || ticker,
+					symbol: ticker,
+					exchange: symbolInfo.exchange || "",
+					segment: symbolInfo.segment || "",
+					// Stamped at the bar's start so it lands in that bar
+					timeStamp: new Date(bar.time * 1000),
+					tradeID: `${ticker}-${bar.time}-${tradeCount}`,
+					price,
+					quantity,
+					amount: price * quantity,
+					side: "",
+				};
+			};
+
+			const getBarTrades = (bar: RawBar): TradeMessage[] => {
+				if (!lastBar) return [];
+				if (bar.time > lastBar.time) {
+					return [
+						createTrade(bar, bar.open, 0),
+						createTrade(bar, bar.high, 0),
+						createTrade(bar, bar.low, 0),
+						createTrade(bar, bar.close, bar.volume),
+					];
+				}
+				if (bar.time < lastBar.time) return [];
+				const trades: TradeMessage[] = [];
+				if (bar.high > lastBar.high) {
+					trades.push(createTrade(bar, bar.high, 0));
+				}
+				if (bar.low < lastBar.low) {
+					trades.push(createTrade(bar, bar.low, 0));
+				}
+				const addedVolume = Math.max(0, bar.volume - lastBar.volume);
+				if (bar.close !== lastBar.close || addedVolume > 0) {
+					trades.push(createTrade(bar, bar.close, addedVolume));
+				}
+				return trades;
+			};
+
+			const poll = async () => {
+				if (polling) return;
+				polling = true;
+				try {
+					const to = Math.floor(now() / 1000);
+					const { bars } = await fetchBars(
+						symbolInfo,
+						resolutionInfo.label,
+						to - intervalSeconds * UDF_POLL_LOOKBACK_BARS,
+						to
+					);
+					const bar = bars[bars.length - 1];
+					if (stopped || !bar) return;
+					const trades = getBarTrades(bar);
+					if (!lastBar || bar.time >= lastBar.time) {
+						lastBar = bar;
+					}
+					if (trades.length) emit(trades);
+				} catch {
+					// Retried on the next poll; the datafeed reports the
+					// channel stale if polls keep failing
+				} finally {
+					polling = false;
+				}
+			};
+
+			poll();
+			const interval = setInterval(poll, pollIntervalMs);
+
+			return () => {
+				stopped = true;
+				clearInterval(interval);
+			};
+		},
+	};
+};
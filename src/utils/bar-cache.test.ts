@@ -0,0 +1,144 @@
+import {
+	createBarCache,
+	mergeBars,
+	mergeRanges,
+	subtractRanges,
+} from "./bar-cache";
+import { RawBar } from "./datafeed-types";
+
+const bar = (time: number, close = 1): RawBar => ({
+	time,
+	open: close,
+	high: close,
+	low: close,
+	close,
+	volume: 1,
+});
+
+const times = (bars: RawBar[]) => bars.map(({ time }) => time);
+
+describe("mergeRanges", () => {
+	it("joins overlapping and adjacent ranges", () => {
+		expect(
+			mergeRanges([
+				{ from: 50, to: 60 },
+				{ from: 0, to: 10 },
+				{ from: 11, to: 20 },
+				{ from: 55, to: 70 },
+			])
+		).toEqual([
+			{ from: 0, to: 20 },
+			{ from: 50, to: 70 },
+		]);
+	});
+
+	it("drops empty ranges", () => {
+		expect(mergeRanges([{ from: 5, to: 4 }])).toEqual([]);
+	});
+});
+
+describe("subtractRanges", () => {
+	it("leaves the gaps between covered ranges", () => {
+		expect(
+			subtractRanges({ from: 0, to: 100 }, [
+				{ from: 10, to: 19 },
+				{ from: 40, to: 200 },
+			])
+		).toEqual([
+			{ from: 0, to: 9 },
+			{ from: 20, to: 39 },
+		]);
+	});
+
+	it("returns nothing when the range is covered", () => {
+		expect(
+			subtractRanges({ from: 10, to: 20 }, [{ from: 0, to: 30 }])
+		).toEqual([]);
+		expect(subtractRanges({ from: 10, to: 20 }, [])).toEqual([
+			{ from: 10, to: 20 },
+		]);
+	});
+});
+
+describe("mergeBars", () => {
+	it("sorts bars and lets incoming ones replace existing ones", () => {
+		const merged = mergeBars(
+			[bar(60, 1), bar(120, 1)],
+			[bar(0), bar(60, 2)]
+		);
+		expect(times(merged)).toEqual([0, 60, 120]);
+		expect(merged[1].close).toBe(2);
+	});
+});
+
+describe("createBarCache", () => {
+	const KEY = "BYBIT:FUTURE:BTCUSDT|1";
+
+	it("fetches only the ranges not cached yet", async () => {
+		const cache = createBarCache({ persist: false });
+		expect(await cache.getMissingRanges(KEY, { from: 0, to: 599 })).toEqual(
+			[{ from: 0, to: 599 }]
+		);
+		await cache.put(KEY, { from: 300, to: 599 }, [bar(300), bar(360)]);
+		expect(await cache.getMissingRanges(KEY, { from: 0, to: 899 })).toEqual(
+			[
+				{ from: 0, to: 299 },
+				{ from: 600, to: 899 },
+			]
+		);
+	});
+
+	it("counts a range fetched without bars as covered", async () => {
+		const cache = createBarCache({ persist: false });
+		await cache.put(KEY, { from: 0, to: 599 }, []);
+		expect(await cache.getMissingRanges(KEY, { from: 0, to: 599 })).toEqual(
+			[]
+		);
+		expect(await cache.getBars(KEY, { from: 0, to: 599 })).toEqual([]);
+	});
+
+	it("covers bars fetched before the range for countBack", async () => {
+		const cache = createBarCache({ persist: false });
+		await cache.put(KEY, { from: 600, to: 899 }, [bar(300), bar(600)]);
+		expect(
+			await cache.getMissingRanges(KEY, { from: 300, to: 899 })
+		).toEqual([]);
+	});
+
+	it("reaches back to earlier bars to satisfy countBack", async () => {
+		const cache = createBarCache({ persist: false });
+		await cache.put(
+			KEY,
+			{ from: 0, to: 599 },
+			[0, 60, 120, 180, 240, 300].map((time) => bar(time))
+		);
+		const range = { from: 240, to: 599 };
+		expect(times(await cache.getBars(KEY, range))).toEqual([240, 300]);
+		expect(times(await cache.getBars(KEY, range, 4))).toEqual([
+			120, 180, 240, 300,
+		]);
+		expect(times(await cache.getBars(KEY, range, 1))).toEqual([240, 300]);
+	});
+
+	it("evicts the least recently used entries past the memory limit", async () => {
+		const cache = createBarCache({ persist: false, maxMemoryBars: 3 });
+		await cache.put("A", { from: 0, to: 119 }, [bar(0), bar(60)]);
+		await cache.put("B", { from: 0, to: 59 }, [bar(0)]);
+		// Reading A makes B the oldest
+		await cache.getBars("A", { from: 0, to: 119 });
+		await cache.put("C", { from: 0, to: 59 }, [bar(0)]);
+		expect(await cache.getMissingRanges("B", { from: 0, to: 59 })).toEqual([
+			{ from: 0, to: 59 },
+		]);
+		expect(await cache.getMissingRanges("A", { from: 0, to: 119 })).toEqual(
+			[]
+		);
+	});
+
+	it("forgets everything on clear", async () => {
+		const cache = createBarCache({ persist: false });
+		await cache.put(KEY, { from: 0, to: 59 }, [bar(0)]);
+		await cache.clear();
+		expect(await cache.getBars(KEY, { from: 0, to: 59 })).toEqual([]);
+	});
+});
@@ -0,0 +1,350 @@
+import { RawBar } from "./datafeed-types";
+
+/**
+ * Inclusive time range in unix seconds
+ */
+export type TimeRange = {
+	from: number;
+	to: number;
+};
+
+/**
+ * Bars known for one symbol and resolution, plus the ranges they cover.
+ * A covered range without bars means the venue has no data there.
+ */
+type CacheEntry = {
+	key: string;
+	ranges: TimeRange[];
+	bars: RawBar[];
+	lastAccess: number;
+};
+
+/**
+ * Per-entry bookkeeping persisted next to the bars for eviction
+ */
+type CacheEntryMeta = {
+	key: string;
+	size: number;
+	lastAccess: number;
+};
+
+/**
+ * Options for createBarCache
+ */
+export type BarCacheOptions = {
+	/** Bars kept in memory across all entries (default 200,000) */
+	maxMemoryBars?: number;
+	/** Bars kept in IndexedDB across all entries (default 1,000,000) */
+	maxPersistedBars?: number;
+	/** IndexedDB database name (default "gocharting-bar-cache") */
+	dbName?: string;
+	/** Persist to IndexedDB when available (default true) */
+	persist?: boolean;
+};
+
+/**
+ * Bar cache keyed by symbol and resolution
+ */
+export type BarCache = {
+	/** Parts of the range that are not cached yet */
+	getMissingRanges: (key: string, range: TimeRange) => Promise<TimeRange[]>;
+	/**
+	 * Cached bars inside the range, extended to earlier cached bars when
+	 * fewer than countBack fall inside it
+	 */
+	getBars: (
+		key: string,
+		range: TimeRange,
+		countBack?: number
+	) => Promise<RawBar[]>;
+	/** Stores bars fetched for the range and marks the range as covered */
+	put: (key: string, range: TimeRange, bars: RawBar[]) => Promise<void>;
+	clear: () => Promise<void>;
+};
+
+const BARS_STORE = "bars";
+const META_STORE = "meta";
+
+/**
+ * Sorted union of ranges; adjacent ranges (to + 1 === from) are joined
+ */
+export const mergeRanges = (ranges: TimeRange[]): TimeRange[] => {
+	const sorted = ranges
+		.filter((range) => range.to >= range.from)
+		.sort((a, b) => a.from - b.from);
+	const merged: TimeRange[] = [];
+	sorted.forEach((range) => {
+		const last = merged[merged.length - 1];
+		if (last && range.from <= last.to + 1) {
+			last.to = Math.max(last.to, range.to);
+		} else {
+			merged.push({ ...range });
+		}
+	});
+	return merged;
+};
+
+/**
+ * Parts of range not covered by the (merged) covered ranges
+ */
+export const subtractRanges = (
+	range: TimeRange,
+	covered: TimeRange[]
+): TimeRange[] => {
+	const missing: TimeRange[] = [];
+	let cursor = range.from;
+	mergeRanges(covered).forEach((each) => {
+		if (each.to < cursor || each.from > range.to) return;
+		if (each.from > cursor) {
+			missing.push({ from: cursor, to: each.from - 1 });
+		}
+		cursor = Math.max(cursor, each.to + 1);
+	});
+	if (cursor <= range.to) {
+		missing.push({ from: cursor, to: range.to });
+	}
+	return missing;
+};
+
+/**
+ * Sorted bars de-duplicated by time; incoming bars replace existing ones
+ */
+export const mergeBars = (existing: RawBar[], incoming: RawBar[]): RawBar[] => {
+	const byTime = new Map<number, RawBar>();
+	existing.forEach((bar) => byTime.set(bar.time, bar));
+	incoming.forEach((bar) => byTime.set(bar.time, bar));
+	return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+	new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+	new Promise((resolve, reject) => {
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(transaction.error);
+		transaction.onabort = () => reject(transaction.error);
+	});
+
+const openDatabase = (dbName: string): Promise<IDBDatabase | null> => {
+	if (typeof indexedDB === "undefined") {
+		return Promise.resolve(null);
+	}
+	return new Promise((resolve) => {
+		const request = indexedDB.open(dbName, 1);
+		request.onupgradeneeded = () => {
+			const db = request.result;
+			if (!db.objectStoreNames.contains(BARS_STORE)) {
+				db.createObjectStore(BARS_STORE, { keyPath: "key" });
+			}
+			if (!db.objectStoreNames.contains(META_STORE)) {
+				db.createObjectStore(META_STORE, { keyPath: "key" });
+			}
+		};
+		request.onsuccess = () => resolve(request.result);
+		// Private browsing and blocked storage fall back to memory only
+		request.onerror = () => {
+			console.warn(
+				"⚠️ [BarCache] IndexedDB unavailable, caching in memory only:",
+				request.error
+			);
+			resolve(null);
+		};
+	});
+};
+
+/**
+ * Creates a bar cache backed by memory and, where available, IndexedDB
+ *
+ * Entries are evicted least recently used first once the bar count limits
+ * are exceeded.
+ *
+ * @example
+ * ```typescript
+ * const cache = createBarCache();
+ * const missing = await cache.getMissingRanges(key, { from, to });
+ * for (const range of missing) {
+ *   await cache.put(key, range, await fetchBars(range));
+ * }
+ * const bars = await cache.getBars(key, { from, to });
+ * ```
+ */
+export const createBarCache = (options: BarCacheOptions = {}): BarCache => {
+	const {
+		maxMemoryBars = 200000,
+		maxPersistedBars = 1000000,
+		dbName = "gocharting-bar-cache",
+		persist = true,
+	} = options;
+
+	// Map iteration order doubles as LRU order: oldest access first
+	const memory = new Map<string, CacheEntry>();
+	let memoryBars = 0;
+	let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+	const getDatabase = (): Promise<IDBDatabase | null> => {
+		if (!persist) return Promise.resolve(null);
+		if (!dbPromise) dbPromise = openDatabase(dbName);
+		return dbPromise;
+	};
+
+	const touch = (entry: CacheEntry) => {
+		entry.lastAccess = Date.now();
+		memory.delete(entry.key);
+		memory.set(entry.key, entry);
+	};
+
+	const setMemoryEntry = (entry: CacheEntry) => {
+		const previous = memory.get(entry.key);
+		if (previous) memoryBars -= previous.bars.length;
+		memoryBars += entry.bars.length;
+		touch(entry);
+
+		for (const [key, candidate] of memory) {
+			if (memoryBars <= maxMemoryBars || key === entry.key) break;
+			memory.delete(key);
+			memoryBars -= candidate.bars.length;
+		}
+	};
+
+	const loadPersisted = async (key: string): Promise<CacheEntry | null> => {
+		try {
+			const db = await getDatabase();
+			if (!db) return null;
+			const transaction = db.transaction(BARS_STORE, "readonly");
+			const entry = await requestToPromise<CacheEntry | undefined>(
+				transaction.objectStore(BARS_STORE).get(key)
+			);
+			return entry || null;
+		} catch (error) {
+			console.warn("⚠️ [BarCache] Failed to read from IndexedDB:", error);
+			return null;
+		}
+	};
+
+	const evictPersisted = async (db: IDBDatabase, keepKey: string) => {
+		const metaTransaction = db.transaction(META_STORE, "readonly");
+		const metas = await requestToPromise<CacheEntryMeta[]>(
+			metaTransaction.objectStore(META_STORE).getAll()
+		);
+		let total = metas.reduce((sum, meta) => sum + meta.size, 0);
+		if (total <= maxPersistedBars) return;
+
+		const transaction = db.transaction(
+			[BARS_STORE, META_STORE],
+			"readwrite"
+		);
+		metas
+			.sort((a, b) => a.lastAccess - b.lastAccess)
+			.forEach((meta) => {
+				if (total <= maxPersistedBars || meta.key === keepKey) return;
+				transaction.objectStore(BARS_STORE).delete(meta.key);
+				transaction.objectStore(META_STORE).delete(meta.key);
+				total -= meta.size;
+			});
+		await transactionDone(transaction);
+	};
+
+	const savePersisted = async (entry: CacheEntry) => {
+		try {
+			const db = await getDatabase();
+			if (!db) return;
+			const transaction = db.transaction(
+				[BARS_STORE, META_STORE],
+				"readwrite"
+			);
+			transaction.objectStore(BARS_STORE).put(entry);
+			transaction.objectStore(META_STORE).put({
+				key: entry.key,
+				size: entry.bars.length,
+				lastAccess: entry.lastAccess,
+			} as CacheEntryMeta);
+			await transactionDone(transaction);
+			await evictPersisted(db, entry.key);
+		} catch (error) {
+			console.warn("⚠️ [BarCache] Failed to write to IndexedDB:", error);
+		}
+	};
+
+	const getEntry = async (key: string): Promise<CacheEntry | null> => {
+		const cached = memory.get(key);
+		if (cached) {
+			touch(cached);
+			return cached;
+		}
+		const persisted = await loadPersisted(key);
+		if (persisted) {
+			setMemoryEntry(persisted);
+		}
+		return persisted;
+	};
+
+	return {
+		async getMissingRanges(
+			key: string,
+			range: TimeRange
+		): Promise<TimeRange[]> {
+			const entry = await getEntry(key);
+			return subtractRanges(range, entry ? entry.ranges : []);
+		},
+
+		async getBars(
+			key: string,
+			range: TimeRange,
+			countBack = 0
+		): Promise<RawBar[]> {
+			const entry = await getEntry(key);
+			if (!entry) return [];
+			const upToEnd = entry.bars.filter((bar) => bar.time <= range.to);
+			const inRange = upToEnd.filter((bar) => bar.time >= range.from);
+			return inRange.length >= countBack
+				? inRange
+				: upToEnd.slice(Math.max(0, upToEnd.length - countBack));
+		},
+
+		async put(
+			key: string,
+			range: TimeRange,
+			bars: RawBar[]
+		): Promise<void> {
+			const existing = await getEntry(key);
+			// Bars older than the requested range (countBack) are covered too
+			const coveredFrom = bars.length
+				? Math.min(range.from, bars[0].time)
+				: range.from;
+			const entry: CacheEntry = {
+				key,
+				ranges: mergeRanges([
+					...(existing ? existing.ranges : []),
+					{ from: coveredFrom, to: range.to },
+				]),
+				bars: mergeBars(existing ? existing.bars : [], bars),
+				lastAccess: Date.now(),
+			};
+			setMemoryEntry(entry);
+			// Persisting happens in the background; memory already serves reads
+			savePersisted(entry);
+		},
+
+		async clear(): Promise<void> {
+			memory.clear();
+			memoryBars = 0;
+			try {
+				const db = await getDatabase();
+				if (!db) return;
+				const transaction = db.transaction(
+					[BARS_STORE, META_STORE],
+					"readwrite"
+				);
+				transaction.objectStore(BARS_STORE).clear();
+				transaction.objectStore(META_STORE).clear();
+				await transactionDone(transaction);
+			} catch (error) {
+				console.warn("⚠️ [BarCache] Failed to clear IndexedDB:", error);
+			}
+		},
+	};
+};
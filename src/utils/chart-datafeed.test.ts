@@ -0,0 +1,241 @@
+import { DataStatus, SymbolInfo } from "@gocharting/chart-sdk";
+import { ExchangeAdapter } from "./adapters";
+import { ChartDatafeed, createChartDatafeed } from "./chart-datafeed";
+import { TradeMessage } from "./datafeed-types";
+import { fakeSockets, installFakeWebSocket } from "./test-utils/fake-socket";
+import {
+	startStubServer,
+	StubReply,
+	StubServer,
+} from "./test-utils/stub-server";
+
+const SOCKET_URL = "wss://stream.example.com";
+
+const symbolInfo = (): SymbolInfo =>
+	({
+		symbol: "ABC",
+		full_name: "TEST:SPOT:ABC",
+		exchange: "TEST",
+		session: "24x7",
+		timezone: "Etc/UTC",
+	}) as SymbolInfo;
+
+const trade = (price: number, time: number): TradeMessage => ({
+	type: "trade",
+	productId: "TEST:SPOT:ABC",
+	symbol: "ABC",
+	exchange: "TEST",
+	segment: "SPOT",
+	timeStamp: new Date(time),
+	tradeID: String(time),
+	price,
+	quantity: 1,
+	amount: price,
+	side: "BUY",
+});
+
+// Venue streaming { channel, price, time } trades and { op: "pong" }
+// keepalives over one socket
+const createSocketAdapter = (): ExchangeAdapter => ({
+	name: "test",
+	exchanges: ["TEST"],
+	mapInterval: (resolutionInfo) => resolutionInfo.label,
+	getBars: async () => ({ bars: [] }),
+	getChannel: (info) => `trades.${info.symbol}`,
+	getSocketUrl: () => SOCKET_URL,
+	formatSubscribe: (topics) => JSON.stringify({ subscribe: topics }),
+	parseMessage: (data) => {
+		const message = JSON.parse(data);
+		return message.channel
+			? [
+					{
+						channel: message.channel,
+						trades: [trade(message.price, message.time)],
+					},
+				]
+			: null;
+	},
+});
+
+describe("createChartDatafeed", () => {
+	let server: StubServer;
+	let route: (url: URL) => StubReply;
+	let restoreWebSocket: () => void;
+	let datafeed: ChartDatafeed;
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		// No venue or API is reachable unless a test routes it
+		route = () => ({ status: 404 });
+		server = startStubServer((url) => route(url));
+		restoreWebSocket = installFakeWebSocket();
+	});
+
+	afterEach(() => {
+		datafeed.destroy();
+		restoreWebSocket();
+		server.close();
+		jest.useRealTimers();
+	});
+
+	describe("stale channels", () => {
+		it("flags a channel without trades for a minute and restores it on the next trade", () => {
+			datafeed = createChartDatafeed({
+				adapters: [createSocketAdapter()],
+				cache: false,
+			});
+			const info = symbolInfo();
+			const statuses: string[] = [];
+			datafeed.onDataStatusChange(
+				(changed: SymbolInfo, status: DataStatus) => {
+					expect(changed).toBe(info);
+					statuses.push(status);
+				}
+			);
+			const onBar = jest.fn();
+			datafeed.subscribeBars(info, "1", onBar, "chart-1");
+
+			const [socket] = fakeSockets;
+			expect(socket.url).toBe(SOCKET_URL);
+			socket.open();
+			expect(socket.sent).toEqual([
+				JSON.stringify({ subscribe: ["trades.ABC"] }),
+			]);
+			socket.receive({
+				channel: "trades.ABC",
+				price: 10,
+				time: Date.now(),
+			});
+			expect(onBar).toHaveBeenCalledTimes(1);
+
+			// The connection stays up while trades stop; checked every 5
+			// seconds, stale after 60 seconds without a trade
+			const keepAlive = (ms: number) => {
+				for (let elapsed = 0; elapsed < ms; elapsed += 5000) {
+					jest.advanceTimersByTime(5000);
+					socket.receive({ op: "pong" });
+				}
+			};
+			keepAlive(55000);
+			expect(statuses).toEqual([]);
+			keepAlive(10000);
+			expect(statuses).toEqual(["endofday"]);
+			expect(info.data_status).toBe("endofday");
+			// Flagged once, however long it stays quiet
+			keepAlive(60000);
+			expect(statuses).toEqual(["endofday"]);
+			expect(fakeSockets).toHaveLength(1);
+
+			socket.receive({
+				channel: "trades.ABC",
+				price: 11,
+				time: Date.now(),
+			});
+			expect(statuses).toEqual(["endofday", "streaming"]);
+			expect(info.data_status).toBe("streaming");
+		});
+
+		it("keeps a channel fresh while trades arrive", () => {
+			datafeed = createChartDatafeed({
+				adapters: [createSocketAdapter()],
+				cache: false,
+			});
+			const statuses: string[] = [];
+			datafeed.onDataStatusChange((_: SymbolInfo, status: DataStatus) =>
+				statuses.push(status)
+			);
+			datafeed.subscribeTicks(symbolInfo(), "1", jest.fn(), "tape-1");
+			fakeSockets[0].open();
+
+			for (let second = 0; second < 180; second += 30) {
+				jest.advanceTimersByTime(30000);
+				fakeSockets[0].receive({
+					channel: "trades.ABC",
+					price: 10,
+					time: Date.now(),
+				});
+			}
+			expect(statuses).toEqual([]);
+		});
+	});
+
+	describe("instrument details", () => {
+		const resolve = (symbolName: string) =>
+			new Promise<SymbolInfo>((onResolve, onError) =>
+				datafeed.resolveSymbol(symbolName, onResolve, onError)
+			);
+
+		it("replaces estimated precision with the venue's listing", async () => {
+			route = (url) =>
+				url.pathname === "/v5/market/instruments-info"
+					? {
+							retCode: 0,
+							retMsg: "OK",
+							result: {
+								category: url.searchParams.get("category"),
+								list: [
+									{
+										symbol: "ETHUSDT",
+										status: "Trading",
+										baseCoin: "ETH",
+										quoteCoin: "USDT",
+										launchTime: "1615766400000",
+										deliveryTime: "0",
+										contractType: "LinearPerpetual",
+										priceFilter: { tickSize: "0.05" },
+										lotSizeFilter: {
+											minOrderQty: "0.01",
+											maxOrderQty: "7240",
+											qtyStep: "0.01",
+										},
+									},
+								],
+							},
+						}
+					: { status: 404 };
+			datafeed = createChartDatafeed({ cache: false });
+
+			const info = await resolve("BYBIT:FUTURE:ETHUSDT");
+			expect(
+				server.requests
+					.find((url) => url.pathname.endsWith("/instruments-info"))
+					?.searchParams.toString()
+			).toBe("category=linear&symbol=ETHUSDT");
+			expect(info).toMatchObject({
+				full_name: "BYBIT:FUTURE:ETHUSDT",
+				tick_size: 0.05,
+				display_tick_size: 0.05,
+				max_tick_precision: 2,
+				volume_size_increment: 0.01,
+				volume_precision: 2,
+				max_volume_precision: 2,
+				quote_currency: "USDT",
+				min_order_qty: 0.01,
+				max_order_qty: 7240,
+				launch_time: 1615766400,
+				delivery_time: null,
+			});
+		});
+
+		it("keeps the estimates when the venue does not answer", async () => {
+			route = (url) =>
+				url.pathname === "/v5/market/instruments-info"
+					? { retCode: 10006, retMsg: "Too many visits" }
+					: { status: 404 };
+			datafeed = createChartDatafeed({ cache: false });
+
+			const info = await resolve("BYBIT:FUTURE:SOLUSDT");
+			// GoCharting did not know it either: resolved locally
+			expect(server.requests[0].pathname).toBe(
+				"/sdk/instruments/exactSearch"
+			);
+			expect(info).toMatchObject({
+				full_name: "BYBIT:FUTURE:SOLUSDT",
+				tick_size: 0.01,
+				max_tick_precision: 2,
+				volume_precision: 8,
+			});
+			expect(info).not.toHaveProperty("min_order_qty");
+		});
+	});
+});
@@ -10,6 +10,99 @@ import {
 	BarsResult,
 	PeriodParams,
 } from "@gocharting/chart-sdk";
+import {
+	createReconnectingSocket,
+	ReconnectingSocket,
+} from "./reconnecting-socket";
+import {
+	DepthUpdate,
+	RawBar,
+	ResolutionInfo,
+	TradeMessage,
+	VolumeUnit,
+} from "./datafeed-types";
+import {
+	createBybitAdapter,
+	createBinanceAdapter,
+	createContinuousAdapter,
+	createDemoAdapter,
+	createFormulaAdapter,
+	createLocalAdapter,
+	findAdapter,
+	getBybitCategory,
+	getExchangePrefix,
+	AdapterBarsResult,
+	ContinuousAdapter,
+	ExchangeAdapter,
+	FormulaAdapter,
+	InstrumentInfo,
+	toLocalSymbolName,
+} from "./adapters";
+import {
+	createBarCache,
+	BarCache,
+	BarCacheOptions,
+	TimeRange,
+} from "./bar-cache";
+import { ContinuousOptions, getContinuousSymbol } from "./continuous-futures";
+import { DemoGeneratorOptions } from "./demo-generator";
+import {
+	createDerivedSymbolInfo,
+	parseDerivedSymbol,
+	DerivedSymbol,
+} from "./derived-series";
+import { parseFormulaSymbol } from "./formula-series";
+import { LocalDataOptions, parseLocalData } from "./local-data";
+import { createOrderBook, DepthSnapshot, OrderBook } from "./order-book";
+import {
+	createReplayPlayer,
+	getReplayTrades,
+	ReplayPlayer,
+	ReplayState,
+} from "./replay";
+import { createServerClock, ServerClock } from "./server-clock";
+import {
+	createCorporateEventsMarkSource,
+	createFundingMarkSource,
+	ChartMark,
+	MarkSource,
+	TimescaleMark,
+} from "./mark-sources";
+import {
+	aggregateBars,
+	createResolution,
+	getBarStartTime,
+	getIntervalLabel,
+	getResolutionSeconds,
+	parseInterval,
+	planResolution,
+	ResolutionPlan,
+} from "./resolution";
+import {
+	getExchangeCalendar,
+	getSessionAlignments,
+	getSessionBarStartTime,
+	getTradingSession,
+	getWeeklyHours,
+	isContinuousUtcSession,
+	isMarketOpen,
+	TradingSession,
+} from "./session";
+
+/** A channel without trades for this long is reported as stale */
+const STALE_CHANNEL_AFTER_MS = 60000;
+/** How often channels are checked for staleness */
+const STALE_CHECK_INTERVAL_MS = 5000;
+/** data_status reported while a channel is stale */
+const STALE_DATA_STATUS: DataStatus = "endofday";
+/** Re-read the server's clock after this long */
+const SERVER_TIME_MAX_AGE_MS = 10 * 60 * 1000;
+/** Live trades kept per channel to stitch onto fetched recent trades */
+const LIVE_TAPE_LIMIT = 1000;
+/** Interval a replay steps by unless the venue cannot build it */
+const REPLAY_DEFAULT_STEP = "1";
+/** Step bars a replay reveals per second unless told otherwise */
+const REPLAY_DEFAULT_SPEED = 1;
 
 type IResponse<T = any> = {
 	id: string;
@@ -17,53 +110,6 @@ type IResponse<T = any> = {
 	status: number;
 };
 
-// ============================================================================
-// Bybit API Response Types
-// ============================================================================
-
-/**
- * Bybit Kline (OHLCV) API response structure
- */
-type BybitKlineResponse = {
-	retCode: number;
-	retMsg: string;
-	result: {
-		symbol: string;
-		category: string;
-		list: [string, string, string, string, string, string, string][]; // [timestamp, open, high, low, close, volume, turnover]
-	};
-	retExtInfo: Record<string, unknown>;
-	time: number;
-};
-
-/**
- * Bybit WebSocket trade data structure
- */
-type BybitTradeData = {
-	/** Timestamp in milliseconds */
-	T: number;
-	/** Symbol */
-	s: string;
-	/** Side: "Buy" or "Sell" */
-	S: string;
-	/** Price */
-	p: string;
-	/** Trade ID */
-	i: string;
-	/** Size/Volume */
-	v: string;
-};
-
-/**
- * Bybit WebSocket message structure
- */
-type BybitWebSocketMessage = {
-	topic: string;
-	type: string;
-	data: BybitTradeData[];
-	ts?: number;
-};
-
 // ============================================================================
 // GoCharting API Response Types
 // ============================================================================
@@ -152,25 +198,15 @@ type GoChartingExactSearchItem = {
 // ============================================================================
 
 /**
- * Raw bar data structure (before UDF conversion)
- */
-type RawBar = {
-	time: number;
-	open: number;
-	high: number;
-	low: number;
-	close: number;
-	volume: number;
-	date?: string;
-};
-
-/**
- * Resolution conversion result
+ * Symbol info with the venue's order limits and contract dates, in unix
+ * seconds
  */
-type ResolutionInfo = {
-	scale: number;
-	units: string;
-	label: string;
+type InstrumentSymbolInfo = SymbolInfo & {
+	min_order_qty?: number;
+	max_order_qty?: number;
+	launch_time?: number | null;
+	/** Expiry; null for spot and perpetuals */
+	delivery_time?: number | null;
 };
 
 /**
@@ -188,6 +224,22 @@ type ExchangeInfoLookup = {
  */
 type RealtimeDataCallback = (data: Bar | TickData | TradeMessage | any) => void;
 
+/**
+ * What a streaming handler receives: raw trades (subscribeTicks) or
+ * OHLCV bars aggregated at the handler's resolution (subscribeBars)
+ */
+type StreamingMode = "ticks" | "bars";
+
+/**
+ * Bar built from live trades, with the quote notional traded in it
+ */
+type StreamingBar = Bar & { turnover?: number };
+
+/**
+ * UDF history response carrying each bar's turnover next to its volume
+ */
+type UDFTurnoverResponse = UDFResponse & { turnover?: number[] };
+
 /**
  * Streaming subscription handler
  */
@@ -197,6 +249,9 @@ type StreamingHandler = {
 	resolution: string | Resolution;
 	lastDailyBar: Bar | null | undefined;
 	onResetCacheNeededCallback?: (() => void) | null;
+	mode: StreamingMode;
+	/** Bar currently being built from trades (bars mode only) */
+	currentBar: StreamingBar | null;
 };
 
 /**
@@ -209,46 +264,63 @@ type SubscriptionItem = {
 	handlers: StreamingHandler[];
 	symbolInfo: SymbolInfo;
 	channelString: string;
+	/** Adapter serving the symbol */
+	adapter: ExchangeAdapter;
+	/** Socket the channel lives on; null for synthetic streams */
+	socketUrl: string | null;
+	/** Wall-clock time (ms) of the last trade seen on this channel */
+	lastTradeAt: number;
+	/** data_status to restore once trades resume after going stale */
+	liveDataStatus: DataStatus | null;
+	/** Sessions live bars are aligned to, matching resampled history */
+	session: TradingSession;
+	/** Latest live trades on the channel, oldest first */
+	liveTape: TradeMessage[];
 };
 
 /**
- * Trade message for real-time updates
+ * Receives the top levels of an order book after every update
  */
-type TradeMessage = {
-	type: string;
-	productId: string;
-	symbol: string;
-	exchange: string;
-	segment: string;
-	timeStamp: Date;
-	tradeID: string;
-	price: number;
-	quantity: number;
-	amount: number;
-	side: string;
-};
+type DepthCallback = (snapshot: DepthSnapshot) => void;
 
 /**
- * Demo socket type (mock WebSocket= )
+ * Order book subscription of one depth channel
  */
-type DemoSocket = {
-	readyState: number;
-	url: string;
-	send: (message: string) => void;
-	close: () => void;
-	addEventListener: (
-		event: string,
-		callback: (event?: unknown) => void
-	) => void;
+type DepthSubscription = {
+	symbolInfo: SymbolInfo;
+	channelString: string;
+	adapter: ExchangeAdapter;
+	/** Socket the channel lives on; null for synthetic books */
+	socketUrl: string | null;
+	book: OrderBook;
+	/** Levels each subscriber asked for */
+	listeners: Map<DepthCallback, number>;
+	/** Set while waiting for a fresh snapshot after a sequence gap */
+	resyncing: boolean;
+	/** Stops the synthetic book, if any */
+	stopSynthetic: (() => void) | null;
 };
 
 /**
- * Subscription request structure
+ * Listener notified when a channel goes stale or recovers
+ */
+type DataStatusListener = (
+	symbolInfo: SymbolInfo,
+	dataStatus: DataStatus
+) => void;
+
+/**
+ * Listener notified as a replay moves; null once it stops
+ */
+type ReplayListener = (state: ReplayState | null) => void;
+
+/**
+ * Replay of one symbol, with how its step bars are obtained
  */
-type SubscriptionRequest = {
-	op: string;
-	args: string[];
-	symbol?: string;
+type ReplaySession = {
+	symbolInfo: SymbolInfo;
+	stepPlan: ResolutionPlan;
+	player: ReplayPlayer;
 };
 
 /**
@@ -261,23 +333,18 @@ type MockSymbolData = {
 	logo_url: string;
 };
 
-/**
- * Bybit feed message structure for demo streaming
- */
-type BybitFeedMessage = {
-	topic?: string;
-	type?: string;
-	data?: BybitTradeData[];
-};
-
 /**
  * Datafeed configuration ready callback config
  */
-type DatafeedConfig = {
+export type DatafeedConfig = {
 	supported_resolutions: string[];
 	supports_marks: boolean;
 	supports_timescale_marks: boolean;
 	supports_time: boolean;
+	supports_search?: boolean;
+	supports_group_request?: boolean;
+	exchanges?: Array<{ value: string; name: string; desc: string }>;
+	symbols_types?: Array<{ name: string; value: string }>;
 };
 
 /**
@@ -302,11 +369,139 @@ type MockSearchResult = {
 	key: string;
 };
 
+/**
+ * Options for loading a CSV or JSON file as a LOCAL symbol
+ */
+export type LocalLoadOptions = LocalDataOptions & {
+	/** Symbol name; defaults to the file name, e.g. MYDATA for mydata.csv */
+	name?: string;
+	/** Description shown in search */
+	description?: string;
+};
+
+/**
+ * Options for startReplay
+ */
+export type ReplayOptions = {
+	/** Step bars revealed per second while playing; defaults to 1 */
+	speed?: number;
+	/**
+	 * Interval each step reveals, e.g. "5"; defaults to one minute, or the
+	 * symbol's finest interval when minutes cannot be built
+	 */
+	step?: string;
+};
+
+/**
+ * Options for createChartDatafeed
+ */
+export type ChartDatafeedOptions = {
+	/**
+	 * Extra exchange adapters. They take precedence over the built-in
+	 * Bybit and Binance adapters for the exchange prefixes they claim.
+	 */
+	adapters?: ExchangeAdapter[];
+	/** Bar cache settings, or false to always fetch from the adapter */
+	cache?: BarCacheOptions | false;
+	/** Market model and seed for generated demo data */
+	demo?: DemoGeneratorOptions;
+	/**
+	 * Extra event sources for getMarks and getTimescaleMarks, e.g. a
+	 * broker's fills. Funding settlements and NASDAQ corporate events are
+	 * built in.
+	 */
+	markSources?: MarkSource[];
+	/**
+	 * What chart volume measures per symbol, by full symbol name, e.g.
+	 * { "BYBIT:FUTURE:BTCUSDT": "quote" } for USDT notional
+	 */
+	volumeUnits?: Record<string, VolumeUnit>;
+	/** Volume unit of symbols missing from volumeUnits; defaults to "base" */
+	defaultVolumeUnit?: VolumeUnit;
+	/**
+	 * Roll rule and back-adjustment of continuous futures such as
+	 * BYBIT:FUTURE:BTC1!; defaults to rolling a day before expiry, unadjusted
+	 */
+	continuousFutures?: Partial<ContinuousOptions>;
+	/**
+	 * Configuration from a data server, merged over the defaults passed to
+	 * onReady. The defaults stand when it fails.
+	 */
+	getConfig?: () => Promise<Partial<DatafeedConfig>>;
+	/**
+	 * Skew-corrected clock, for sharing with adapters passed in; the
+	 * datafeed creates its own by default
+	 */
+	clock?: ServerClock;
+};
+
+/**
+ * Datafeed returned by createChartDatafeed: the SDK's Datafeed plus the
+ * methods an app drives it with
+ */
+export type ChartDatafeed = Datafeed & {
+	/** Closes sockets and stops timers and streams for good */
+	destroy: () => void;
+	/** Changes how continuous futures roll and adjust; their charts reload */
+	setContinuousOptions: (
+		continuousOptions: Partial<ContinuousOptions>
+	) => void;
+	/** Switches what a symbol's volume measures; its charts reload */
+	setVolumeUnit: (symbolName: string, volumeUnit: VolumeUnit) => void;
+	/** Registers CSV or JSON text as LOCAL:<name> */
+	loadLocalData: (
+		name: string,
+		text: string,
+		loadOptions?: LocalLoadOptions
+	) => Promise<SymbolInfo>;
+	/** Loads a file dropped onto or picked on the page as a LOCAL symbol */
+	loadLocalFile: (
+		file: File,
+		loadOptions?: LocalLoadOptions
+	) => Promise<SymbolInfo>;
+	/** Loads a file from a URL as a LOCAL symbol */
+	loadLocalUrl: (
+		url: string,
+		loadOptions?: LocalLoadOptions
+	) => Promise<SymbolInfo>;
+	/** Replays a symbol from startTime (unix seconds), paused */
+	startReplay: (
+		symbolName: string,
+		startTime: number,
+		replayOptions?: ReplayOptions
+	) => Promise<ReplayState>;
+	playReplay: () => void;
+	pauseReplay: () => void;
+	/** Reveals the next count step bars; resolves with how many were */
+	stepReplay: (count?: number) => Promise<number>;
+	/** Moves the replay cursor to a time (unix seconds) */
+	seekReplay: (time: number) => void;
+	setReplaySpeed: (speed: number) => void;
+	/** Ends the replay; its charts go back to live data */
+	stopReplay: () => void;
+	getReplayState: () => ReplayState | null;
+	/** Registers a replay listener; returns an unsubscribe function */
+	onReplayChange: (listener: ReplayListener) => () => void;
+	/** Registers a stale/recovered listener; returns an unsubscribe function */
+	onDataStatusChange: (listener: DataStatusListener) => () => void;
+};
+
 /**
  * Creates a demo datafeed for the GoCharting SDK
- * This datafeed supports both real Bybit data and generated demo data
+ * This datafeed supports real Bybit and Binance data and generated demo data
+ *
+ * Each symbol is routed by its exchange prefix to an ExchangeAdapter;
+ * exchanges without an adapter get generated demo data. CSV and JSON
+ * files loaded with loadLocalFile or loadLocalUrl chart as LOCAL:<name>.
+ * Symbol names written as arithmetic over other symbols, such as
+ * BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT or FORMULA:0.6*A + 0.4*B (bare
+ * tickers need the FORMULA: prefix), chart as formulas, and names such as
+ * BYBIT:FUTURE:BTC1! as continuous futures stitched from the venue's dated
+ * contracts.
+ * startReplay plays a symbol's history forward from a point in the past.
  *
- * @returns Datafeed object compatible with GoCharting SDK with additional destroy() method
+ * @param options - Optional extra exchange adapters, cache, demo data and volume unit settings
+ * @returns Datafeed object compatible with GoCharting SDK with additional destroy(), local file and replay methods
  *
  * @example
  * ```typescript
@@ -323,30 +518,132 @@ type MockSearchResult = {
  * datafeed.destroy();
  * ```
  */
-export const createChartDatafeed = (): Datafeed => {
+export const createChartDatafeed = (
+	options: ChartDatafeedOptions = {}
+): ChartDatafeed => {
+	// Skew-corrected clock shared with the built-in adapters
+	const clock = options.clock || createServerClock();
+	// Holds the files loaded as LOCAL symbols
+	const localAdapter = createLocalAdapter();
+	// Computes formula symbols from constituents served by this datafeed
+	const formulaAdapter: FormulaAdapter = createFormulaAdapter({
+		resolveSymbol: (symbolName) => datafeed.getSymbolInfo(symbolName),
+		getBars: (symbolInfo, resolutionInfo, periodParams, session) =>
+			datafeed.getConstituentBars(
+				symbolInfo,
+				resolutionInfo,
+				periodParams,
+				session
+			),
+		subscribeTrades: (symbolInfo, onTrade) =>
+			datafeed.subscribeConstituentTrades(symbolInfo, onTrade),
+	});
+	// Stitches continuous futures from contracts served by this datafeed
+	const continuousAdapter: ContinuousAdapter = createContinuousAdapter(
+		{
+			resolveSymbol: (symbolName) => datafeed.getSymbolInfo(symbolName),
+			getBars: (symbolInfo, resolutionInfo, periodParams, session) =>
+				datafeed.getConstituentBars(
+					symbolInfo,
+					resolutionInfo,
+					periodParams,
+					session
+				),
+			getDatedContracts: (symbolInfo, root) => {
+				const adapter = datafeed.getVenueAdapter(symbolInfo);
+				if (!adapter.getDatedContracts) {
+					throw new Error(
+						`${adapter.name} lists no dated contracts for ${symbolInfo.full_name}`
+					);
+				}
+				return adapter.getDatedContracts(symbolInfo, root);
+			},
+			subscribeTrades: (symbolInfo, onTrade) =>
+				datafeed.subscribeConstituentTrades(symbolInfo, onTrade),
+			resetSymbol: (symbolName) => {
+				// The contract held changed along with the history
+				datafeed.symbolCache.delete(symbolName);
+				datafeed.resetSymbolCharts(symbolName);
+			},
+		},
+		options.continuousFutures,
+		clock.now
+	);
+
 	const datafeed = {
+		clock,
 		symbolCache: new Map<string, SymbolInfo>(),
 		searchSymbolController: null as AbortController | null,
-		streamingIntervals: {} as Record<
-			string,
-			ReturnType<typeof setInterval>
-		>,
+		localAdapter,
+		formulaAdapter,
+		continuousAdapter,
+		adapters: [
+			formulaAdapter,
+			localAdapter,
+			...(options.adapters || []),
+			createBybitAdapter(clock.now),
+			createBinanceAdapter({ now: clock.now }),
+		] as ExchangeAdapter[],
+		fallbackAdapter: createDemoAdapter(options.demo, clock.now),
+		markSources: [
+			...(options.markSources || []),
+			createFundingMarkSource(),
+			createCorporateEventsMarkSource(),
+		] as MarkSource[],
+		barCache:
+			options.cache === false
+				? null
+				: (createBarCache(options.cache) as BarCache | null),
+		// Stop functions of synthetic streams, keyed by subscription key
+		syntheticStreams: {} as Record<string, () => void>,
 		channelToSubscription: null as Map<string, SubscriptionItem> | null,
-		demoSocket: null as WebSocket | DemoSocket | null,
+		// One socket per URL, shared by every channel served from it
+		sockets: new Map<string, ReconnectingSocket>(),
+		staleCheckInterval: null as ReturnType<typeof setInterval> | null,
+		dataStatusListeners: new Set<DataStatusListener>(),
+		// Newest bar served per symbol and resolution, for stream continuity
+		lastServedBars: new Map<string, RawBar>(),
+		// Order books, keyed like trade subscriptions
+		depthSubscriptions: new Map<string, DepthSubscription>(),
+		volumeUnits: new Map<string, VolumeUnit>(
+			Object.entries(options.volumeUnits || {})
+		),
+		defaultVolumeUnit: options.defaultVolumeUnit || "base",
+		replay: null as ReplaySession | null,
+		replayListeners: new Set<ReplayListener>(),
+		// Numbers the tick subscriptions formulas and continuous futures hold
+		// on their constituents
+		constituentSubscriptionCount: 0,
 
 		// Cleanup method to prevent memory leaks
 		destroy(): void {
-			// Clear all streaming intervals
-			Object.values(this.streamingIntervals).forEach((interval) => {
-				clearInterval(interval as ReturnType<typeof setInterval>);
-			});
-			this.streamingIntervals = {};
+			// Close the sockets for good so they stop reconnecting
+			this.sockets.forEach((socket) => socket.close());
+			this.sockets.clear();
+			this.channelToSubscription?.clear();
+			if (this.staleCheckInterval) {
+				clearInterval(this.staleCheckInterval);
+				this.staleCheckInterval = null;
+			}
+			this.dataStatusListeners.clear();
+			this.replay?.player.stop();
+			this.replay = null;
+			this.replayListeners.clear();
+			// Stop all synthetic streams
+			Object.values(this.syntheticStreams).forEach((stop) => stop());
+			this.syntheticStreams = {};
+			this.depthSubscriptions.forEach(
+				(depthSubscription: DepthSubscription) =>
+					depthSubscription.stopSynthetic?.()
+			);
+			this.depthSubscriptions.clear();
 			// Abort any pending search requests
 			if (this.searchSymbolController) {
 				this.searchSymbolController.abort();
 			}
 			// Clear symbol cache
 			this.symbolCache.clear();
+			this.lastServedBars.clear();
 		},
 
 		async getBars(
@@ -354,157 +651,938 @@ export const createChartDatafeed = (): Datafeed => {
 			resolution: string | Resolution,
 			periodParams: PeriodParams
 		): Promise<BarsResult | UDFResponse> {
-			const { from, to } = periodParams;
+			// Unsupported intervals are rejected rather than served as demo data
+			const resolutionInfo = this.normalizeResolution(resolution);
+			const adapter = this.getAdapter(symbolInfo);
+			const session = getTradingSession(symbolInfo);
+			const plan = this.getResolutionPlan(
+				adapter,
+				symbolInfo,
+				resolutionInfo,
+				session
+			);
 			try {
-				let rawBars: RawBar[] = [];
-				// Try to use real Bybit API for BYBIT symbols, fallback to demo data
-				if (symbolInfo.exchange === "BYBIT") {
-					rawBars = await this.getBybitBars(
-						symbolInfo,
-						resolution,
-						periodParams
-					);
-				} else {
-					// Generate demo data for other symbols or as fallback
-					// Convert timestamps to Date objects if needed
-					const fromDate =
-						typeof from === "number" ? new Date(from * 1000) : from;
-					const toDate =
-						typeof to === "number" ? new Date(to * 1000) : to;
-					rawBars = this.generateDemoData(
-						fromDate,
-						toDate,
-						resolution,
-						symbolInfo
-					);
-				}
+				// A replayed symbol only shows history up to its cursor
+				const { bars: rawBars, nextTime } = this.isReplaying(symbolInfo)
+					? await this.getReplayBars(
+							adapter,
+							symbolInfo,
+							plan,
+							session,
+							periodParams
+						)
+					: await this.getPlannedBars(
+							adapter,
+							symbolInfo,
+							plan,
+							session,
+							periodParams
+						);
+				this.rememberLastBar(symbolInfo, resolutionInfo, rawBars);
 				// Convert to UDF format
-				const udfData = this.convertToUDFFormat(rawBars);
+				const udfData = this.convertToUDFFormat(
+					rawBars,
+					nextTime,
+					this.getVolumeUnit(symbolInfo)
+				);
 				return udfData;
 			} catch (error) {
 				console.error("❌ [DemoDatafeed] getBars failed:", error);
-				// Fallback to demo data on error
-				// Convert timestamps to Date objects if needed
-				const fromDate =
-					typeof from === "number" ? new Date(from * 1000) : from;
-				const toDate =
-					typeof to === "number" ? new Date(to * 1000) : to;
-				const rawBars = this.generateDemoData(
-					fromDate,
-					toDate,
-					resolution,
-					symbolInfo
+				// A real venue's failure is reported, never covered up with
+				// generated prices, nor is a replay's, which would show bars
+				// past its cursor
+				if (
+					adapter !== this.fallbackAdapter ||
+					this.isReplaying(symbolInfo)
+				) {
+					return {
+						s: "error" as const,
+						errmsg: `Failed to fetch data: ${
+							error instanceof Error
+								? error.message
+								: String(error)
+						}`,
+					};
+				}
+				// Demo symbols fall back to plain generated bars
+				const { bars: rawBars } = await this.fallbackAdapter.getBars(
+					symbolInfo,
+					resolutionInfo,
+					periodParams
+				);
+				this.rememberLastBar(symbolInfo, resolutionInfo, rawBars);
+				const udfData = this.convertToUDFFormat(
+					rawBars,
+					null,
+					this.getVolumeUnit(symbolInfo)
 				);
-				const udfData = this.convertToUDFFormat(rawBars);
 				return udfData;
 			}
 		},
 
-		// Convert raw bars to UDF format
-		convertToUDFFormat(rawBars: RawBar[]): BarsResult | UDFResponse {
-			if (!rawBars || rawBars.length === 0) {
-				return {
-					s: "no_data" as const,
-					nextTime: null,
-				};
+		// How bars at a resolution are obtained from the adapter: natively,
+		// or built along the symbol's sessions from a native interval
+		getResolutionPlan(
+			adapter: ExchangeAdapter,
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo,
+			session: TradingSession
+		): ResolutionPlan {
+			return planResolution(
+				resolutionInfo,
+				adapter.getNativeIntervals
+					? adapter.getNativeIntervals(symbolInfo)
+					: adapter.nativeIntervals,
+				isContinuousUtcSession(session)
+					? undefined
+					: getSessionAlignments(session)
+			);
+		},
+
+		// Bars at the requested resolution. Intervals the venue lacks are
+		// aggregated from the plan's base interval along the symbol's
+		// sessions, fetched from the start of the first requested bar so it
+		// is complete.
+		async getPlannedBars(
+			adapter: ExchangeAdapter,
+			symbolInfo: SymbolInfo,
+			plan: ResolutionPlan,
+			session: TradingSession,
+			periodParams: PeriodParams & { countBack?: number }
+		): Promise<AdapterBarsResult> {
+			const { target, base, factor } = plan;
+			if (base === target || factor === 1) {
+				return this.getSeriesBars(
+					adapter,
+					symbolInfo,
+					base,
+					periodParams
+				);
 			}
-			const t: number[] = []; // time
-			const o: number[] = []; // open
-			const h: number[] = []; // high
-			const l: number[] = []; // low
-			const c: number[] = []; // close
-			const v: number[] = []; // volume
-			rawBars.forEach((bar: RawBar) => {
-				// Handle different time formats
-				let timestamp: number;
-				if (bar.time) {
-					timestamp =
-						typeof bar.time === "number"
-							? bar.time
-							: Math.floor(new Date(bar.time).getTime() / 1000);
-				} else if (bar.date) {
-					timestamp = Math.floor(new Date(bar.date).getTime() / 1000);
-				} else {
-					console.warn("Bar missing time/date:", bar);
-					return;
+
+			// Base bars of a day or longer are stamped with their date
+			const isDateBar = getResolutionSeconds(base) >= 86400;
+			const getBucket = (time: number) =>
+				getSessionBarStartTime(time, target, session, isDateBar);
+			const { from, rows, countBack } = periodParams;
+			const fromTime =
+				typeof from === "number"
+					? from
+					: Math.floor((from as Date).getTime() / 1000);
+			const { bars, nextTime } = await this.getSeriesBars(
+				adapter,
+				symbolInfo,
+				base,
+				{
+					...periodParams,
+					from: getSessionBarStartTime(fromTime, target, session),
+					rows: rows ? Math.ceil(rows * factor) : rows,
+					countBack: countBack
+						? Math.ceil(countBack * factor)
+						: countBack,
 				}
-				t.push(timestamp);
-				o.push(Number(bar.open));
-				h.push(Number(bar.high));
-				l.push(Number(bar.low));
-				c.push(Number(bar.close));
-				v.push(Number(bar.volume || 0));
-			});
+			);
 			return {
-				s: "ok" as const,
-				t,
-				o,
-				h,
-				l,
-				c,
-				v,
+				bars: aggregateBars(bars, target, getBucket),
+				nextTime:
+					typeof nextTime === "number"
+						? getBucket(nextTime)
+						: nextTime,
 			};
 		},
 
-		async resolveSymbol(
-			symbolName: string,
-			onResolve: (symbolInfo: SymbolInfo) => void,
-			onError: (error: string) => void
-		): Promise<void> {
-			try {
-				// Check cache first
-				if (this.symbolCache.has(symbolName)) {
-					const cachedSymbolInfo = this.symbolCache.get(symbolName);
-					if (cachedSymbolInfo) {
-						onResolve(cachedSymbolInfo);
-						return;
-					}
+		// Bars of a replayed symbol up to the replay cursor. Requests reaching
+		// past the cursor are shifted back to end there, and the bar the
+		// cursor is inside is rebuilt from the step bars revealed so far.
+		async getReplayBars(
+			adapter: ExchangeAdapter,
+			symbolInfo: SymbolInfo,
+			plan: ResolutionPlan,
+			session: TradingSession,
+			periodParams: PeriodParams & { countBack?: number }
+		): Promise<AdapterBarsResult> {
+			const { stepPlan, player } = this.replay as ReplaySession;
+			const { cursor } = player.getState();
+			const { from, to, rows, countBack, firstDataRequest } =
+				periodParams;
+			const fromTime =
+				typeof from === "number"
+					? from
+					: Math.floor((from as Date).getTime() / 1000);
+			const toTime =
+				typeof to === "number"
+					? to
+					: Math.floor((to as Date).getTime() / 1000);
+			const shift = Math.max(0, toTime - (cursor - 1));
+			// Venues answer a first request with the latest bars, so it is
+			// asked as a range ending at the cursor
+			const { bars, nextTime } = await this.getPlannedBars(
+				adapter,
+				symbolInfo,
+				plan,
+				session,
+				{
+					...periodParams,
+					from: fromTime - shift,
+					to: toTime - shift,
+					firstDataRequest: false,
+					countBack:
+						countBack || (firstDataRequest ? rows : undefined),
 				}
-				// Try to use real GoCharting API for symbol resolution
-				try {
-					const symbolInfo =
-						await this.resolveSymbolFromAPI(symbolName);
-					this.symbolCache.set(symbolName, symbolInfo);
-					onResolve(symbolInfo);
-					return;
-				} catch (apiError) {
+			);
+			const revealed = bars.filter((bar: RawBar) => bar.time < cursor);
+
+			const stepSeconds = getResolutionSeconds(stepPlan.target);
+			const isDateBar = stepSeconds >= 86400;
+			const getBucket = (time: number) =>
+				getSessionBarStartTime(time, plan.target, session, isDateBar);
+			const partialStart = getBucket(cursor - stepSeconds);
+			if (
+				getResolutionSeconds(plan.target) <= stepSeconds ||
+				toTime - shift < partialStart
+			) {
+				return {
+					bars: revealed,
+					nextTime: revealed.length ? undefined : nextTime,
+				};
+			}
+
+			const { bars: stepBars } = await this.getPlannedBars(
+				adapter,
+				symbolInfo,
+				stepPlan,
+				session,
+				{
+					...periodParams,
+					from: partialStart,
+					to: cursor - 1,
+					firstDataRequest: false,
+					countBack: undefined,
 				}
-				// Fallback to local symbol resolution
-				const symbolInfo = this.resolveSymbolLocally(symbolName);
-				this.symbolCache.set(symbolName, symbolInfo);
-				onResolve(symbolInfo);
-			} catch (error) {
-				console.error(
-					"❌ [DemoDatafeed] Error resolving symbol:",
-					error
+			);
+			const served = [
+				...revealed.filter((bar: RawBar) => bar.time < partialStart),
+				...aggregateBars(
+					stepBars.filter(
+						(bar: RawBar) =>
+							bar.time >= partialStart && bar.time < cursor
+					),
+					plan.target,
+					getBucket
+				),
+			];
+			return {
+				bars: served,
+				nextTime: served.length ? undefined : nextTime,
+			};
+		},
+
+		// Bars of a formula's constituent or a continuous future's contract,
+		// built along the given session so they line up with the others
+		getConstituentBars(
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo,
+			periodParams: PeriodParams & { countBack?: number },
+			session: TradingSession
+		): Promise<AdapterBarsResult> {
+			const adapter = this.getAdapter(symbolInfo);
+			return this.getPlannedBars(
+				adapter,
+				symbolInfo,
+				this.getResolutionPlan(
+					adapter,
+					symbolInfo,
+					resolutionInfo,
+					session
+				),
+				session,
+				periodParams
+			);
+		},
+
+		// Bars from the adapter at one of its native intervals, through the
+		// cache when it is enabled
+		getSeriesBars(
+			adapter: ExchangeAdapter,
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo,
+			periodParams: PeriodParams & { countBack?: number }
+		): Promise<AdapterBarsResult> {
+			if (!this.barCache || adapter.cache === false) {
+				return adapter.getBars(
+					symbolInfo,
+					resolutionInfo,
+					periodParams
 				);
-				onError("Failed to resolve symbol");
 			}
+			return this.getCachedBars(
+				adapter,
+				symbolInfo,
+				resolutionInfo,
+				periodParams
+			);
 		},
 
-		async resolveSymbolFromAPI(symbolName: string): Promise<SymbolInfo> {
-			const url = "https://gocharting.com/sdk/instruments/exactSearch";
-			const params: Record<string, string> = {
-				q: symbolName,
+		// Serve bars from the cache, fetching only the ranges it is missing.
+		// The bar still in progress is never marked as covered, so the right
+		// edge is refetched on every request.
+		async getCachedBars(
+			adapter: ExchangeAdapter,
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo,
+			periodParams: PeriodParams & { countBack?: number }
+		): Promise<AdapterBarsResult> {
+			const barCache = this.barCache as BarCache;
+			const { from, to, countBack } = periodParams;
+			const range: TimeRange = {
+				from:
+					typeof from === "number"
+						? from
+						: Math.floor((from as Date).getTime() / 1000),
+				to:
+					typeof to === "number"
+						? to
+						: Math.floor((to as Date).getTime() / 1000),
 			};
-			const urlWithParams = new URL(url);
-			Object.keys(params).forEach((key) =>
-				urlWithParams.searchParams.append(key, params[key])
+			const cacheKey = this.getSeriesKey(symbolInfo, resolutionInfo);
+			const liveBarStart = getBarStartTime(
+				Math.floor(this.clock.now() / 1000),
+				resolutionInfo
 			);
-			const res = await fetch(urlWithParams);
+
+			const missing = await barCache.getMissingRanges(cacheKey, range);
+			let nextTime: number | null | undefined;
+			for (const missingRange of missing) {
+				const isWholeRequest =
+					missingRange.from === range.from &&
+					missingRange.to === range.to;
+				const result = await adapter.getBars(
+					symbolInfo,
+					resolutionInfo,
+					// Nothing cached yet: let the adapter see the original request
+					isWholeRequest
+						? periodParams
+						: {
+								...periodParams,
+								from: missingRange.from,
+								to: missingRange.to,
+								firstDataRequest: false,
+								countBack: undefined,
+							}
+				);
+				nextTime = result.nextTime;
+				// Paging that stopped short leaves the older part missing
+				const loadedFrom =
+					result.bars.length && typeof result.nextTime === "number"
+						? Math.max(missingRange.from, result.bars[0].time)
+						: missingRange.from;
+				await barCache.put(
+					cacheKey,
+					{
+						from: loadedFrom,
+						to: Math.min(missingRange.to, liveBarStart - 1),
+					},
+					result.bars
+				);
+			}
+
+			const bars = await barCache.getBars(cacheKey, range, countBack);
+			return { bars, nextTime: bars.length ? undefined : nextTime };
+		},
+
+		// Key identifying one symbol at one resolution from one source, as
+		// the cache outlives the datafeed and its adapters
+		getSeriesKey(
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo
+		): string {
+			const adapter = this.getAdapter(symbolInfo);
+			return `${adapter.cacheScope || adapter.name}|${
+				symbolInfo.full_name || symbolInfo.symbol
+			}|${resolutionInfo.scale}${resolutionInfo.units}`;
+		},
+
+		// Keep the newest bar served for a series; older pages leave it alone
+		rememberLastBar(
+			symbolInfo: SymbolInfo,
+			resolutionInfo: ResolutionInfo,
+			rawBars: RawBar[]
+		) {
+			const lastBar = rawBars[rawBars.length - 1];
+			if (!lastBar) return;
+			const key = this.getSeriesKey(symbolInfo, resolutionInfo);
+			const remembered = this.lastServedBars.get(key);
+			if (!remembered || lastBar.time >= remembered.time) {
+				this.lastServedBars.set(key, lastBar);
+			}
+		},
+
+		// Adapter serving the symbol: the continuous adapter for continuous
+		// futures of venues listing dated contracts, else the venue's
+		getAdapter(symbolInfo: SymbolInfo): ExchangeAdapter {
+			const adapter = this.getVenueAdapter(symbolInfo);
+			return adapter.getDatedContracts && getContinuousSymbol(symbolInfo)
+				? this.continuousAdapter
+				: adapter;
+		},
+
+		// Adapter serving the symbol's exchange prefix
+		getVenueAdapter(symbolInfo: SymbolInfo): ExchangeAdapter {
+			return findAdapter(this.adapters, symbolInfo, this.fallbackAdapter);
+		},
+
+		// Change how continuous futures roll and adjust. Charts showing one
+		// are asked to reload their bars.
+		setContinuousOptions(continuousOptions: Partial<ContinuousOptions>) {
+			this.continuousAdapter.setOptions(continuousOptions);
+			this.channelToSubscription?.forEach(
+				(subscriptionItem: SubscriptionItem) => {
+					if (
+						this.getAdapter(subscriptionItem.symbolInfo) ===
+						this.continuousAdapter
+					) {
+						this.resetSymbolCharts(
+							subscriptionItem.symbolInfo.full_name
+						);
+					}
+				}
+			);
+		},
+
+		// Volume unit chosen for a symbol
+		getVolumeUnit(symbolInfo: SymbolInfo): VolumeUnit {
+			return (
+				this.volumeUnits.get(symbolInfo.full_name) ||
+				this.defaultVolumeUnit
+			);
+		},
+
+		// Switch what a symbol's volume measures. Charts showing the symbol
+		// are asked to reload their bars in the new unit.
+		setVolumeUnit(symbolName: string, volumeUnit: VolumeUnit) {
+			this.volumeUnits.set(symbolName, volumeUnit);
+			this.resetSymbolCharts(symbolName);
+		},
+
+		// Ask charts streaming a symbol to reload its bars
+		resetSymbolCharts(symbolName: string) {
+			this.channelToSubscription?.forEach(
+				(subscriptionItem: SubscriptionItem) => {
+					if (subscriptionItem.symbolInfo.full_name !== symbolName) {
+						return;
+					}
+					subscriptionItem.handlers.forEach(
+						(handler: StreamingHandler) => {
+							handler.currentBar = null;
+							handler.onResetCacheNeededCallback?.();
+						}
+					);
+				}
+			);
+		},
+
+		// Register CSV or JSON text as LOCAL:<name>, replacing a file loaded
+		// under the same name; charts showing it reload. Throws when no bars
+		// can be read.
+		async loadLocalData(
+			name: string,
+			text: string,
+			loadOptions: LocalLoadOptions = {}
+		): Promise<SymbolInfo> {
+			const series = parseLocalData(text, loadOptions);
+			const symbolName = this.localAdapter.addSeries(
+				toLocalSymbolName(loadOptions.name || name),
+				series,
+				loadOptions.description
+			);
+			this.symbolCache.delete(symbolName);
+			this.resetSymbolCharts(symbolName);
+			return this.resolveSymbolInfo(symbolName);
+		},
+
+		// Load a file dropped onto or picked on the page
+		async loadLocalFile(
+			file: File,
+			loadOptions: LocalLoadOptions = {}
+		): Promise<SymbolInfo> {
+			return this.loadLocalData(
+				file.name,
+				await file.text(),
+				loadOptions
+			);
+		},
+
+		// Load a file from a URL, named after its last path segment
+		async loadLocalUrl(
+			url: string,
+			loadOptions: LocalLoadOptions = {}
+		): Promise<SymbolInfo> {
+			const res = await fetch(url);
 			if (!res.ok) {
 				throw new Error(`HTTP ${res.status}: ${res.statusText}`);
 			}
-			const data =
-				(await res.json()) as IResponse<GoChartingExactSearchResponse>;
-			if (data.status === 200 && data.payload?.results?.length > 0) {
-				const result = data.payload.results[0];
-				const symbolInfo: SymbolInfo = {
-					symbol: result.symbol,
-					full_name: `${result.exchange}:${result.segment}:${result.symbol}`,
-					description: result.name,
-					exchange: result.exchange,
-					type: result.asset_type.toLowerCase(),
+			return this.loadLocalData(
+				url.split(/[?#]/)[0],
+				await res.text(),
+				loadOptions
+			);
+		},
+
+		// Replay a symbol from startTime (unix seconds). Its charts reload with
+		// history up to the replay cursor and, as the replay plays, their
+		// subscriptions get the following bars as trades in place of live
+		// ones. Replaces any replay in progress and starts paused.
+		async startReplay(
+			symbolName: string,
+			startTime: number,
+			replayOptions: ReplayOptions = {}
+		): Promise<ReplayState> {
+			if (startTime * 1000 >= this.clock.now()) {
+				throw new Error("A replay must start in the past");
+			}
+			const replayedInfo = await this.getSymbolInfo(symbolName);
+			const adapter = this.getAdapter(replayedInfo);
+			const session = getTradingSession(replayedInfo);
+			const stepPlan = this.getReplayStepPlan(
+				adapter,
+				replayedInfo,
+				session,
+				replayOptions.step
+			);
+
+			const player = createReplayPlayer({
+				symbol: replayedInfo.full_name,
+				step: stepPlan.target,
+				startTime,
+				speed: replayOptions.speed ?? REPLAY_DEFAULT_SPEED,
+				now: this.clock.now,
+				loadBars: async (from: number, to: number) => {
+					const { bars } = await this.getPlannedBars(
+						adapter,
+						replayedInfo,
+						stepPlan,
+						session,
+						{ from, to, firstDataRequest: false } as PeriodParams
+					);
+					return bars;
+				},
+				onBar: (bar: RawBar) => this.dispatchReplayBar(bar),
+				onChange: (state: ReplayState) =>
+					this.notifyReplayListeners(state),
+				onError: (error: unknown) =>
+					console.error(
+						"❌ [DemoDatafeed] Replay failed to load bars:",
+						error
+					),
+			});
+			this.stopReplay();
+			this.replay = { symbolInfo: replayedInfo, stepPlan, player };
+			this.resetReplayedSymbol(replayedInfo.full_name);
+			const state = player.getState();
+			this.notifyReplayListeners(state);
+			return state;
+		},
+
+		// Step bars of a replay: the interval asked for, else one minute when
+		// the venue can build it, else the symbol's finest native interval
+		getReplayStepPlan(
+			adapter: ExchangeAdapter,
+			symbolInfo: SymbolInfo,
+			session: TradingSession,
+			step?: string
+		): ResolutionPlan {
+			try {
+				return this.getResolutionPlan(
+					adapter,
+					symbolInfo,
+					parseInterval(step || REPLAY_DEFAULT_STEP),
+					session
+				);
+			} catch (error) {
+				if (step) throw error;
+			}
+			const natives: string[] = (adapter.getNativeIntervals
+				? adapter.getNativeIntervals(symbolInfo)
+				: adapter.nativeIntervals) || [REPLAY_DEFAULT_STEP];
+			const finest = natives
+				.map(parseInterval)
+				.sort(
+					(a, b) => getResolutionSeconds(a) - getResolutionSeconds(b)
+				)[0];
+			return this.getResolutionPlan(adapter, symbolInfo, finest, session);
+		},
+
+		playReplay() {
+			this.replay?.player.play();
+		},
+
+		pauseReplay() {
+			this.replay?.player.pause();
+		},
+
+		// Reveal the next count step bars, whether playing or paused.
+		// Resolves with how many were revealed.
+		stepReplay(count = 1): Promise<number> {
+			return this.replay
+				? this.replay.player.step(count)
+				: Promise.resolve(0);
+		},
+
+		// Move the replay cursor to a time (unix seconds); charts of the
+		// symbol reload up to it
+		seekReplay(time: number) {
+			if (!this.replay) {
+				return;
+			}
+			if (time * 1000 >= this.clock.now()) {
+				throw new Error("A replay cannot seek past the present");
+			}
+			this.replay.player.seek(time);
+			this.resetReplayedSymbol(this.replay.symbolInfo.full_name);
+		},
+
+		setReplaySpeed(speed: number) {
+			this.replay?.player.setSpeed(speed);
+		},
+
+		// End the replay; charts of the symbol reload live history and go
+		// back to live trades
+		stopReplay() {
+			const replay = this.replay;
+			if (!replay) {
+				return;
+			}
+			replay.player.stop();
+			this.replay = null;
+			this.resetReplayedSymbol(replay.symbolInfo.full_name);
+			this.notifyReplayListeners(null);
+		},
+
+		getReplayState(): ReplayState | null {
+			return this.replay ? this.replay.player.getState() : null;
+		},
+
+		// Register a listener for replay progress. Returns an unsubscribe
+		// function.
+		onReplayChange(listener: ReplayListener): () => void {
+			this.replayListeners.add(listener);
+			return () => {
+				this.replayListeners.delete(listener);
+			};
+		},
+
+		notifyReplayListeners(state: ReplayState | null) {
+			this.replayListeners.forEach((listener: ReplayListener) => {
+				try {
+					listener(state);
+				} catch (error) {
+					console.error(
+						"❌ [DemoDatafeed] Error in replay listener:",
+						error
+					);
+				}
+			});
+		},
+
+		isReplaying(symbolInfo: SymbolInfo): boolean {
+			return (
+				!!this.replay &&
+				this.replay.symbolInfo.full_name === symbolInfo.full_name
+			);
+		},
+
+		// Forget the bars served and trades streamed for a symbol whose
+		// replay cursor jumped, and have its charts reload
+		resetReplayedSymbol(symbolName: string) {
+			Array.from(this.lastServedBars.keys()).forEach((key: string) => {
+				if (key.startsWith(`${symbolName}|`)) {
+					this.lastServedBars.delete(key);
+				}
+			});
+			this.channelToSubscription?.forEach(
+				(subscriptionItem: SubscriptionItem) => {
+					if (subscriptionItem.symbolInfo.full_name === symbolName) {
+						subscriptionItem.liveTape = [];
+					}
+				}
+			);
+			this.resetSymbolCharts(symbolName);
+		},
+
+		// Stream a revealed step bar to the replayed symbol's subscriptions
+		// as trades
+		dispatchReplayBar(bar: RawBar) {
+			if (!this.replay) {
+				return;
+			}
+			const { symbolInfo, stepPlan } = this.replay;
+			const trades = getReplayTrades(
+				bar,
+				symbolInfo,
+				getResolutionSeconds(stepPlan.target)
+			);
+			this.channelToSubscription?.forEach(
+				(subscriptionItem: SubscriptionItem) => {
+					if (!this.isReplaying(subscriptionItem.symbolInfo)) {
+						return;
+					}
+					trades.forEach((tradeMessage: TradeMessage) =>
+						this.dispatchTrade(subscriptionItem, tradeMessage)
+					);
+				}
+			);
+		},
+
+		// Newest bar served to charts of a symbol at a resolution, as a
+		// streaming bar in the symbol's volume unit, or null when none was
+		getServedBar(
+			symbolInfo: SymbolInfo,
+			resolution: string | Resolution
+		): StreamingBar | null {
+			const lastBar = this.lastServedBars.get(
+				this.getSeriesKey(
+					symbolInfo,
+					this.normalizeResolution(resolution)
+				)
+			);
+			if (!lastBar) {
+				return null;
+			}
+			const turnover = this.getBarTurnover(lastBar);
+			return {
+				time: lastBar.time,
+				open: lastBar.open,
+				high: lastBar.high,
+				low: lastBar.low,
+				close: lastBar.close,
+				volume:
+					this.getVolumeUnit(symbolInfo) === "quote"
+						? turnover
+						: lastBar.volume,
+				turnover,
+			};
+		},
+
+		// Quote notional of a bar; venues without turnover get the volume
+		// valued at the close
+		getBarTurnover(bar: RawBar): number {
+			return bar.turnover ?? Number(bar.volume || 0) * Number(bar.close);
+		},
+
+		// Convert raw bars to UDF format, with volume in the given unit
+		convertToUDFFormat(
+			rawBars: RawBar[],
+			nextTime: number | null | undefined,
+			volumeUnit: VolumeUnit = "base"
+		): BarsResult | UDFTurnoverResponse {
+			if (!rawBars || rawBars.length === 0) {
+				// Without a nextTime the chart keeps scrolling back; null
+				// tells it there is no older data
+				return nextTime === undefined
+					? { s: "no_data" as const }
+					: { s: "no_data" as const, nextTime };
+			}
+			const t: number[] = []; // time
+			const o: number[] = []; // open
+			const h: number[] = []; // high
+			const l: number[] = []; // low
+			const c: number[] = []; // close
+			const v: number[] = []; // volume
+			const turnover: number[] = []; // quote volume
+			rawBars.forEach((bar: RawBar) => {
+				// Handle different time formats
+				let timestamp: number;
+				if (bar.time) {
+					timestamp =
+						typeof bar.time === "number"
+							? bar.time
+							: Math.floor(new Date(bar.time).getTime() / 1000);
+				} else if (bar.date) {
+					timestamp = Math.floor(new Date(bar.date).getTime() / 1000);
+				} else {
+					console.warn("Bar missing time/date:", bar);
+					return;
+				}
+				t.push(timestamp);
+				o.push(Number(bar.open));
+				h.push(Number(bar.high));
+				l.push(Number(bar.low));
+				c.push(Number(bar.close));
+				const barTurnover = this.getBarTurnover(bar);
+				v.push(
+					volumeUnit === "quote"
+						? barTurnover
+						: Number(bar.volume || 0)
+				);
+				turnover.push(barTurnover);
+			});
+			return {
+				s: "ok" as const,
+				t,
+				o,
+				h,
+				l,
+				c,
+				v,
+				turnover,
+			};
+		},
+
+		async resolveSymbol(
+			symbolName: string,
+			onResolve: (symbolInfo: SymbolInfo) => void,
+			onError: (error: string) => void
+		): Promise<void> {
+			try {
+				onResolve(await this.getSymbolInfo(symbolName));
+			} catch (error) {
+				console.error(
+					"❌ [DemoDatafeed] Error resolving symbol:",
+					error
+				);
+				onError("Failed to resolve symbol");
+			}
+		},
+
+		// Symbol info of any symbol name, cached by name. Formulas
+		// (FORMULA:BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT) build on their
+		// constituents and derived series (BYBIT:FUTURE:BTCUSDT#OI) on their
+		// symbol.
+		async getSymbolInfo(symbolName: string): Promise<SymbolInfo> {
+			const cachedSymbolInfo = this.symbolCache.get(symbolName);
+			if (cachedSymbolInfo) {
+				return cachedSymbolInfo;
+			}
+			let symbolInfo: SymbolInfo;
+			if (parseFormulaSymbol(symbolName)) {
+				symbolInfo =
+					await this.formulaAdapter.resolveSymbol(symbolName);
+			} else {
+				const derived = parseDerivedSymbol(symbolName);
+				symbolInfo = derived
+					? await this.resolveDerivedSymbol(derived)
+					: await this.resolveSymbolInfo(symbolName);
+			}
+			this.symbolCache.set(symbolName, symbolInfo);
+			return symbolInfo;
+		},
+
+		// Symbol info of a derived series, from its resolved underlying. Only
+		// Bybit perpetuals and futures publish these series.
+		async resolveDerivedSymbol(
+			derived: DerivedSymbol
+		): Promise<SymbolInfo> {
+			const { underlying, series } = derived;
+			const underlyingInfo = await this.getSymbolInfo(underlying);
+			const category = getBybitCategory(underlyingInfo);
+			if (
+				getExchangePrefix(underlyingInfo) !== "BYBIT" ||
+				(category !== "linear" && category !== "inverse")
+			) {
+				throw new Error(
+					`${series} is only available for Bybit futures, not ${underlying}`
+				);
+			}
+			return createDerivedSymbolInfo(underlyingInfo, series);
+		},
+
+		// Symbol info from the venue's symbol service when its adapter has
+		// one, else from the GoCharting API falling back to local resolution,
+		// with contract details from the venue when it lists them
+		async resolveSymbolInfo(symbolName: string): Promise<SymbolInfo> {
+			const adapter = this.getAdapter({
+				full_name: symbolName,
+			} as SymbolInfo);
+			if (adapter.resolveSymbol) {
+				return this.enrichSymbolInfo(
+					await adapter.resolveSymbol(symbolName)
+				);
+			}
+			let symbolInfo: SymbolInfo;
+			try {
+				symbolInfo = await this.resolveSymbolFromAPI(symbolName);
+			} catch (apiError) {
+				symbolInfo = this.resolveSymbolLocally(symbolName);
+			}
+			return this.enrichSymbolInfo(symbolInfo);
+		},
+
+		// Replace estimated precision with the venue's listing. Offline, the
+		// estimates from resolveSymbolLocally stay.
+		async enrichSymbolInfo(symbolInfo: SymbolInfo): Promise<SymbolInfo> {
+			const adapter = this.getAdapter(symbolInfo);
+			if (!adapter.getInstrumentInfo) {
+				return symbolInfo;
+			}
+			let instrument: InstrumentInfo | null;
+			try {
+				instrument = await adapter.getInstrumentInfo(symbolInfo);
+			} catch (error) {
+				console.warn(
+					"⚠️ [DemoDatafeed] Instrument details unavailable, using estimates:",
+					error
+				);
+				return symbolInfo;
+			}
+			if (!instrument) {
+				return symbolInfo;
+			}
+
+			const volumePrecision = this.getStepDecimals(instrument.qtyStep);
+			const enriched: InstrumentSymbolInfo = {
+				...symbolInfo,
+				tick_size: instrument.tickSize,
+				display_tick_size: instrument.tickSize,
+				max_tick_precision: this.getStepDecimals(instrument.tickSize),
+				volume_size_increment: instrument.qtyStep,
+				volume_precision: volumePrecision,
+				max_volume_precision: volumePrecision,
+				contract_size: instrument.contractSize,
+				quote_currency: instrument.quoteCurrency,
+				min_order_qty: instrument.minOrderQty,
+				max_order_qty: instrument.maxOrderQty,
+				launch_time: instrument.launchTime
+					? Math.floor(instrument.launchTime / 1000)
+					: null,
+				delivery_time: instrument.deliveryTime
+					? Math.floor(instrument.deliveryTime / 1000)
+					: null,
+			};
+			return enriched;
+		},
+
+		// Decimal places of a price or quantity step (0.0025 -> 4)
+		getStepDecimals(step: number): number {
+			const [, fraction = ""] = step
+				.toFixed(12)
+				.replace(/0+$/, "")
+				.split(".");
+			return fraction.length;
+		},
+
+		async resolveSymbolFromAPI(symbolName: string): Promise<SymbolInfo> {
+			const url = "https://gocharting.com/sdk/instruments/exactSearch";
+			const params: Record<string, string> = {
+				q: symbolName,
+			};
+			const urlWithParams = new URL(url);
+			Object.keys(params).forEach((key) =>
+				urlWithParams.searchParams.append(key, params[key])
+			);
+			const res = await fetch(urlWithParams);
+			if (!res.ok) {
+				throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+			}
+			const data =
+				(await res.json()) as IResponse<GoChartingExactSearchResponse>;
+			if (data.status === 200 && data.payload?.results?.length > 0) {
+				const result = data.payload.results[0];
+				const symbolInfo: SymbolInfo = {
+					symbol: result.symbol,
+					full_name: `${result.exchange}:${result.segment}:${result.symbol}`,
+					description: result.name,
+					exchange: result.exchange,
+					type: result.asset_type.toLowerCase(),
 					session: "24x7",
 					session_label: "24x7",
 					timezone: result.exchange_info?.zone || "UTC",
@@ -651,27 +1729,8 @@ export const createChartDatafeed = (): Datafeed => {
 					country_cd: exchangeInfo.country_cd || "US",
 					zone: exchangeInfo.timezone,
 					has_unique_trade_id: true,
-					holidays: null,
-					hours:
-						exchangeInfo.session === "24x7"
-							? [
-									{ open: true },
-									{ open: true },
-									{ open: true },
-									{ open: true },
-									{ open: true },
-									{ open: true },
-									{ open: true },
-								]
-							: [
-									{ open: false },
-									{ open: true },
-									{ open: true },
-									{ open: true },
-									{ open: true },
-									{ open: true },
-									{ open: false },
-								],
+					holidays: getExchangeCalendar(exchange)?.holidays || null,
+					hours: getWeeklyHours(exchangeInfo.session),
 					contains_ambiguous_symbols: false,
 					valid_intervals: [
 						"1",
@@ -751,6 +1810,8 @@ export const createChartDatafeed = (): Datafeed => {
 			return types[exchange] || "crypto";
 		},
 
+		// Precision estimates below are the offline fallback; venues with
+		// getInstrumentInfo replace them when the symbol resolves
 		getPriceScale(exchange: string, ticker: string): number {
 			// Crypto typically has more decimal places
 			if (exchange === "BYBIT" || exchange === "BINANCE") {
@@ -778,167 +1839,85 @@ export const createChartDatafeed = (): Datafeed => {
 			return "USD";
 		},
 
-		async getBybitBars(
-			symbolInfo: SymbolInfo,
-			resolution: string | Resolution,
-			periodParams: PeriodParams
-		): Promise<RawBar[]> {
-			const { from, to, firstDataRequest, rows } = periodParams;
-			// Use the same logic as real datafeed.js
-			// Handle both string and object resolution formats
-			let scale: number;
-			let units: string;
-			let interval: string;
+		// Handle both string and object resolution formats
+		normalizeResolution(resolution: string | Resolution): ResolutionInfo {
 			if (typeof resolution === "string") {
 				// Convert string resolution to object format
-				const resolutionObj =
-					this.convertIntervalToResolution(resolution);
-				scale = resolutionObj.scale;
-				units = resolutionObj.units;
-				interval = resolutionObj.label;
-			} else if (resolution && typeof resolution === "object") {
-				scale = resolution.units as unknown as number;
-				units = resolution.scale as unknown as string;
-				// Derive label from scale and units
-				interval = this.deriveIntervalLabel(scale, units);
-			} else {
-				console.error("❌ Invalid resolution format:", resolution);
-				throw new Error("Invalid resolution format");
-			}
-
-			// Extract the correct symbol for Bybit API
-			const bybitSymbol: string =
-				symbolInfo.symbol || symbolInfo.ticker || "";
-			let url: string;
-			if (firstDataRequest) {
-				// Use current time to get recent data up to today
-				const currentTime = Date.now();
-				url = `https://api.bybit.com/v5/market/kline?symbol=${bybitSymbol}&interval=${interval}&end=${currentTime}&limit=${
-					rows || 200
-				}`;
-			} else {
-				// Convert to milliseconds if needed (from is in seconds in installed SDK)
-				const startDate =
-					typeof from === "number"
-						? from * 1000
-						: (from as Date).getTime();
-				const endDate =
-					typeof to === "number" ? to * 1000 : (to as Date).getTime();
-				url = `https://api.bybit.com/v5/market/kline?symbol=${bybitSymbol}&interval=${interval}&start=${startDate}&end=${endDate}&limit=${
-					rows || 200
-				}`;
-			}
-			const response = await fetch(url);
-			const data = (await response.json()) as BybitKlineResponse;
-			if (data.result?.list) {
-				const bars: RawBar[] = [];
-				const list = data.result.list;
-				for (let k = 0; k < list.length; k++) {
-					const [timestamp, open, high, low, close, volume] = list[k];
-					const bar: RawBar = {
-						time: Math.floor(Number(timestamp) / 1000), // Convert to seconds
-						open: Number(open),
-						high: Number(high),
-						low: Number(low),
-						close: Number(close),
-						volume: Number(volume),
-					};
-					bars.push(bar);
-				}
-				// Bybit returns newest first, we need oldest first
-				const reversedBars = bars.reverse();
-				return reversedBars;
+				return this.convertIntervalToResolution(resolution);
+			}
+			if (resolution && typeof resolution === "object") {
+				const scale = resolution.units as unknown as number;
+				const units = resolution.scale as unknown as string;
+				return createResolution(scale, units);
 			}
-			throw new Error("No data from Bybit API");
+			console.error("❌ Invalid resolution format:", resolution);
+			throw new Error("Invalid resolution format");
 		},
 
+		// Parse any SDK or GoCharting interval ("1S", "3m", "2h", "D", "2W",
+		// "6M", "1Y", ...); throws for intervals that cannot be parsed
 		convertIntervalToResolution(intervalString: string): ResolutionInfo {
-			const intervalMap: Record<string, ResolutionInfo> = {
-				"1m": { scale: 1, units: "minutes", label: "1" },
-				"5m": { scale: 5, units: "minutes", label: "5" },
-				"15m": { scale: 15, units: "minutes", label: "15" },
-				"30m": { scale: 30, units: "minutes", label: "30" },
-				"1h": { scale: 1, units: "hours", label: "60" },
-				"4h": { scale: 4, units: "hours", label: "240" },
-				"1D": { scale: 1, units: "days", label: "D" },
-				"1W": { scale: 1, units: "weeks", label: "W" },
-				"1M": { scale: 1, units: "months", label: "M" },
-			};
-			const resolutionResult = intervalMap[intervalString];
-			if (!resolutionResult) {
-				console.warn(
-					`Unknown interval: ${intervalString}, defaulting to 1D`
-				);
-				return {
-					scale: 1,
-					units: "days",
-					label: "D",
-				};
-			}
-			return resolutionResult;
+			return parseInterval(intervalString);
 		},
 
 		deriveIntervalLabel(scale: number, units: string): string {
-			switch (units) {
-				case "minutes":
-					return scale.toString();
-				case "hours":
-					return (scale * 60).toString();
-				case "days":
-					return scale === 1 ? "D" : `${scale}D`;
-				case "weeks":
-					return scale === 1 ? "W" : `${scale * 7}W`;
-				case "months":
-					return scale === 1 ? "M" : `${scale * 30}M`;
-				default:
-					console.warn(`Unknown units: ${units}, defaulting to D`);
-					return "D";
-			}
-		},
-
-		generateDemoData(
-			from: Date,
-			to: Date,
-			resolution: string | Resolution,
-			_symbolInfo: SymbolInfo
-		): RawBar[] {
-			const bars: RawBar[] = [];
-			const startTime = from.getTime() / 1000;
-			const endTime = to.getTime() / 1000;
-			let interval = 86400; // 1 day in seconds
+			return getIntervalLabel({ scale, units });
+		},
 
-			if (typeof resolution === "string") {
-				const resolutionNum = parseInt(resolution);
-				if (!isNaN(resolutionNum)) {
-					interval = resolutionNum * 60; // minutes to seconds
-				}
+		// Fold a trade into the handler's current bar, rolling over to a new bar
+		// when the trade falls into a later period. Returns the bar to publish,
+		// or null for late trades that belong to an already closed bar and for
+		// trades outside the symbol's sessions. Volume counts trade size or
+		// notional depending on volumeUnit.
+		applyTradeToBar(
+			handler: StreamingHandler,
+			trade: TradeMessage,
+			session: TradingSession,
+			volumeUnit: VolumeUnit = "base"
+		): StreamingBar | null {
+			const resolutionInfo = this.normalizeResolution(handler.resolution);
+			const tradeTime = Math.floor(trade.timeStamp.getTime() / 1000);
+			// No bars while the market is closed
+			if (
+				!isContinuousUtcSession(session) &&
+				!isMarketOpen(tradeTime, session)
+			) {
+				return null;
 			}
+			const barTime = getSessionBarStartTime(
+				tradeTime,
+				resolutionInfo,
+				session
+			);
+			const currentBar = handler.currentBar;
+			const tradeVolume =
+				volumeUnit === "quote" ? trade.amount : trade.quantity;
 
-			let basePrice = 50000; // Starting price
-			let currentTime = startTime;
-
-			while (currentTime < endTime) {
-				const randomChange = (Math.random() - 0.5) * 1000;
-				const open = basePrice;
-				const close = basePrice + randomChange;
-				const high = Math.max(open, close) + Math.random() * 500;
-				const low = Math.min(open, close) - Math.random() * 500;
-				const volume = Math.random() * 1000000;
-
-				bars.push({
-					time: currentTime,
-					open,
-					high,
-					low,
-					close,
-					volume,
-				});
-
-				basePrice = close;
-				currentTime += interval;
+			if (currentBar && barTime < currentBar.time) {
+				return null;
 			}
 
-			return bars;
+			if (!currentBar || barTime > currentBar.time) {
+				handler.currentBar = {
+					time: barTime,
+					open: trade.price,
+					high: trade.price,
+					low: trade.price,
+					close: trade.price,
+					volume: tradeVolume,
+					turnover: trade.amount,
+				};
+			} else {
+				handler.currentBar = {
+					...currentBar,
+					high: Math.max(currentBar.high, trade.price),
+					low: Math.min(currentBar.low, trade.price),
+					close: trade.price,
+					volume: (currentBar.volume || 0) + tradeVolume,
+					turnover: (currentBar.turnover || 0) + trade.amount,
+				};
+			}
+			return handler.currentBar;
 		},
 
 		// Create mock symbol info for AAPL and TSLA using GoCharting SDK SymbolInfo format
@@ -1031,7 +2010,7 @@ export const createChartDatafeed = (): Datafeed => {
 					has_unique_trade_id: true,
 					logo_url:
 						"https://upload.wikimedia.org/wikipedia/commons/4/48/Nasdaq_Logo.svg",
-					holidays: null,
+					holidays: getExchangeCalendar("NASDAQ")?.holidays || null,
 					hours: [
 						{ open: false }, // Sunday
 						{ open: true }, // Monday
@@ -1058,36 +2037,136 @@ export const createChartDatafeed = (): Datafeed => {
 		},
 
 		onReady(callback: (config: DatafeedConfig) => void): void {
-			setTimeout(
-				() =>
-					callback({
-						supported_resolutions: [
-							"1",
-							"5",
-							"15",
-							"30",
-							"60",
-							"240",
-							"1D",
-							"1W",
-							"1M",
-						],
-						supports_marks: false,
-						supports_timescale_marks: false,
-						supports_time: true,
-					}),
-				0
-			);
+			// Measure clock skew early so the first live bars roll correctly
+			this.syncServerTime();
+			const defaults: DatafeedConfig = {
+				supported_resolutions: [
+					"1",
+					"5",
+					"15",
+					"30",
+					"60",
+					"240",
+					"1D",
+					"1W",
+					"1M",
+				],
+				supports_marks: true,
+				supports_timescale_marks: true,
+				supports_time: true,
+			};
+			if (!options.getConfig) {
+				setTimeout(() => callback(defaults), 0);
+				return;
+			}
+			options
+				.getConfig()
+				.catch((error) => {
+					console.warn(
+						"⚠️ [DemoDatafeed] Server configuration unavailable, using defaults:",
+						error
+					);
+					return {};
+				})
+				.then((config: Partial<DatafeedConfig>) =>
+					callback({ ...defaults, ...config })
+				);
 		},
 
-		searchSymbols(
-			userInput: string,
-			exchangeOrCallback:
-				| string
-				| ((result: SearchSymbolsResult) => void),
-			symbolType?: string,
-			onResultReadyCallback?: (result: SearchSymbolsResult) => void
-		): void {
+		// Server time in unix seconds, read from the first adapter exposing
+		// one and otherwise estimated from recent trade timestamps
+		async getServerTime(
+			callback?: (serverTime: number) => void
+		): Promise<number> {
+			if (!this.clock.isSynced(SERVER_TIME_MAX_AGE_MS)) {
+				await this.syncServerTime();
+			}
+			const serverTime = Math.floor(this.clock.now() / 1000);
+			callback?.(serverTime);
+			return serverTime;
+		},
+
+		async syncServerTime(): Promise<void> {
+			const adapter = this.adapters.find(
+				(candidate: ExchangeAdapter) => candidate.getServerTime
+			);
+			if (!adapter?.getServerTime) {
+				return;
+			}
+			try {
+				const requestedAt = Date.now();
+				const serverTime = await adapter.getServerTime();
+				this.clock.recordServerTime(
+					serverTime,
+					requestedAt,
+					Date.now()
+				);
+			} catch (error) {
+				console.warn(
+					"⚠️ [DemoDatafeed] Server time unavailable, estimating from trades:",
+					error
+				);
+			}
+		},
+
+		getMarks(
+			symbolInfo: SymbolInfo,
+			from: number,
+			to: number,
+			onDataCallback: (marks: ChartMark[]) => void,
+			resolution?: string | Resolution
+		): void {
+			const interval = resolution
+				? this.normalizeResolution(resolution).label
+				: undefined;
+			this.collectMarks((source: MarkSource) =>
+				source.getMarks?.(symbolInfo, from, to, interval)
+			).then(onDataCallback);
+		},
+
+		getTimescaleMarks(
+			symbolInfo: SymbolInfo,
+			from: number,
+			to: number,
+			onDataCallback: (marks: TimescaleMark[]) => void,
+			resolution?: string | Resolution
+		): void {
+			const interval = resolution
+				? this.normalizeResolution(resolution).label
+				: undefined;
+			this.collectMarks((source: MarkSource) =>
+				source.getTimescaleMarks?.(symbolInfo, from, to, interval)
+			).then(onDataCallback);
+		},
+
+		// Marks from every source, skipping sources that fail
+		async collectMarks<T>(
+			request: (source: MarkSource) => Promise<T[]> | undefined
+		): Promise<T[]> {
+			const results = await Promise.all(
+				this.markSources.map(async (source: MarkSource) => {
+					try {
+						return (await request(source)) || [];
+					} catch (error) {
+						console.error(
+							`❌ [DemoDatafeed] Mark source ${source.name} failed:`,
+							error
+						);
+						return [];
+					}
+				})
+			);
+			return results.flat();
+		},
+
+		searchSymbols(
+			userInput: string,
+			exchangeOrCallback:
+				| string
+				| ((result: SearchSymbolsResult) => void),
+			symbolType?: string,
+			onResultReadyCallback?: (result: SearchSymbolsResult) => void
+		): void {
 			// Handle different calling patterns - sometimes callback is 2nd param, sometimes 4th
 			const callback:
 				| ((result: SearchSymbolsResult) => void)
@@ -1105,15 +2184,73 @@ export const createChartDatafeed = (): Datafeed => {
 
 			// Use async IIFE to handle the fetch, but don't make the function itself async
 			(async () => {
+				// Adapters with their own symbols are listed first. An adapter
+				// claiming every prefix would be routed the API's symbols
+				// too, so the API is not searched then.
+				const adapterItems = await this.searchSymbolsFromAdapters(
+					userInput,
+					typeof exchangeOrCallback === "string"
+						? exchangeOrCallback
+						: "",
+					symbolType || ""
+				);
+				if (
+					this.adapters.some((adapter: ExchangeAdapter) =>
+						adapter.exchanges.includes("*")
+					)
+				) {
+					callback({ searchInProgress: false, items: adapterItems });
+					return;
+				}
+				const withAdapterItems = (result: SearchSymbolsResult) =>
+					callback({
+						...result,
+						items: [...adapterItems, ...result.items],
+					});
 				try {
-					await this.searchSymbolsFromAPI(userInput, callback);
+					await this.searchSymbolsFromAPI(
+						userInput,
+						withAdapterItems
+					);
 				} catch (error) {
 					// Fallback to mock data
-					this.searchSymbolsMock(userInput, callback);
+					this.searchSymbolsMock(userInput, withAdapterItems);
 				}
 			})();
 		},
 
+		// Results of every adapter with its own symbol service, skipping
+		// adapters that fail
+		async searchSymbolsFromAdapters(
+			userInput: string,
+			exchange: string,
+			symbolType: string
+		): Promise<SearchResult[]> {
+			const searchAdapters = this.adapters.filter(
+				(adapter: ExchangeAdapter) => adapter.searchSymbols
+			);
+			const results = await Promise.all(
+				searchAdapters.map(async (adapter: ExchangeAdapter) => {
+					try {
+						return (
+							(await adapter.searchSymbols?.(
+								userInput,
+								exchange,
+								symbolType
+							)) || []
+						);
+					} catch (error) {
+						console.error(
+							`❌ [DemoDatafeed] Symbol search on ${adapter.name} failed:`,
+							error
+						);
+						return [];
+					}
+				})
+			);
+			return results.flat();
+		},
+
 		searchSymbolsMock(
 			userInput: string,
 			callback: (result: SearchSymbolsResult) => void
@@ -1285,27 +2422,23 @@ export const createChartDatafeed = (): Datafeed => {
 			resolution: string | Resolution,
 			onRealtimeCallback: RealtimeDataCallback,
 			subscriberUID: string,
-			_onResetCacheNeededCallback?: () => void
+			onResetCacheNeededCallback?: () => void
 		): void {
-			// For demo purposes, we'll simulate real-time updates
-			// In production, this would connect to real WebSocket streams
-			this.startDemoStreaming(
+			// Trades from the channel are aggregated into bars at this
+			// subscriber's resolution before reaching the callback
+			this.subscribeOnStream(
 				symbolInfo,
 				resolution,
 				onRealtimeCallback,
-				subscriberUID
+				subscriberUID,
+				onResetCacheNeededCallback,
+				null,
+				"bars"
 			);
 		},
 
 		unsubscribeBars(subscriberUID: string): void {
-			// Stop the demo streaming for this subscriber
-			if (
-				this.streamingIntervals &&
-				this.streamingIntervals[subscriberUID]
-			) {
-				clearInterval(this.streamingIntervals[subscriberUID]);
-				delete this.streamingIntervals[subscriberUID];
-			}
+			this.unsubscribeFromStream(subscriberUID);
 		},
 
 		// Optional datafeed type methods for real-time data
@@ -1333,42 +2466,6 @@ export const createChartDatafeed = (): Datafeed => {
 			this.unsubscribeFromStream(subscriberUID);
 		},
 
-		// Start demo streaming for non-real-time symbols
-		startDemoStreaming(
-			_symbolInfo: SymbolInfo,
-			_resolution: string | Resolution,
-			onRealtimeCallback: RealtimeDataCallback,
-			subscriberUID: string
-		): void {
-			// Initialize streaming intervals map if not exists
-			if (!this.streamingIntervals) {
-				this.streamingIntervals = {};
-			}
-
-			// Clear any existing interval for this subscriber
-			if (this.streamingIntervals[subscriberUID]) {
-				clearInterval(this.streamingIntervals[subscriberUID]);
-			}
-
-			// For demo purposes, simulate price updates every 2 seconds
-			let lastPrice = 50000 + Math.random() * 10000; // Start with a random price around 50k-60k
-
-			this.streamingIntervals[subscriberUID] = setInterval(() => {
-				// Simulate realistic price movement
-				const change = (Math.random() - 0.5) * 100; // +/- $50 change
-				lastPrice = Math.max(1000, lastPrice + change); // Ensure price doesn't go below $1000
-
-				const now = Date.now();
-				const tick: TickData = {
-					time: Math.floor(now / 1000), // Unix timestamp in seconds
-					price: Math.round(lastPrice * 100) / 100, // Round to 2 decimal places
-					volume: Math.floor(Math.random() * 1000) + 100, // Random volume
-				};
-
-				onRealtimeCallback(tick);
-			}, 2000); // Update every 2 seconds
-		},
-
 		// Enhanced streaming implementation mirroring streaming.js capabilities
 		subscribeOnStream(
 			symbolInfo: SymbolInfo,
@@ -1376,41 +2473,39 @@ export const createChartDatafeed = (): Datafeed => {
 			onRealtimeCallback: RealtimeDataCallback,
 			subscriberUID: string,
 			onResetCacheNeededCallback?: (() => void) | null,
-			lastDailyBar?: Bar | null
+			lastDailyBar?: Bar | null,
+			mode: StreamingMode = "ticks"
 		): void {
 			// Initialize streaming infrastructure like streaming.js
 			if (!this.channelToSubscription) {
 				this.channelToSubscription = new Map();
 			}
 
-			if (!this.demoSocket) {
-				this.initializeDemoSocket(symbolInfo);
-			}
+			this.startStaleChannelCheck();
 
-			// Create channel string similar to streaming.js format
-			let channelString: string;
-			if (symbolInfo.exchange === "BYBIT") {
-				// Use real Bybit channel format
-				const symbol: string =
-					symbolInfo.symbol || symbolInfo.ticker || "";
-				channelString = `publicTrade.${symbol}`;
-			} else {
-				// Use demo format for other exchanges
-				channelString = `demoTrade.${
-					symbolInfo.symbol || symbolInfo.ticker || ""
-				}`;
-			}
+			const adapter = this.getAdapter(symbolInfo);
+			const channelString = adapter.getChannel(symbolInfo);
+			const socketUrl = adapter.getSocketUrl(symbolInfo);
+			const subscriptionKey = this.getSubscriptionKey(
+				adapter,
+				socketUrl,
+				channelString
+			);
 
-			const handler = {
+			const handler: StreamingHandler = {
 				id: subscriberUID,
 				callback: onRealtimeCallback,
 				resolution: resolution,
 				lastDailyBar: lastDailyBar,
 				onResetCacheNeededCallback: onResetCacheNeededCallback,
+				mode,
+				// Continue the last bar the chart already has, if any
+				currentBar:
+					lastDailyBar || this.getServedBar(symbolInfo, resolution),
 			};
 
 			let subscriptionItem =
-				this.channelToSubscription.get(channelString);
+				this.channelToSubscription.get(subscriptionKey);
 
 			if (subscriptionItem) {
 				// Already subscribed to the channel, use the existing subscription
@@ -1426,32 +2521,45 @@ export const createChartDatafeed = (): Datafeed => {
 				handlers: [handler],
 				symbolInfo: symbolInfo,
 				channelString: channelString,
+				adapter,
+				socketUrl,
+				lastTradeAt: Date.now(),
+				liveDataStatus: null,
+				session: getTradingSession(symbolInfo),
+				liveTape: [],
 			};
 
-			this.channelToSubscription.set(channelString, subscriptionItem);
+			this.channelToSubscription.set(subscriptionKey, subscriptionItem);
+			this.openChannel(subscriptionKey, subscriptionItem);
+		},
 
-			// Send subscription request (real Bybit format for BYBIT, demo for others)
-			let subRequest: SubscriptionRequest;
-			if (symbolInfo.exchange === "BYBIT") {
-				// Real Bybit subscription format
-				subRequest = {
-					op: "subscribe",
-					args: [channelString],
-				};
-			} else {
-				// Demo subscription format
-				subRequest = {
-					op: "subscribe",
-					args: [channelString],
-					symbol:
-						symbolInfo.symbol ||
-						symbolInfo.ticker ||
-						symbolInfo.description ||
-						"",
-				};
-			}
+		// Tick subscription of a formula on one of its constituents, or of a
+		// continuous future on its contract. Returns an unsubscribe function.
+		subscribeConstituentTrades(
+			symbolInfo: SymbolInfo,
+			onTrade: (trade: TradeMessage) => void
+		): () => void {
+			this.constituentSubscriptionCount += 1;
+			const subscriberUID = `constituent-${this.constituentSubscriptionCount}`;
+			this.subscribeOnStream(
+				symbolInfo,
+				"1",
+				onTrade,
+				subscriberUID,
+				null,
+				null,
+				"ticks"
+			);
+			return () => this.unsubscribeFromStream(subscriberUID);
+		},
 
-			this.sendDemoSubscription(subRequest, subscriptionItem);
+		// Channels are unique per socket (or per adapter for synthetic streams)
+		getSubscriptionKey(
+			adapter: ExchangeAdapter,
+			socketUrl: string | null,
+			channelString: string
+		): string {
+			return `${socketUrl || adapter.name}|${channelString}`;
 		},
 
 		unsubscribeFromStream(subscriberUID: string) {
@@ -1460,9 +2568,9 @@ export const createChartDatafeed = (): Datafeed => {
 			}
 
 			// Find a subscription with id === subscriberUID (mirroring streaming.js logic)
-			for (const channelString of this.channelToSubscription.keys()) {
+			for (const subscriptionKey of this.channelToSubscription.keys()) {
 				const subscriptionItem =
-					this.channelToSubscription.get(channelString);
+					this.channelToSubscription.get(subscriptionKey);
 				if (!subscriptionItem) continue;
 
 				const handlerIndex = subscriptionItem.handlers.findIndex(
@@ -1475,26 +2583,14 @@ export const createChartDatafeed = (): Datafeed => {
 
 					if (subscriptionItem.handlers.length === 0) {
 						// Unsubscribe from the channel if it was the last handler
-						const unsubRequest = {
-							op: "unsubscribe",
-							args: [channelString],
-						};
-
-						this.sendDemoUnsubscription(
-							unsubRequest,
-							channelString
-						);
-						this.channelToSubscription.delete(channelString);
-
-						// Stop streaming intervals for this channel
+						this.channelToSubscription.delete(subscriptionKey);
+						this.closeChannel(subscriptionKey, subscriptionItem);
 						if (
-							this.streamingIntervals &&
-							this.streamingIntervals[channelString]
+							this.channelToSubscription.size === 0 &&
+							this.staleCheckInterval
 						) {
-							clearInterval(
-								this.streamingIntervals[channelString]
-							);
-							delete this.streamingIntervals[channelString];
+							clearInterval(this.staleCheckInterval);
+							this.staleCheckInterval = null;
 						}
 					}
 					break;
@@ -1502,324 +2598,675 @@ export const createChartDatafeed = (): Datafeed => {
 			}
 		},
 
-		// Initialize socket (mirroring streaming.js socket initialization)
-		initializeDemoSocket(symbolInfo: SymbolInfo) {
+		// Start receiving trades for a channel, over its adapter's socket or
+		// from the adapter's synthetic stream
+		openChannel(
+			subscriptionKey: string,
+			subscriptionItem: SubscriptionItem
+		) {
+			const { adapter, socketUrl } = subscriptionItem;
+
+			if (!socketUrl) {
+				this.startChannelStreaming(subscriptionKey, subscriptionItem);
+				return;
+			}
+
+			const socket = this.getSocket(socketUrl, adapter);
 			if (
-				this.demoSocket &&
-				this.demoSocket.readyState === WebSocket.OPEN
+				socket.readyState === WebSocket.OPEN &&
+				adapter.formatSubscribe
 			) {
-				return this.demoSocket;
+				socket.send(
+					adapter.formatSubscribe([this.getTopic(subscriptionItem)])
+				);
 			}
+			// Otherwise the socket is (re)connecting and handleSocketOpen
+			// subscribes this channel together with all others
+		},
 
-			// Create real Bybit WebSocket for BYBIT symbols, mock for others
-			if (symbolInfo.exchange === "BYBIT") {
-				const uri = this.getBybitWebSocketUrl(symbolInfo);
-				const ws = new WebSocket(uri);
-				this.demoSocket = ws;
+		closeChannel(
+			subscriptionKey: string,
+			subscriptionItem: SubscriptionItem
+		) {
+			const { adapter, socketUrl } = subscriptionItem;
 
-				ws.addEventListener("open", () => {
-				});
+			if (!socketUrl) {
+				// Stop streaming for this channel
+				this.syntheticStreams[subscriptionKey]?.();
+				delete this.syntheticStreams[subscriptionKey];
+				return;
+			}
 
-				ws.addEventListener("close", (event: CloseEvent) => {
-				});
+			const socket = this.sockets.get(socketUrl);
+			if (!socket) {
+				return;
+			}
+			const remainingItems = Array.from(
+				this.channelToSubscription?.values() || []
+			).filter((item: SubscriptionItem) => item.socketUrl === socketUrl);
+			const remainingBooks = Array.from(
+				this.depthSubscriptions.values()
+			).filter((item: DepthSubscription) => item.socketUrl === socketUrl);
+
+			// Several channels may share one topic (e.g. Bybit options), so
+			// only leave the topic once its last channel is gone
+			const topic = this.getTopic(subscriptionItem);
+			const topicStillUsed = remainingItems.some(
+				(item: SubscriptionItem) => this.getTopic(item) === topic
+			);
+			if (
+				!topicStillUsed &&
+				socket.readyState === WebSocket.OPEN &&
+				adapter.formatUnsubscribe
+			) {
+				socket.send(adapter.formatUnsubscribe([topic]));
+			}
 
-				ws.addEventListener("error", (event: Event) => {
-					console.error(
-						"WebSocket connection failed. Please check network connectivity and URL."
-					);
-				});
+			// Close sockets nobody listens on anymore
+			if (remainingItems.length === 0 && remainingBooks.length === 0) {
+				socket.close();
+				this.sockets.delete(socketUrl);
+			}
+		},
 
-				ws.addEventListener("message", (event: MessageEvent) => {
-					this.handleBybitMessage(event);
-				});
-			} else {
-				// Create mock socket for non-Bybit symbols
-				let mockReadyState = 1; // WebSocket.OPEN
-				const mockSocket: DemoSocket = {
-					get readyState() {
-						return mockReadyState;
-					},
-					url: `wss://demo.gocharting.com/ws/${
-						symbolInfo.exchange || "DEMO"
-					}`,
-					send: (message: string) => {
-					},
-					close: () => {
-						mockReadyState = 3; // WebSocket.CLOSED
-					},
-					addEventListener: (
-						event: string,
-						_callback: (event?: unknown) => void
-					) => {
-					},
-				};
-				this.demoSocket = mockSocket;
+		// Wire-level topic a channel (trades or depth) is subscribed through
+		getTopic(
+			subscriptionItem: Pick<
+				SubscriptionItem,
+				"adapter" | "channelString"
+			>
+		): string {
+			const { adapter, channelString } = subscriptionItem;
+			return adapter.getTopic
+				? adapter.getTopic(channelString)
+				: channelString;
+		},
+
+		// Socket for the URL, created on first use (mirroring streaming.js
+		// socket initialization)
+		getSocket(
+			socketUrl: string,
+			adapter: ExchangeAdapter
+		): ReconnectingSocket {
+			const existing = this.sockets.get(socketUrl);
+			if (existing && existing.state !== "closed") {
+				return existing;
 			}
 
-			return this.demoSocket;
+			// Reconnects with backoff; every (re)connect replays the
+			// channels we are subscribed to
+			const socket = createReconnectingSocket({
+				url: socketUrl,
+				onMessage: (event: MessageEvent) => {
+					this.handleSocketMessage(socketUrl, adapter, event);
+				},
+				onOpen: (isReconnect: boolean) => {
+					this.handleSocketOpen(socketUrl, isReconnect);
+				},
+				heartbeatMessage: adapter.heartbeat?.message,
+				heartbeatIntervalMs: adapter.heartbeat?.intervalMs,
+				heartbeatTimeoutMs: adapter.heartbeat?.timeoutMs,
+			});
+			this.sockets.set(socketUrl, socket);
+			socket.connect();
+			return socket;
 		},
 
-		// Get Bybit WebSocket URL (mirroring streaming.js getWebSocketUrl)
-		getBybitWebSocketUrl(_symbolInfo: SymbolInfo) {
-			// Use Bybit's public WebSocket endpoint
-			return "wss://stream.bybit.com/v5/public/linear";
+		// Replay every channel of the socket on the fresh connection. After a
+		// drop the chart has missed trades, so ask each handler to refetch
+		// history.
+		handleSocketOpen(socketUrl: string, isReconnect: boolean) {
+			const socket = this.sockets.get(socketUrl);
+
+			// Books restart from the snapshot sent on subscribing
+			this.depthSubscriptions.forEach(
+				(depthSubscription: DepthSubscription) => {
+					const { adapter } = depthSubscription;
+					if (depthSubscription.socketUrl !== socketUrl) {
+						return;
+					}
+					depthSubscription.book.reset();
+					depthSubscription.resyncing = false;
+					if (adapter.formatSubscribe) {
+						socket?.send(
+							adapter.formatSubscribe([
+								this.getTopic(depthSubscription),
+							])
+						);
+					}
+				}
+			);
+
+			if (!this.channelToSubscription) {
+				return;
+			}
+			const subscribedTopics = new Set<string>();
+
+			this.channelToSubscription.forEach(
+				(subscriptionItem: SubscriptionItem) => {
+					const { adapter } = subscriptionItem;
+					if (subscriptionItem.socketUrl !== socketUrl) {
+						return;
+					}
+
+					const topic = this.getTopic(subscriptionItem);
+					if (
+						adapter.formatSubscribe &&
+						!subscribedTopics.has(topic)
+					) {
+						subscribedTopics.add(topic);
+						socket?.send(adapter.formatSubscribe([topic]));
+					}
+
+					if (!isReconnect) {
+						return;
+					}
+					subscriptionItem.handlers.forEach(
+						(handler: StreamingHandler) => {
+							try {
+								handler.onResetCacheNeededCallback?.();
+							} catch (error) {
+								console.error(
+									`❌ [DemoDatafeed] Error resetting cache for ${handler.id}:`,
+									error
+								);
+							}
+						}
+					);
+				}
+			);
 		},
 
-		// Handle Bybit WebSocket messages (mirroring streaming.js message handling)
-		handleBybitMessage(event: MessageEvent) {
+		// Handle socket messages (mirroring streaming.js message handling)
+		handleSocketMessage(
+			socketUrl: string,
+			adapter: ExchangeAdapter,
+			event: MessageEvent
+		) {
 			try {
-				const feedMessage = JSON.parse(
-					event.data
-				) as BybitWebSocketMessage;
-				const { topic } = feedMessage;
-
-				if (!topic || !topic.startsWith("publicTrade")) {
+				const parsed = adapter.parseMessage?.(event.data, socketUrl);
+				if (!parsed) {
 					// Skip all non-trading events
 					return;
 				}
 
-				// Find the subscription for this topic
-				const subscriptionItem = this.channelToSubscription?.get(topic);
+				parsed.forEach(({ channel, trades, depth, kline }) => {
+					if (depth) {
+						const depthSubscription = this.depthSubscriptions.get(
+							this.getSubscriptionKey(adapter, socketUrl, channel)
+						);
+						if (depthSubscription) {
+							this.applyDepthUpdate(depthSubscription, depth);
+						}
+						return;
+					}
 
-				if (!subscriptionItem) {
-					return;
-				}
+					// Find the subscription for this channel
+					const subscriptionItem = this.channelToSubscription?.get(
+						this.getSubscriptionKey(adapter, socketUrl, channel)
+					);
+					if (!subscriptionItem) {
+						return;
+					}
 
-				// Process real Bybit trade data
-				this.processRealBybitData(topic, feedMessage);
+					// A replayed symbol hears only its replay
+					const isReplaying = this.isReplaying(
+						subscriptionItem.symbolInfo
+					);
+					trades.forEach((tradeMessage: TradeMessage) => {
+						this.clock.recordTrade(
+							tradeMessage.timeStamp.getTime()
+						);
+						if (!isReplaying) {
+							this.dispatchTrade(subscriptionItem, tradeMessage);
+						}
+					});
+					if (kline && !isReplaying) {
+						this.applyKline(subscriptionItem, kline);
+					}
+				});
 			} catch (error) {
 				console.error(
-					"❌ [DemoDatafeed] Error parsing Bybit message:",
+					`❌ [DemoDatafeed] Error parsing ${adapter.name} message:`,
 					error
 				);
 			}
 		},
 
-		// Process real Bybit trade data (mirroring streaming.js processing)
-		processRealBybitData(
-			topic: string,
-			feedMessage: BybitWebSocketMessage
+		// Call all handlers for this channel: tick subscribers get the raw
+		// trade, bar subscribers get the bar it was aggregated into
+		dispatchTrade(
+			subscriptionItem: SubscriptionItem,
+			tradeMessage: TradeMessage
 		) {
-			const subscriptionItem = this.channelToSubscription?.get(topic);
-			if (!subscriptionItem) {
-				return;
+			this.markChannelFresh(subscriptionItem);
+			subscriptionItem.liveTape.push(tradeMessage);
+			if (subscriptionItem.liveTape.length > LIVE_TAPE_LIMIT) {
+				subscriptionItem.liveTape.shift();
 			}
 
-			const { data } = feedMessage;
-			if (!data || data.length === 0) return;
-
-			// Process each trade in the data array (matching streaming.js format exactly)
-			data.forEach((each: BybitTradeData) => {
-				const { T: timestamp, s, S: side, p: price, i, v: size } = each;
-
-				const tradeMessage: TradeMessage = {
-					type: "trade",
-					productId: `BYBIT:FUTURE:${s}`,
-					symbol: s,
-					exchange: "BYBIT",
-					segment: "FUTURE",
-					timeStamp: new Date(timestamp),
-					tradeID: i,
-					price: Number(price),
-					quantity: Number(size),
-					amount: Number(price) * Number(size),
-					side: side.toUpperCase(),
-				};
-
-				// Call all handlers for this channel (matching streaming.js exactly)
-				subscriptionItem.handlers.forEach(
-					(handler: StreamingHandler) => {
-						try {
-							handler.callback(tradeMessage);
-						} catch (error) {
-							console.error(
-								`❌ [DemoDatafeed] Error in handler ${handler.id}:`,
-								error
+			subscriptionItem.handlers.forEach((handler: StreamingHandler) => {
+				try {
+					if (handler.mode === "bars") {
+						// Charts that just reloaded continue the last bar
+						// they were served rather than starting it over
+						if (!handler.currentBar) {
+							handler.currentBar = this.getServedBar(
+								subscriptionItem.symbolInfo,
+								handler.resolution
 							);
 						}
+						const bar = this.applyTradeToBar(
+							handler,
+							tradeMessage,
+							subscriptionItem.session,
+							this.getVolumeUnit(subscriptionItem.symbolInfo)
+						);
+						if (bar) {
+							handler.callback({ ...bar });
+						}
+					} else {
+						handler.callback(tradeMessage);
 					}
-				);
+				} catch (error) {
+					console.error(
+						`❌ [DemoDatafeed] Error in handler ${handler.id}:`,
+						error
+					);
+				}
 			});
 		},
 
-		// Send subscription (real Bybit or demo, mirroring streaming.js subscription logic)
-		sendDemoSubscription(
-			subRequest: SubscriptionRequest,
-			subscriptionItem: SubscriptionItem
+		// Bring bars charted at a venue kline's interval in line with the
+		// venue's own bar, which also counts trades the stream missed
+		applyKline(
+			subscriptionItem: SubscriptionItem,
+			kline: { interval: string; bar: RawBar }
 		) {
-			const isRealBybit =
-				subscriptionItem.symbolInfo.exchange === "BYBIT";
+			this.markChannelFresh(subscriptionItem);
+			const klineSeconds = getResolutionSeconds(
+				this.normalizeResolution(kline.interval)
+			);
+			const { bar } = kline;
+			const turnover = this.getBarTurnover(bar);
+			const volume =
+				this.getVolumeUnit(subscriptionItem.symbolInfo) === "quote"
+					? turnover
+					: bar.volume;
+
+			subscriptionItem.handlers.forEach((handler: StreamingHandler) => {
+				if (
+					handler.mode !== "bars" ||
+					getResolutionSeconds(
+						this.normalizeResolution(handler.resolution)
+					) !== klineSeconds
+				) {
+					return;
+				}
+				// Bars already closed on the chart stay as they are
+				if (handler.currentBar && bar.time < handler.currentBar.time) {
+					return;
+				}
+				handler.currentBar = {
+					time: bar.time,
+					open: bar.open,
+					high: bar.high,
+					low: bar.low,
+					close: bar.close,
+					volume,
+					turnover,
+				};
+				try {
+					handler.callback({ ...handler.currentBar });
+				} catch (error) {
+					console.error(
+						`❌ [DemoDatafeed] Error in handler ${handler.id}:`,
+						error
+					);
+				}
+			});
+		},
 
-			if (
-				this.demoSocket &&
-				this.demoSocket.readyState === WebSocket.OPEN
-			) {
-				// Send real subscription request
-				this.demoSocket.send(JSON.stringify(subRequest));
+		// Latest trades of a symbol, oldest first, for time and sales. The
+		// venue's recent trades are stitched with the live tape of a
+		// streaming subscription and de-duplicated by tradeID, so a panel
+		// opens filled and continues from its tick subscription.
+		async getRecentTrades(
+			symbolInfo: SymbolInfo,
+			limit = 200
+		): Promise<TradeMessage[]> {
+			const adapter = this.getAdapter(symbolInfo);
+			let fetched: TradeMessage[] = [];
+			// A replayed symbol's tape holds only the replayed trades
+			if (adapter.getRecentTrades && !this.isReplaying(symbolInfo)) {
+				try {
+					fetched = await adapter.getRecentTrades(symbolInfo, limit);
+				} catch (error) {
+					// Real symbols never get generated prints; the live tape
+					// still fills in what it can
+					console.error(
+						"❌ [DemoDatafeed] getRecentTrades failed:",
+						error
+					);
+				}
+			}
+
+			const subscriptionItem = this.channelToSubscription?.get(
+				this.getSubscriptionKey(
+					adapter,
+					adapter.getSocketUrl(symbolInfo),
+					adapter.getChannel(symbolInfo)
+				)
+			);
+			const tradesById = new Map<string, TradeMessage>();
+			[...fetched, ...(subscriptionItem?.liveTape || [])].forEach(
+				(trade: TradeMessage) => tradesById.set(trade.tradeID, trade)
+			);
+			return Array.from(tradesById.values())
+				.sort((a, b) => a.timeStamp.getTime() - b.timeStamp.getTime())
+				.slice(-limit);
+		},
+
+		// Stream the top levels of a symbol's order book to callback after
+		// every update. Books are merged from the venue's snapshot and deltas
+		// and resynced from a fresh snapshot when an update goes missing.
+		// Returns an unsubscribe function.
+		subscribeDepth(
+			symbolInfo: SymbolInfo,
+			levels: number,
+			callback: DepthCallback
+		): () => void {
+			const adapter = this.getAdapter(symbolInfo);
+			if (!adapter.getDepthChannel) {
+				console.warn(
+					`⚠️ [DemoDatafeed] Adapter ${adapter.name} has no order book stream`
+				);
+				return () => {};
+			}
 
-				// For non-Bybit symbols, start demo streaming
-				// For Bybit symbols, real data will come through WebSocket messages
-				if (!isRealBybit) {
-					this.startChannelStreaming(subscriptionItem);
+			const channelString = adapter.getDepthChannel(symbolInfo, levels);
+			const socketUrl = adapter.getSocketUrl(symbolInfo);
+			const subscriptionKey = this.getSubscriptionKey(
+				adapter,
+				socketUrl,
+				channelString
+			);
+			const unsubscribe = () =>
+				this.unsubscribeDepth(subscriptionKey, callback);
+
+			const existing = this.depthSubscriptions.get(subscriptionKey);
+			if (existing) {
+				existing.listeners.set(callback, levels);
+				if (existing.book.isSynced()) {
+					callback(existing.book.getSnapshot(levels));
 				}
-			} else if (
-				this.demoSocket &&
-				this.demoSocket.readyState === WebSocket.CONNECTING
+				return unsubscribe;
+			}
+
+			const depthSubscription: DepthSubscription = {
+				symbolInfo,
+				channelString,
+				adapter,
+				socketUrl,
+				book: createOrderBook(),
+				listeners: new Map([[callback, levels]]),
+				resyncing: false,
+				stopSynthetic: null,
+			};
+			this.depthSubscriptions.set(subscriptionKey, depthSubscription);
+			this.openDepthChannel(depthSubscription);
+			return unsubscribe;
+		},
+
+		unsubscribeDepth(subscriptionKey: string, callback: DepthCallback) {
+			const depthSubscription =
+				this.depthSubscriptions.get(subscriptionKey);
+			if (!depthSubscription) {
+				return;
+			}
+			depthSubscription.listeners.delete(callback);
+			if (depthSubscription.listeners.size > 0) {
+				return;
+			}
+
+			this.depthSubscriptions.delete(subscriptionKey);
+			const { adapter, socketUrl } = depthSubscription;
+			if (!socketUrl) {
+				depthSubscription.stopSynthetic?.();
+				return;
+			}
+			const socket = this.sockets.get(socketUrl);
+			if (!socket) {
+				return;
+			}
+			if (
+				socket.readyState === WebSocket.OPEN &&
+				adapter.formatUnsubscribe
 			) {
-				// Socket is connecting, wait for it to open
-				if (isRealBybit && this.demoSocket instanceof WebSocket) {
-					const socket = this.demoSocket;
-					socket.addEventListener(
-						"open",
-						() => {
-							socket.send(JSON.stringify(subRequest));
-						},
-						{ once: true }
+				socket.send(
+					adapter.formatUnsubscribe([
+						this.getTopic(depthSubscription),
+					])
+				);
+			}
+			// Close the socket if neither trades nor books use it anymore
+			const socketInUse =
+				Array.from(this.channelToSubscription?.values() || []).some(
+					(item: SubscriptionItem) => item.socketUrl === socketUrl
+				) ||
+				Array.from(this.depthSubscriptions.values()).some(
+					(item: DepthSubscription) => item.socketUrl === socketUrl
+				);
+			if (!socketInUse) {
+				socket.close();
+				this.sockets.delete(socketUrl);
+			}
+		},
+
+		// Start receiving book updates, over the adapter's socket or from
+		// its synthetic book
+		openDepthChannel(depthSubscription: DepthSubscription) {
+			const { adapter, symbolInfo, socketUrl } = depthSubscription;
+
+			if (!socketUrl) {
+				if (!adapter.startSyntheticDepth) {
+					console.error(
+						`❌ [DemoDatafeed] Adapter ${adapter.name} has neither a socket nor a synthetic order book`
 					);
-				} else {
-					// For demo sockets, simulate connection
-					const socket = this.demoSocket;
-					setTimeout(() => {
-						if (socket) {
-							socket.send(JSON.stringify(subRequest));
-						}
-						this.startChannelStreaming(subscriptionItem);
-					}, 100);
+					return;
 				}
-			} else {
-				// Socket is closed or failed, need to reconnect
-				console.error(
-					"❌ [DemoDatafeed] Socket not connected. ReadyState:",
-					this.demoSocket?.readyState
+				const levels = Math.max(
+					...Array.from(depthSubscription.listeners.values())
 				);
+				depthSubscription.stopSynthetic = adapter.startSyntheticDepth(
+					symbolInfo,
+					levels,
+					(update: DepthUpdate) =>
+						this.applyDepthUpdate(depthSubscription, update)
+				);
+				return;
+			}
 
-				if (isRealBybit) {
-					this.initializeDemoSocket(subscriptionItem.symbolInfo);
-					// Wait for the new socket to connect
-					if (this.demoSocket instanceof WebSocket) {
-						const socket = this.demoSocket;
-						socket.addEventListener(
-							"open",
-							() => {
-								socket.send(JSON.stringify(subRequest));
-							},
-							{ once: true }
+			const socket = this.getSocket(socketUrl, adapter);
+			if (
+				socket.readyState === WebSocket.OPEN &&
+				adapter.formatSubscribe
+			) {
+				socket.send(
+					adapter.formatSubscribe([this.getTopic(depthSubscription)])
+				);
+			}
+			// Otherwise handleSocketOpen subscribes once the socket is up
+		},
+
+		// Merge an update into the book and publish it, or resync on a gap
+		applyDepthUpdate(
+			depthSubscription: DepthSubscription,
+			update: DepthUpdate
+		) {
+			const { book } = depthSubscription;
+			if (!book.apply(update)) {
+				this.resyncDepth(depthSubscription);
+				return;
+			}
+			depthSubscription.resyncing = false;
+
+			depthSubscription.listeners.forEach(
+				(levels: number, callback: DepthCallback) => {
+					try {
+						callback(book.getSnapshot(levels));
+					} catch (error) {
+						console.error(
+							"❌ [DemoDatafeed] Error in depth callback:",
+							error
 						);
 					}
-				} else {
-					// For demo sockets, simulate connection
-					const socket = this.demoSocket;
-					setTimeout(() => {
-						if (socket) {
-							socket.send(JSON.stringify(subRequest));
-						}
-						this.startChannelStreaming(subscriptionItem);
-					}, 100);
 				}
-			}
+			);
 		},
 
-		// Send demo unsubscription (mirroring streaming.js unsubscription logic)
-		sendDemoUnsubscription(
-			unsubRequest: SubscriptionRequest,
-			_channelString: string
-		) {
-			if (this.demoSocket && this.demoSocket.readyState === 1) {
-				this.demoSocket.send(JSON.stringify(unsubRequest));
+		// Ask for a fresh snapshot after a sequence gap: resubscribe the
+		// topic, or restart the synthetic book. Deltas arriving meanwhile
+		// are dropped by the book.
+		resyncDepth(depthSubscription: DepthSubscription) {
+			if (depthSubscription.resyncing) {
+				return;
+			}
+			depthSubscription.resyncing = true;
+			const { adapter, socketUrl, channelString } = depthSubscription;
+			console.warn(
+				`⚠️ [DemoDatafeed] Order book gap on ${channelString}, resyncing`
+			);
+
+			if (!socketUrl) {
+				depthSubscription.stopSynthetic?.();
+				this.openDepthChannel(depthSubscription);
+				return;
 			}
+			const socket = this.sockets.get(socketUrl);
+			if (
+				socket?.readyState === WebSocket.OPEN &&
+				adapter.formatSubscribe &&
+				adapter.formatUnsubscribe
+			) {
+				const topic = this.getTopic(depthSubscription);
+				socket.send(adapter.formatUnsubscribe([topic]));
+				socket.send(adapter.formatSubscribe([topic]));
+			}
+			// A closed socket resubscribes every book when it reconnects
 		},
 
-		// Start streaming for a specific channel (mirroring streaming.js message handling)
-		startChannelStreaming(subscriptionItem: SubscriptionItem) {
-			const { channelString } = subscriptionItem;
-
-			if (!this.streamingIntervals) {
-				this.streamingIntervals = {};
-			}
-
-			// Clear any existing interval for this channel
-			if (this.streamingIntervals[channelString]) {
-				clearInterval(this.streamingIntervals[channelString]);
-			}
-
-			// Simulate real-time trade data similar to streaming.js message processing
-			let lastPrice = 50000 + Math.random() * 10000;
-
-			this.streamingIntervals[channelString] = setInterval(() => {
-				// Simulate realistic price movement
-				const change = (Math.random() - 0.5) * 100;
-				lastPrice = Math.max(1000, lastPrice + change);
-
-				// Create trade data similar to streaming.js format
-				const tradeData: BybitFeedMessage = {
-					topic: channelString,
-					type: "snapshot",
-					data: [
-						{
-							T: Date.now(),
-							s: subscriptionItem.symbolInfo?.symbol || "DEMO",
-							S: Math.random() > 0.5 ? "Buy" : "Sell",
-							p: String(Math.round(lastPrice * 100) / 100),
-							i: Math.random().toString(36).substring(2, 11),
-							v: (Math.random() * 10 + 0.1).toFixed(3),
-						},
-					],
-				};
+		// Register a listener for stale/recovered channels. Returns an
+		// unsubscribe function.
+		onDataStatusChange(listener: DataStatusListener): () => void {
+			this.dataStatusListeners.add(listener);
+			return () => {
+				this.dataStatusListeners.delete(listener);
+			};
+		},
 
-				// Process the trade data for all handlers (mirroring streaming.js message handling)
-				this.processDemoTradeData(channelString, tradeData);
-			}, 2000);
+		setDataStatus(symbolInfo: SymbolInfo, dataStatus: DataStatus) {
+			// symbolInfo is the object handed out by resolveSymbol, so the
+			// chart and the symbol cache both see the new status
+			symbolInfo.data_status = dataStatus;
+			this.dataStatusListeners.forEach((listener) => {
+				try {
+					listener(symbolInfo, dataStatus);
+				} catch (error) {
+					console.error(
+						"❌ [DemoDatafeed] Error in data status listener:",
+						error
+					);
+				}
+			});
+		},
+
+		markChannelFresh(subscriptionItem: SubscriptionItem) {
+			subscriptionItem.lastTradeAt = Date.now();
+			if (subscriptionItem.liveDataStatus) {
+				this.setDataStatus(
+					subscriptionItem.symbolInfo,
+					subscriptionItem.liveDataStatus
+				);
+				subscriptionItem.liveDataStatus = null;
+			}
+		},
+
+		// Periodically flag channels whose trades stopped arriving
+		startStaleChannelCheck() {
+			if (this.staleCheckInterval) {
+				return;
+			}
+			this.staleCheckInterval = setInterval(() => {
+				const now = Date.now();
+				this.channelToSubscription?.forEach(
+					(subscriptionItem: SubscriptionItem) => {
+						// Paused replays are quiet on purpose
+						if (
+							subscriptionItem.liveDataStatus ||
+							this.isReplaying(subscriptionItem.symbolInfo) ||
+							now - subscriptionItem.lastTradeAt <
+								STALE_CHANNEL_AFTER_MS
+						) {
+							return;
+						}
+						console.warn(
+							`⚠️ [DemoDatafeed] No trades on ${subscriptionItem.channelString} for ${STALE_CHANNEL_AFTER_MS}ms`
+						);
+						subscriptionItem.liveDataStatus =
+							subscriptionItem.symbolInfo.data_status ||
+							"streaming";
+						this.setDataStatus(
+							subscriptionItem.symbolInfo,
+							STALE_DATA_STATUS
+						);
+					}
+				);
+			}, STALE_CHECK_INTERVAL_MS);
 		},
 
-		// Process demo trade data (mirroring streaming.js message processing)
-		processDemoTradeData(
-			channelString: string,
-			feedMessage: BybitFeedMessage
+		// Start streaming for a specific channel (mirroring streaming.js message handling)
+		startChannelStreaming(
+			subscriptionKey: string,
+			subscriptionItem: SubscriptionItem
 		) {
-			const subscriptionItem =
-				this.channelToSubscription?.get(channelString);
-			if (!subscriptionItem) {
+			const { adapter, symbolInfo } = subscriptionItem;
+
+			// Clear any existing stream for this channel
+			this.syntheticStreams[subscriptionKey]?.();
+
+			if (!adapter.startSyntheticStream) {
+				console.error(
+					`❌ [DemoDatafeed] Adapter ${adapter.name} has neither a socket nor a synthetic stream`
+				);
 				return;
 			}
 
-			const { data } = feedMessage;
-			if (!data || data.length === 0) return;
-
-			// Process each trade in the data array (matching streaming.js format exactly)
-			data.forEach((each: BybitTradeData) => {
-				const { T: timestamp, S: side, p: price, v: size } = each;
-
-				const symbol = subscriptionItem.symbolInfo?.symbol || "DEMO";
-				const tradeMessage = {
-					type: "trade",
-					productId: `DEMO:FUTURE:${symbol}`,
-					symbol: symbol,
-					exchange: subscriptionItem.symbolInfo?.exchange || "DEMO",
-					segment: "FUTURE",
-					timeStamp: new Date(timestamp),
-					tradeID: Math.random().toString(36).substring(2, 11),
-					price: Number(price),
-					quantity: Number(size),
-					amount: Number(price) * Number(size),
-					side: side.toUpperCase(),
-				};
+			// Pick up from the last bar served at the subscribed resolution
+			const lastBar = this.lastServedBars.get(
+				this.getSeriesKey(
+					symbolInfo,
+					this.normalizeResolution(subscriptionItem.resolution)
+				)
+			);
 
-				// Call all handlers for this channel (matching streaming.js exactly)
-				subscriptionItem.handlers.forEach(
-					(handler: StreamingHandler) => {
-						try {
-							handler.callback(tradeMessage);
-						} catch (error) {
-							console.error(
-								`❌ [DemoDatafeed] Error in handler ${handler.id}:`,
-								error
-							);
+			this.syntheticStreams[subscriptionKey] =
+				adapter.startSyntheticStream(
+					symbolInfo,
+					(trades: TradeMessage[]) => {
+						if (this.isReplaying(symbolInfo)) {
+							return;
 						}
-					}
+						trades.forEach((tradeMessage: TradeMessage) => {
+							this.dispatchTrade(subscriptionItem, tradeMessage);
+						});
+					},
+					lastBar
+						? { price: lastBar.close, time: lastBar.time }
+						: null
 				);
-			});
 		},
 	};
 
-	return datafeed as Datafeed;
+	return datafeed as ChartDatafeed;
 };
@@ -0,0 +1,178 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import {
+	adjustContinuousBar,
+	createContinuousSymbolInfo,
+	getContinuousSegments,
+	getContractAt,
+	parseContinuousSymbol,
+	ContinuousContract,
+	ContinuousOptions,
+	DEFAULT_CONTINUOUS_OPTIONS,
+} from "./continuous-futures";
+import { DatedContract } from "./adapters/exchange-adapter";
+import { RawBar } from "./datafeed-types";
+
+const DAY = 86400;
+
+const contract = (name: string, expiryDay: number): DatedContract => ({
+	fullName: `BYBIT:FUTURE:${name}`,
+	expiry: expiryDay * DAY * 1000,
+	launchTime: null,
+});
+
+const bar = (day: number, close: number, volume = 0): RawBar => ({
+	time: day * DAY,
+	open: close,
+	high: close,
+	low: close,
+	close,
+	volume,
+});
+
+const MARCH = contract("BTC-10MAR25", 10);
+const APRIL = contract("BTC-20APR25", 20);
+const MAY = contract("BTC-30MAY25", 30);
+
+const withBars = (
+	dated: DatedContract,
+	dailyBars: RawBar[] = []
+): ContinuousContract => ({ contract: dated, dailyBars });
+
+const options = (overrides: Partial<ContinuousOptions>): ContinuousOptions => ({
+	...DEFAULT_CONTINUOUS_OPTIONS,
+	...overrides,
+});
+
+const spans = (
+	contracts: ContinuousContract[],
+	rank: number,
+	roll: ContinuousOptions
+) =>
+	getContinuousSegments(contracts, rank, roll).map((segment) => [
+		segment.contract.fullName,
+		segment.from / DAY,
+		segment.to / DAY,
+	]);
+
+describe("parseContinuousSymbol", () => {
+	it("splits prefix, root and rank", () => {
+		expect(parseContinuousSymbol("BYBIT:FUTURE:btc2!")).toEqual({
+			prefix: "BYBIT:FUTURE:",
+			root: "BTC",
+			rank: 2,
+		});
+		expect(parseContinuousSymbol("ES1!")).toEqual({
+			prefix: "",
+			root: "ES",
+			rank: 1,
+		});
+	});
+
+	it("leaves other symbols alone", () => {
+		expect(parseContinuousSymbol("BYBIT:FUTURE:BTCUSDT")).toBeNull();
+		expect(parseContinuousSymbol("BYBIT:FUTURE:BTC0!")).toBeNull();
+	});
+});
+
+describe("getContractAt", () => {
+	it("counts only contracts not yet expired", () => {
+		const contracts = [MAY, MARCH, APRIL];
+		expect(getContractAt(contracts, 1, 5 * DAY * 1000)).toBe(MARCH);
+		expect(getContractAt(contracts, 2, 15 * DAY * 1000)).toBe(MAY);
+		expect(getContractAt(contracts, 3, 15 * DAY * 1000)).toBeUndefined();
+	});
+});
+
+describe("getContinuousSegments", () => {
+	const contracts = [withBars(MARCH), withBars(APRIL), withBars(MAY)];
+
+	it("rolls the given number of days before expiry", () => {
+		expect(spans(contracts, 1, DEFAULT_CONTINUOUS_OPTIONS)).toEqual([
+			[MARCH.fullName, 0, 9],
+			[APRIL.fullName, 9, 19],
+			[MAY.fullName, 19, Infinity],
+		]);
+		expect(spans(contracts, 1, options({ rollDays: 3 }))[0]).toEqual([
+			MARCH.fullName,
+			0,
+			7,
+		]);
+	});
+
+	it("holds the contract after the front one for rank 2", () => {
+		expect(spans(contracts, 2, DEFAULT_CONTINUOUS_OPTIONS)).toEqual([
+			[APRIL.fullName, 0, 9],
+			[MAY.fullName, 9, 19],
+		]);
+	});
+
+	it("rolls the day after the next contract trades more", () => {
+		const traded = [
+			withBars(MARCH, [bar(4, 100, 50), bar(5, 100, 20)]),
+			withBars(APRIL, [bar(4, 100, 10), bar(5, 100, 30)]),
+			withBars(MAY),
+		];
+		expect(spans(traded, 1, options({ roll: "volume" }))[0]).toEqual([
+			MARCH.fullName,
+			0,
+			6,
+		]);
+	});
+
+	it("rolls on open interest, no later than the expiry roll", () => {
+		const held: ContinuousContract[] = [
+			{ ...withBars(MARCH), openInterest: [bar(3, 500)] },
+			{ ...withBars(APRIL), openInterest: [bar(3, 400)] },
+			withBars(MAY),
+		];
+		expect(spans(held, 1, options({ roll: "open-interest" }))[0]).toEqual([
+			MARCH.fullName,
+			0,
+			9,
+		]);
+	});
+
+	it("back-adjusts history to the latest contract", () => {
+		const priced = [
+			withBars(MARCH, [bar(8, 100)]),
+			withBars(APRIL, [bar(8, 110), bar(18, 120)]),
+			withBars(MAY, [bar(18, 126)]),
+		];
+		const difference = getContinuousSegments(
+			priced,
+			1,
+			options({ adjustment: "difference" })
+		);
+		expect(difference.map(({ offset }) => offset)).toEqual([16, 6, 0]);
+
+		const ratio = getContinuousSegments(
+			priced,
+			1,
+			options({ adjustment: "ratio" })
+		);
+		expect(ratio.map(({ factor }) => factor)).toEqual([
+			1.05 * 1.1,
+			1.05,
+			1,
+		]);
+		expect(adjustContinuousBar(bar(1, 100), ratio[1]).close).toBeCloseTo(
+			105
+		);
+	});
+});
+
+describe("createContinuousSymbolInfo", () => {
+	it("names the series after the contract it holds", () => {
+		const info = createContinuousSymbolInfo(
+			{ symbol: "BTC-10MAR25", full_name: MARCH.fullName } as SymbolInfo,
+			"BYBIT:FUTURE:BTC1!",
+			{ prefix: "BYBIT:FUTURE:", root: "BTC", rank: 1 }
+		);
+		expect(info).toMatchObject({
+			symbol: "BTC1!",
+			full_name: "BYBIT:FUTURE:BTC1!",
+			description: "BTC Futures, Continuous Front Contract",
+			tradeable: false,
+		});
+	});
+});
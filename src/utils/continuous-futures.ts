@@ -0,0 +1,277 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { DatedContract } from "./adapters/exchange-adapter";
+import { RawBar } from "./datafeed-types";
+
+const DAY_SECONDS = 86400;
+
+/**
+ * When a continuous series moves on to the next contract: once the next
+ * contract trades more volume or holds more open interest than the
+ * current one, or a number of days before the current one expires
+ */
+export type ContinuousRoll = "volume" | "open-interest" | "expiry";
+
+/**
+ * How history before a roll is shifted to meet the next contract's
+ * prices: not at all, by the price gap at the roll, or by the price ratio
+ */
+export type ContinuousAdjustment = "none" | "difference" | "ratio";
+
+/**
+ * Roll rule and back-adjustment of continuous futures
+ */
+export type ContinuousOptions = {
+	roll: ContinuousRoll;
+	/**
+	 * Days before expiry an expiry roll happens, and the latest a volume
+	 * or open interest roll may happen
+	 */
+	rollDays: number;
+	adjustment: ContinuousAdjustment;
+};
+
+/** Roll a day before expiry without adjusting history */
+export const DEFAULT_CONTINUOUS_OPTIONS: ContinuousOptions = {
+	roll: "expiry",
+	rollDays: 1,
+	adjustment: "none",
+};
+
+/**
+ * Contract root and position of a continuous symbol name such as
+ * BYBIT:FUTURE:BTC1!, where 1 is the front contract and 2 the next
+ */
+export type ContinuousSymbol = {
+	/** Exchange and segment the dated contracts are listed under */
+	prefix: string;
+	/** Contract name before its expiry, e.g. BTC for BTC-27DEC24 */
+	root: string;
+	rank: number;
+};
+
+/**
+ * Dated contract with the daily bars a roll schedule is worked out from
+ */
+export type ContinuousContract = {
+	contract: DatedContract;
+	/** Daily price bars, oldest first, for volume rolls and adjustments */
+	dailyBars: RawBar[];
+	/** Daily open interest, oldest first, for open interest rolls */
+	openInterest?: RawBar[];
+};
+
+/**
+ * Period a continuous series takes its bars from one contract, with the
+ * back-adjustment applied to them
+ */
+export type ContinuousSegment = {
+	contract: DatedContract;
+	/** Unix seconds the contract takes over */
+	from: number;
+	/** Unix seconds the next contract takes over; Infinity for the latest */
+	to: number;
+	/** Prices are multiplied by factor, then offset is added */
+	factor: number;
+	offset: number;
+};
+
+const CONTINUOUS_SYMBOL = /^((?:[A-Z0-9_]+:)*)([A-Z0-9_.]+?)(\d+)!$/i;
+
+/**
+ * Splits a continuous symbol name into its prefix, contract root and
+ * rank, or returns null for any other symbol name
+ */
+export const parseContinuousSymbol = (
+	symbolName: string
+): ContinuousSymbol | null => {
+	const match = CONTINUOUS_SYMBOL.exec(symbolName);
+	if (!match || Number(match[3]) < 1) return null;
+	return {
+		prefix: match[1],
+		root: match[2].toUpperCase(),
+		rank: Number(match[3]),
+	};
+};
+
+/**
+ * Continuous symbol a symbol stands for, or null for any other symbol
+ */
+export const getContinuousSymbol = (
+	symbolInfo: SymbolInfo
+): ContinuousSymbol | null =>
+	parseContinuousSymbol(symbolInfo.full_name || symbolInfo.symbol || "");
+
+/**
+ * Rank-th contract by expiry among those not expired at a time (unix
+ * milliseconds), or undefined when too few are listed
+ */
+export const getContractAt = (
+	contracts: DatedContract[],
+	rank: number,
+	time: number
+): DatedContract | undefined =>
+	[...contracts]
+		.sort((a, b) => a.expiry - b.expiry)
+		.filter((contract) => contract.expiry > time)[rank - 1];
+
+const getDayStart = (time: number): number =>
+	Math.floor(time / DAY_SECONDS) * DAY_SECONDS;
+
+// Close of the last bar starting before a time, if any
+const getCloseBefore = (bars: RawBar[], time: number): number | undefined =>
+	bars.filter((bar) => bar.time < time).pop()?.close;
+
+/**
+ * Unix seconds each front contract hands over to the next, one per
+ * contract but the last. Volume and open interest rolls happen the day
+ * after the next contract first beats the current one, and no later than
+ * the expiry roll.
+ */
+const getRollTimes = (
+	contracts: ContinuousContract[],
+	options: ContinuousOptions
+): number[] => {
+	const rollTimes: number[] = [];
+	contracts.slice(0, -1).forEach(({ contract }, index) => {
+		const deadline = getDayStart(
+			contract.expiry / 1000 - options.rollDays * DAY_SECONDS
+		);
+		const previous = rollTimes[index - 1] ?? -Infinity;
+		let rollTime = deadline;
+		if (options.roll !== "expiry") {
+			const getActivity = ({
+				dailyBars,
+				openInterest,
+			}: ContinuousContract) =>
+				new Map<number, number>(
+					options.roll === "volume"
+						? dailyBars.map((bar) => [bar.time, bar.volume])
+						: (openInterest || []).map((bar) => [
+								bar.time,
+								bar.close,
+							])
+				);
+			const current = getActivity(contracts[index]);
+			const next = getActivity(contracts[index + 1]);
+			const overtaken = Array.from(next.keys())
+				.sort((a, b) => a - b)
+				.find(
+					(time) =>
+						time >= previous &&
+						time < deadline &&
+						(next.get(time) as number) > (current.get(time) ?? 0)
+				);
+			if (overtaken !== undefined) {
+				rollTime = Math.min(
+					deadline,
+					getDayStart(overtaken) + DAY_SECONDS
+				);
+			}
+		}
+		rollTimes.push(Math.max(rollTime, previous));
+	});
+	return rollTimes;
+};
+
+/**
+ * Periods the rank-th contract of a continuous series covers, oldest
+ * first, from contracts given in the order they expire
+ *
+ * History before each roll is back-adjusted by the gap or ratio between
+ * the two contracts' closes on the day before the roll, so the latest
+ * contract keeps its traded prices and earlier ones line up with it.
+ */
+export const getContinuousSegments = (
+	contracts: ContinuousContract[],
+	rank: number,
+	options: ContinuousOptions
+): ContinuousSegment[] => {
+	const rollTimes = getRollTimes(contracts, options);
+	const segments: ContinuousSegment[] = [];
+	contracts.forEach((_front, index) => {
+		const held = contracts[index + rank - 1];
+		const from = index === 0 ? 0 : rollTimes[index - 1];
+		const to = rollTimes[index] ?? Infinity;
+		if (!held || to <= from) return;
+		segments.push({
+			contract: held.contract,
+			from,
+			to,
+			factor: 1,
+			offset: 0,
+		});
+	});
+
+	const dailyBars = new Map(
+		contracts.map(({ contract, dailyBars }) => [
+			contract.fullName,
+			dailyBars,
+		])
+	);
+	for (let index = segments.length - 2; index >= 0; index -= 1) {
+		const segment = segments[index];
+		const next = segments[index + 1];
+		const close = getCloseBefore(
+			dailyBars.get(segment.contract.fullName) || [],
+			segment.to
+		);
+		const nextClose = getCloseBefore(
+			dailyBars.get(next.contract.fullName) || [],
+			segment.to
+		);
+		const adjusts =
+			close !== undefined && nextClose !== undefined && close > 0;
+		segment.factor =
+			options.adjustment === "ratio" && adjusts
+				? next.factor * ((nextClose as number) / (close as number))
+				: next.factor;
+		segment.offset =
+			options.adjustment === "difference" && adjusts
+				? next.offset + (nextClose as number) - (close as number)
+				: next.offset;
+	}
+	return segments;
+};
+
+/**
+ * Bar of a contract back-adjusted for the segment it was taken from
+ */
+export const adjustContinuousBar = (
+	bar: RawBar,
+	segment: ContinuousSegment
+): RawBar => {
+	if (segment.factor === 1 && segment.offset === 0) return bar;
+	const adjust = (price: number) => price * segment.factor + segment.offset;
+	return {
+		...bar,
+		open: adjust(bar.open),
+		high: adjust(bar.high),
+		low: adjust(bar.low),
+		close: adjust(bar.close),
+	};
+};
+
+/**
+ * Symbol info of a continuous series from that of the contract it holds
+ * now. The series is not tradeable itself.
+ */
+export const createContinuousSymbolInfo = (
+	contractInfo: SymbolInfo,
+	symbolName: string,
+	continuous: ContinuousSymbol
+): SymbolInfo => {
+	const symbol = `${continuous.root}${continuous.rank}!`;
+	return {
+		...contractInfo,
+		symbol,
+		ticker: symbol,
+		full_name: symbolName,
+		description: `${continuous.root} Futures, Continuous ${
+			continuous.rank === 1
+				? "Front Contract"
+				: `Contract ${continuous.rank}`
+		}`,
+		future_type: "continuous",
+		tradeable: false,
+	};
+};
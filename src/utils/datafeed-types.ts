@@ -0,0 +1,65 @@
+// ============================================================================
+// Types shared by the datafeed and its exchange adapters
+// ============================================================================
+
+/**
+ * Raw bar data structure (before UDF conversion)
+ */
+export type RawBar = {
+	time: number;
+	open: number;
+	high: number;
+	low: number;
+	close: number;
+	volume: number;
+	/** Quote-currency volume (notional), when the venue reports it */
+	turnover?: number;
+	date?: string;
+};
+
+/**
+ * What chart volume measures: base-asset size ("base", e.g. BTC) or
+ * quote notional ("quote", e.g. USDT)
+ */
+export type VolumeUnit = "base" | "quote";
+
+/**
+ * Resolution conversion result
+ */
+export type ResolutionInfo = {
+	scale: number;
+	units: string;
+	label: string;
+};
+
+/**
+ * Trade message for real-time updates
+ */
+export type TradeMessage = {
+	type: string;
+	productId: string;
+	symbol: string;
+	exchange: string;
+	segment: string;
+	timeStamp: Date;
+	tradeID: string;
+	price: number;
+	quantity: number;
+	amount: number;
+	side: string;
+};
+
+/**
+ * Order book change from a venue. Levels are [price, size] pairs; a size
+ * of 0 removes the level.
+ */
+export type DepthUpdate = {
+	/** A snapshot replaces the book, a delta changes it */
+	type: "snapshot" | "delta";
+	bids: Array<[number, number]>;
+	asks: Array<[number, number]>;
+	/** Venue update id; each delta follows the previous update by one */
+	sequence: number;
+	/** Exchange time in unix milliseconds */
+	time: number;
+};
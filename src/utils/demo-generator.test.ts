@@ -0,0 +1,103 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { createDemoGenerator } from "./demo-generator";
+import { RawBar, ResolutionInfo } from "./datafeed-types";
+
+const crypto = {
+	symbol: "BTCUSDT",
+	full_name: "DEMO:BTCUSDT",
+	session: "24x7",
+	timezone: "Etc/UTC",
+	tick_size: 0.01,
+	type: "crypto",
+} as SymbolInfo;
+
+const stock = {
+	symbol: "AAPL",
+	full_name: "DEMO:AAPL",
+	session: "0930-1600",
+	timezone: "America/New_York",
+	tick_size: 0.01,
+	type: "stock",
+	exchange_info: {
+		hours: [false, true, true, true, true, true, false].map((open) => ({
+			open,
+		})),
+	},
+} as SymbolInfo;
+
+const MINUTE: ResolutionInfo = { scale: 1, units: "minutes", label: "1" };
+const HOUR: ResolutionInfo = { scale: 60, units: "minutes", label: "60" };
+const DAY: ResolutionInfo = { scale: 1, units: "days", label: "D" };
+const WEEK: ResolutionInfo = { scale: 1, units: "weeks", label: "W" };
+
+// 2025-06-02, a Monday
+const MONDAY = Date.UTC(2025, 5, 2) / 1000;
+
+const aggregate = (bars: RawBar[]) => ({
+	open: bars[0].open,
+	high: Math.max(...bars.map((bar) => bar.high)),
+	low: Math.min(...bars.map((bar) => bar.low)),
+	close: bars[bars.length - 1].close,
+});
+
+const prices = ({ open, high, low, close }: RawBar) => ({
+	open,
+	high,
+	low,
+	close,
+});
+
+describe("createDemoGenerator", () => {
+	it.each(["gbm", "meanReversion", "regimeSwitching"] as const)(
+		"builds coarser %s bars from the finer ones",
+		(model) => {
+			const generator = createDemoGenerator(crypto, { model });
+			const minutes = generator.generateBars(
+				MONDAY,
+				MONDAY + 3599,
+				MINUTE
+			);
+			const [hour] = generator.generateBars(MONDAY, MONDAY, HOUR);
+			expect(minutes).toHaveLength(60);
+			expect(aggregate(minutes)).toEqual(prices(hour));
+			const volume = minutes.reduce((sum, bar) => sum + bar.volume!, 0);
+			expect(volume).toBeCloseTo(hour.volume!, 1);
+
+			const hours = generator.generateBars(MONDAY, MONDAY + 86399, HOUR);
+			const [day] = generator.generateBars(MONDAY, MONDAY, DAY);
+			expect(aggregate(hours)).toEqual(prices(day));
+		}
+	);
+
+	it("builds daily and weekly bars from the trading sessions", () => {
+		const generator = createDemoGenerator(stock);
+		const tuesday = MONDAY + 86400;
+		const minutes = generator.generateBars(
+			tuesday,
+			tuesday + 86399,
+			MINUTE
+		);
+		const [day] = generator.generateBars(tuesday, tuesday, DAY);
+		expect(minutes).toHaveLength(390);
+		expect(aggregate(minutes)).toEqual(prices(day));
+
+		const days = generator.generateBars(
+			MONDAY,
+			MONDAY + 7 * 86400 - 1,
+			DAY
+		);
+		const [week] = generator.generateBars(MONDAY, MONDAY, WEEK);
+		expect(days).toHaveLength(5);
+		expect(aggregate(days)).toEqual(prices(week));
+	});
+
+	it("gives the same bars whatever range is requested", () => {
+		const generator = createDemoGenerator(crypto);
+		const wide = generator.generateBars(MONDAY - 86400, MONDAY, MINUTE);
+		const narrow = generator.generateBars(MONDAY - 600, MONDAY, MINUTE);
+		expect(wide.slice(-narrow.length)).toEqual(narrow);
+		expect(
+			createDemoGenerator(crypto).generateBars(MONDAY, MONDAY, HOUR)
+		).toEqual(generator.generateBars(MONDAY, MONDAY, HOUR));
+	});
+});
@@ -0,0 +1,561 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { RawBar, ResolutionInfo } from "./datafeed-types";
+import { getResolutionSeconds } from "./resolution";
+import {
+	getLocalMidnight,
+	getTradingSession,
+	isContinuousUtcSession,
+	isInTradingSession,
+	isTradingDay,
+} from "./session";
+
+/**
+ * Price process used by the demo generator
+ *
+ * - gbm: geometric Brownian motion with constant drift and volatility
+ * - meanReversion: log price reverts to the starting price (Ornstein-Uhlenbeck)
+ * - regimeSwitching: GBM whose volatility and drift switch between a calm
+ *   and a turbulent regime
+ */
+export type DemoMarketModel = "gbm" | "meanReversion" | "regimeSwitching";
+
+/**
+ * Options for createDemoGenerator
+ */
+export type DemoGeneratorOptions = {
+	/** Seed; defaults to the symbol's full name so every symbol differs */
+	seed?: string | number;
+	model?: DemoMarketModel;
+	/** Price at the generator's origin; defaults to a multiple of tick_size */
+	startPrice?: number;
+	/** Annualised volatility; defaults by symbol type */
+	annualVolatility?: number;
+	/** Annualised drift of the log price (default 0.05) */
+	annualDrift?: number;
+	/** Mean reversion speed per year for meanReversion (default 4) */
+	reversionSpeed?: number;
+};
+
+/**
+ * Deterministic bar generator for one symbol
+ */
+export type DemoGenerator = {
+	/** Bars whose start time lies in [from, to], skipping closed sessions */
+	generateBars: (
+		from: number,
+		to: number,
+		resolutionInfo: ResolutionInfo
+	) => RawBar[];
+	/** Price at the generator's origin */
+	startPrice: number;
+	/** Seeded uniform random numbers in [0, 1) for a named stream */
+	createRandom: (stream: string) => () => number;
+	/** Rounds a price to the symbol's tick size */
+	roundPrice: (price: number) => number;
+};
+
+/** Bars are anchored here, so the same seed gives the same bars for any range */
+const GENESIS_TIME = Date.UTC(2024, 0, 1) / 1000; // a Monday
+/** Cells of the path halve from 2^TOP_LEVEL seconds (about 48 days) */
+const TOP_LEVEL = 22;
+const TOP_CELL_SECONDS = 2 ** TOP_LEVEL;
+const SECONDS_PER_YEAR = 365 * 86400;
+
+const DEFAULT_VOLATILITY: Record<string, number> = {
+	crypto: 0.7,
+	stock: 0.3,
+	forex: 0.08,
+};
+
+/** Calm and turbulent regimes for regimeSwitching */
+const REGIMES = [
+	{ volatilityScale: 0.6, drift: 0.15 },
+	{ volatilityScale: 1.8, drift: -0.2 },
+];
+/** Chance per top cell of leaving the current regime */
+const REGIME_SWITCH_PROBABILITY = 0.15;
+
+/**
+ * Stretch of the path in log prices, with its volume and turnover
+ */
+type PathCell = {
+	open: number;
+	high: number;
+	low: number;
+	close: number;
+	volume: number;
+	turnover: number;
+};
+
+/**
+ * FNV-1a hash of a string
+ */
+const hashString = (value: string): number => {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+};
+
+/**
+ * Combines two integers into a well mixed 32-bit hash (murmur3 finalizer)
+ */
+const mix = (a: number, b: number): number => {
+	let h = Math.imul(a ^ (b + 0x9e3779b9 + (a << 6) + (a >>> 2)), 0x85ebca6b);
+	h ^= h >>> 13;
+	h = Math.imul(h, 0xc2b2ae35);
+	h ^= h >>> 16;
+	return h >>> 0;
+};
+
+/**
+ * Uniform number in (0, 1) for (seed, index, salt), usable in any order
+ */
+const uniformAt = (seed: number, index: number, salt: number): number =>
+	(mix(mix(seed, index | 0), salt) + 1) / 4294967297;
+
+/**
+ * Standard normal number for (seed, index, salt) via Box-Muller
+ */
+const normalAt = (seed: number, index: number, salt: number): number => {
+	const u1 = uniformAt(seed, index, salt);
+	const u2 = uniformAt(seed, index, salt + 1);
+	return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+/**
+ * Sequential seeded PRNG (mulberry32)
+ */
+const createSeededRandom = (seed: number): (() => number) => {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+/**
+ * Absolute bar index of a timestamp and the start time of a bar index.
+ * Matches the datafeed's bar alignment: epoch multiples, Monday weeks and
+ * calendar months.
+ */
+const getBarIndexing = (resolutionInfo: ResolutionInfo) => {
+	if (resolutionInfo.units === "months") {
+		const { scale } = resolutionInfo;
+		return {
+			indexOf: (timestamp: number) => {
+				const date = new Date(timestamp * 1000);
+				return Math.floor(
+					(date.getUTCFullYear() * 12 + date.getUTCMonth()) / scale
+				);
+			},
+			timeOf: (index: number) => {
+				const month = index * scale;
+				return Date.UTC(Math.floor(month / 12), month % 12, 1) / 1000;
+			},
+		};
+	}
+	const interval = getResolutionSeconds(resolutionInfo);
+	// 1970-01-01 was a Thursday, so Mondays are offset by 4 days
+	const offset = resolutionInfo.units === "weeks" ? 4 * 86400 : 0;
+	return {
+		indexOf: (timestamp: number) =>
+			Math.floor((timestamp - offset) / interval),
+		timeOf: (index: number) => index * interval + offset,
+	};
+};
+
+/**
+ * Creates a deterministic demo bar generator for a symbol
+ *
+ * Prices follow one path per symbol, anchored at a fixed origin: a coarse
+ * walk over top cells of about 48 days, each halved again and again down to
+ * one second with a Brownian bridge. A bar of any resolution merges the
+ * cells covering its time, so it depends only on the seed and its time,
+ * never on the requested range, and coarser bars aggregate finer ones.
+ *
+ * @example
+ * ```typescript
+ * const generator = createDemoGenerator(symbolInfo, { model: 'meanReversion' });
+ * const bars = generator.generateBars(from, to, { scale: 5, units: 'minutes', label: '5' });
+ * ```
+ */
+export const createDemoGenerator = (
+	symbolInfo: SymbolInfo,
+	options: DemoGeneratorOptions = {}
+): DemoGenerator => {
+	const seed = hashString(
+		String(
+			options.seed ?? (symbolInfo.full_name || symbolInfo.symbol || "")
+		)
+	);
+	const model: DemoMarketModel = options.model || "gbm";
+	const tickSize: number = symbolInfo.tick_size || 0.01;
+	const volatility =
+		options.annualVolatility ??
+		DEFAULT_VOLATILITY[symbolInfo.type as string] ??
+		0.5;
+	const drift = options.annualDrift ?? 0.05;
+	const reversionSpeed = options.reversionSpeed ?? 4;
+	// 10,000 to 100,000 ticks keeps prices plausible for the tick size
+	const startPrice =
+		options.startPrice ??
+		tickSize * Math.pow(10, 4 + uniformAt(seed, 0, 101));
+	const logStart = Math.log(startPrice);
+	const precision = Math.max(
+		0,
+		Math.min(10, Math.ceil(-Math.log10(tickSize) - 1e-9))
+	);
+
+	const session = getTradingSession(symbolInfo);
+	const continuous = isContinuousUtcSession(session);
+	// Typical notional of one million quote units a minute
+	const volumePerSecond = 1000000 / startPrice / 60;
+
+	const roundPrice = (price: number): number =>
+		Number((Math.round(price / tickSize) * tickSize).toFixed(precision));
+
+	// Memo of top cell boundary log prices and regimes
+	const levels = new Map<number, number>([[0, logStart]]);
+	const regimes = new Map<number, number>([[0, 0]]);
+
+	const regimeAt = (block: number) => {
+		if (model !== "regimeSwitching") return 0;
+		const step = block >= 0 ? 1 : -1;
+		let current = 0;
+		while (!regimes.has(block)) {
+			// Extend the chain from the nearest known block
+			let known = block;
+			while (!regimes.has(known)) known -= step;
+			for (current = known + step; ; current += step) {
+				const previous = regimes.get(current - step) as number;
+				const switches =
+					uniformAt(seed, current, 211) < REGIME_SWITCH_PROBABILITY;
+				regimes.set(current, switches ? 1 - previous : previous);
+				if (current === block) break;
+			}
+		}
+		return regimes.get(block) as number;
+	};
+
+	// Volatility and drift per year in a top cell
+	const blockParameters = (block: number) => {
+		const regime = REGIMES[regimeAt(block)];
+		return model === "regimeSwitching"
+			? {
+					sigma: volatility * regime.volatilityScale,
+					mu: regime.drift,
+				}
+			: { sigma: volatility, mu: drift };
+	};
+
+	// Log price at the start of a top cell
+	const levelAt = (block: number): number => {
+		if (levels.has(block)) return levels.get(block) as number;
+
+		const dt = TOP_CELL_SECONDS / SECONDS_PER_YEAR;
+		const step = block >= 0 ? 1 : -1;
+		let known = block;
+		while (!levels.has(known)) known -= step;
+		for (let current = known + step; ; current += step) {
+			const previousBlock = current - step;
+			const previous = levels.get(previousBlock) as number;
+			const { sigma, mu } = blockParameters(
+				Math.min(current, previousBlock)
+			);
+			const shock =
+				sigma *
+				Math.sqrt(dt) *
+				normalAt(seed, Math.min(current, previousBlock), 307);
+			let next: number;
+			if (model === "meanReversion") {
+				// Exact OU transition towards the starting log price
+				const decay = Math.exp(-reversionSpeed * dt);
+				const spread = Math.sqrt(
+					(1 - decay * decay) / (2 * reversionSpeed * dt)
+				);
+				next =
+					logStart + (previous - logStart) * decay + shock * spread;
+			} else {
+				const increment = mu * dt + shock;
+				next = previous + step * increment;
+			}
+			levels.set(current, next);
+			if (current === block) break;
+		}
+		return levels.get(block) as number;
+	};
+
+	// Typical price of a cell, weighting how its turnover is split
+	const typicalPrice = (cell: PathCell): number =>
+		Math.exp((cell.high + cell.low + cell.close) / 3);
+
+	const topCell = (block: number): PathCell => {
+		const { sigma } = blockParameters(block);
+		const wick =
+			0.5 * sigma * Math.sqrt(TOP_CELL_SECONDS / SECONDS_PER_YEAR);
+		const open = levelAt(block);
+		const close = levelAt(block + 1);
+		const cell: PathCell = {
+			open,
+			close,
+			high:
+				Math.max(open, close) +
+				wick * Math.abs(normalAt(seed, block, 503)),
+			low:
+				Math.min(open, close) -
+				wick * Math.abs(normalAt(seed, block, 509)),
+			volume:
+				volumePerSecond *
+				TOP_CELL_SECONDS *
+				Math.exp(0.3 * normalAt(seed, block, 601)),
+			turnover: 0,
+		};
+		cell.turnover = cell.volume * typicalPrice(cell);
+		return cell;
+	};
+
+	// Halves of a cell: a Brownian bridge point in the middle, kept inside
+	// the cell's range, with one half reaching each of its extremes and the
+	// volume and turnover shared out between them
+	const splitCell = (
+		parent: PathCell,
+		level: number,
+		index: number
+	): [PathCell, PathCell] => {
+		const block = Math.floor(index / 2 ** (TOP_LEVEL - level));
+		const { sigma } = blockParameters(block);
+		const halfScale =
+			sigma * Math.sqrt(2 ** (level - 1) / SECONDS_PER_YEAR);
+		const salt = 1000 + level * 16;
+		const middle = Math.min(
+			parent.high,
+			Math.max(
+				parent.low,
+				(parent.open + parent.close) / 2 +
+					halfScale * Math.SQRT1_2 * normalAt(seed, index, salt)
+			)
+		);
+
+		// The half holding the parent's extreme, else a wick capped by it
+		const splitExtreme = (
+			extreme: number,
+			firstBase: number,
+			secondBase: number,
+			direction: number,
+			offset: number
+		): [number, number] => {
+			const firstHolds =
+				firstBase === extreme ||
+				(secondBase !== extreme &&
+					uniformAt(seed, index, salt + offset) < 0.5);
+			const wick = (base: number) => {
+				const reach =
+					base +
+					direction *
+						0.5 *
+						halfScale *
+						Math.abs(normalAt(seed, index, salt + offset + 2));
+				return direction > 0
+					? Math.min(extreme, reach)
+					: Math.max(extreme, reach);
+			};
+			return firstHolds
+				? [extreme, wick(secondBase)]
+				: [wick(firstBase), extreme];
+		};
+		const [firstHigh, secondHigh] = splitExtreme(
+			parent.high,
+			Math.max(parent.open, middle),
+			Math.max(middle, parent.close),
+			1,
+			4
+		);
+		const [firstLow, secondLow] = splitExtreme(
+			parent.low,
+			Math.min(parent.open, middle),
+			Math.min(middle, parent.close),
+			-1,
+			8
+		);
+
+		const share =
+			1 / (1 + Math.exp(0.6 * normalAt(seed, index, salt + 12)));
+		const first: PathCell = {
+			open: parent.open,
+			close: middle,
+			high: firstHigh,
+			low: firstLow,
+			volume: parent.volume * share,
+			turnover: 0,
+		};
+		const second: PathCell = {
+			open: middle,
+			close: parent.close,
+			high: secondHigh,
+			low: secondLow,
+			volume: parent.volume - first.volume,
+			turnover: 0,
+		};
+		const firstValue = first.volume * typicalPrice(first);
+		const secondValue = second.volume * typicalPrice(second);
+		first.turnover =
+			(parent.turnover * firstValue) / (firstValue + secondValue || 1);
+		second.turnover = parent.turnover - first.turnover;
+		return [first, second];
+	};
+
+	// Memo key of a cell, exact while indexes stay within 2^48
+	const cellKey = (level: number, index: number) =>
+		index * (TOP_LEVEL + 1) + level;
+
+	// Cell of 2^level seconds at an index counted from GENESIS_TIME,
+	// through the memo of one generateBars call
+	const getCell = (
+		level: number,
+		index: number,
+		cells: Map<number, PathCell>
+	): PathCell => {
+		const key = cellKey(level, index);
+		const cached = cells.get(key);
+		if (cached) return cached;
+		if (level === TOP_LEVEL) {
+			const cell = topCell(index);
+			cells.set(key, cell);
+			return cell;
+		}
+		const parentIndex = Math.floor(index / 2);
+		const halves = splitCell(
+			getCell(level + 1, parentIndex, cells),
+			level + 1,
+			parentIndex
+		);
+		cells.set(cellKey(level, parentIndex * 2), halves[0]);
+		cells.set(cellKey(level, parentIndex * 2 + 1), halves[1]);
+		return halves[index - parentIndex * 2];
+	};
+
+	// Path over [start, end): the largest aligned cells covering it, in
+	// order, merged like bars
+	const addPath = (
+		start: number,
+		end: number,
+		cells: Map<number, PathCell>,
+		path: PathCell | null
+	): PathCell | null => {
+		let merged = path;
+		let time = start;
+		while (time < end) {
+			const offset = time - GENESIS_TIME;
+			let level = TOP_LEVEL;
+			while (
+				level > 0 &&
+				(offset % 2 ** level !== 0 || time + 2 ** level > end)
+			) {
+				level -= 1;
+			}
+			const cell = getCell(level, Math.floor(offset / 2 ** level), cells);
+			merged = merged
+				? {
+						open: merged.open,
+						close: cell.close,
+						high: Math.max(merged.high, cell.high),
+						low: Math.min(merged.low, cell.low),
+						volume: merged.volume + cell.volume,
+						turnover: merged.turnover + cell.turnover,
+					}
+				: { ...cell };
+			time += 2 ** level;
+		}
+		return merged;
+	};
+
+	// Path over a daily or longer bar: the sessions opening on its days
+	const addSessionPath = (
+		firstDay: number,
+		endDay: number,
+		cells: Map<number, PathCell>
+	): PathCell | null => {
+		let path: PathCell | null = null;
+		for (let day = firstDay; day < endDay; day++) {
+			if (!isTradingDay(day, session)) continue;
+			const close = session.earlyCloses.get(day) ?? session.close;
+			const length = ((close - session.open + 1440) % 1440 || 1440) * 60;
+			const open =
+				getLocalMidnight(day, session.timeZone) + session.open * 60;
+			path = addPath(open, open + length, cells, path);
+		}
+		return path;
+	};
+
+	return {
+		startPrice: roundPrice(startPrice),
+
+		roundPrice,
+
+		createRandom: (stream: string) =>
+			createSeededRandom(mix(seed, hashString(stream))),
+
+		generateBars(
+			from: number,
+			to: number,
+			resolutionInfo: ResolutionInfo
+		): RawBar[] {
+			const bars: RawBar[] = [];
+			const { indexOf, timeOf } = getBarIndexing(resolutionInfo);
+			const intervalSeconds = getResolutionSeconds(resolutionInfo);
+			const dateBars = intervalSeconds >= 86400;
+			// Daily and longer bars start at the exchange's local midnight
+			const barTime = (index: number) =>
+				dateBars
+					? getLocalMidnight(
+							Math.floor(timeOf(index) / 86400),
+							session.timeZone
+						)
+					: timeOf(index);
+			const cells = new Map<number, PathCell>();
+
+			let firstIndex = indexOf(from);
+			if (timeOf(firstIndex) < from) firstIndex += 1;
+			const lastIndex = indexOf(to);
+
+			let nextTime = barTime(firstIndex);
+			for (let index = firstIndex; index <= lastIndex; index++) {
+				const time = nextTime;
+				nextTime = barTime(index + 1);
+				if (!isInTradingSession(time, session, intervalSeconds)) {
+					continue;
+				}
+
+				// Every bar covers its stretch of the one path, so coarser
+				// bars aggregate finer ones
+				const path =
+					dateBars && !continuous
+						? addSessionPath(
+								Math.floor(timeOf(index) / 86400),
+								Math.floor(timeOf(index + 1) / 86400),
+								cells
+							)
+						: addPath(time, nextTime, cells, null);
+				if (!path) continue;
+
+				bars.push({
+					time,
+					open: roundPrice(Math.exp(path.open)),
+					high: roundPrice(Math.exp(path.high)),
+					low: roundPrice(Math.exp(path.low)),
+					close: roundPrice(Math.exp(path.close)),
+					volume: Number(path.volume.toFixed(3)),
+					turnover: Number(path.turnover.toFixed(2)),
+				});
+			}
+
+			return bars;
+		},
+	};
+};
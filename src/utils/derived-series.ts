@@ -0,0 +1,106 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+
+/**
+ * Series derived from a perpetual's market rather than its trades:
+ * open interest, funding rate, mark price and index price
+ */
+export type DerivedSeries = "OI" | "FUNDING" | "MARK" | "INDEX";
+
+/**
+ * Derived series name and underlying symbol of a symbol name such as
+ * BYBIT:FUTURE:BTCUSDT#OI
+ */
+export type DerivedSymbol = {
+	underlying: string;
+	series: DerivedSeries;
+};
+
+/** Description suffix of each derived series */
+const DERIVED_SERIES_LABELS: Record<DerivedSeries, string> = {
+	OI: "Open Interest",
+	FUNDING: "Funding Rate",
+	MARK: "Mark Price",
+	INDEX: "Index Price",
+};
+
+/** Open interest is published every 5 minutes at the finest */
+const OPEN_INTEREST_RESOLUTIONS = [
+	"5",
+	"15",
+	"30",
+	"60",
+	"240",
+	"1D",
+	"1W",
+	"1M",
+];
+
+/**
+ * Splits a symbol name into its underlying and derived series, or returns
+ * null when it names a plain symbol. Throws for unknown series.
+ */
+export const parseDerivedSymbol = (
+	symbolName: string
+): DerivedSymbol | null => {
+	const separator = symbolName.lastIndexOf("#");
+	if (separator === -1) return null;
+	const series = symbolName.slice(separator + 1).toUpperCase();
+	if (!(series in DERIVED_SERIES_LABELS)) {
+		throw new Error(`Unknown derived series: ${series}`);
+	}
+	return {
+		underlying: symbolName.slice(0, separator),
+		series: series as DerivedSeries,
+	};
+};
+
+/**
+ * Derived series a symbol stands for, or null for a trade-price symbol
+ */
+export const getDerivedSeries = (
+	symbolInfo: SymbolInfo
+): DerivedSeries | null =>
+	parseDerivedSymbol(symbolInfo.full_name || symbolInfo.symbol || "")
+		?.series || null;
+
+/**
+ * Venue symbol of a possibly derived symbol, e.g. BTCUSDT for BTCUSDT#OI
+ */
+export const getUnderlyingSymbol = (symbolInfo: SymbolInfo): string =>
+	(symbolInfo.symbol || symbolInfo.ticker || "").split("#")[0];
+
+/**
+ * Symbol info of a derived series from that of its underlying. Mark and
+ * index prices keep the underlying's tick size; open interest and funding
+ * rates get their own precision and carry no volume.
+ */
+export const createDerivedSymbolInfo = (
+	underlyingInfo: SymbolInfo,
+	series: DerivedSeries
+): SymbolInfo => {
+	const symbol = `${underlyingInfo.symbol}#${series}`;
+	const precision: Record<DerivedSeries, number | undefined> = {
+		OI: 3,
+		FUNDING: 6,
+		MARK: undefined,
+		INDEX: undefined,
+	};
+	const tickPrecision = precision[series];
+
+	return {
+		...underlyingInfo,
+		symbol,
+		ticker: symbol,
+		full_name: `${underlyingInfo.full_name}#${series}`,
+		description: `${underlyingInfo.description} ${DERIVED_SERIES_LABELS[series]}`,
+		volume_precision: 0,
+		tradeable: false,
+		...(tickPrecision !== undefined && {
+			tick_size: 1 / 10 ** tickPrecision,
+			max_tick_precision: tickPrecision,
+		}),
+		...(series === "OI" && {
+			supported_resolutions: OPEN_INTEREST_RESOLUTIONS,
+		}),
+	};
+};
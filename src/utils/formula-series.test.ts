@@ -0,0 +1,183 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import {
+	alignFormulaBars,
+	createFormulaSymbolInfo,
+	evaluateFormula,
+	parseFormulaSymbol,
+	FormulaSymbol,
+} from "./formula-series";
+import { RawBar } from "./datafeed-types";
+
+const parse = (symbolName: string): FormulaSymbol =>
+	parseFormulaSymbol(symbolName) as FormulaSymbol;
+
+const bar = (time: number, close: number, open = close): RawBar => ({
+	time,
+	open,
+	high: Math.max(open, close),
+	low: Math.min(open, close),
+	close,
+	volume: 10,
+});
+
+describe("parseFormulaSymbol", () => {
+	it("leaves plain symbols with operator characters alone", () => {
+		expect(parseFormulaSymbol("BYBIT:FUTURE:BTCUSDT")).toBeNull();
+		expect(parseFormulaSymbol("FX:EUR/USD")).toBeNull();
+		expect(parseFormulaSymbol("NSE:M&M")).toBeNull();
+		expect(parseFormulaSymbol("NSE:BAJAJ-AUTO")).toBeNull();
+		expect(parseFormulaSymbol("BYBIT:FUTURE:BTC-27DEC24")).toBeNull();
+	});
+
+	it("reads unprefixed formulas over exchange-qualified symbols", () => {
+		const formula = parse("BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT");
+		expect(formula.name).toBe(
+			"FORMULA:BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT"
+		);
+		expect(formula.symbols).toEqual([
+			"BYBIT:FUTURE:BTCUSDT",
+			"BYBIT:FUTURE:ETHUSDT",
+		]);
+		expect(parse("0.6*NASDAQ:AAPL + 0.4*NASDAQ:MSFT").expression).toBe(
+			"0.6*NASDAQ:AAPL + 0.4*NASDAQ:MSFT"
+		);
+	});
+
+	it("needs the prefix for bare tickers and leaves malformed names alone", () => {
+		expect(parseFormulaSymbol("0.6*A+0.4*B")).toBeNull();
+		expect(parseFormulaSymbol("NASDAQ:AAPL/B")).toBeNull();
+		expect(parseFormulaSymbol("NASDAQ:AAPL/")).toBeNull();
+		expect(parseFormulaSymbol("1+2")).toBeNull();
+	});
+
+	it("writes formulas out canonically", () => {
+		const formula = parse(
+			"formula:BYBIT:FUTURE:BTCUSDT / BYBIT:FUTURE:ETHUSDT"
+		);
+		expect(formula.name).toBe(
+			"FORMULA:BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT"
+		);
+		expect(formula.expression).toBe(
+			"BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT"
+		);
+		expect(formula.symbols).toEqual([
+			"BYBIT:FUTURE:BTCUSDT",
+			"BYBIT:FUTURE:ETHUSDT",
+		]);
+		expect(parse("FORMULA:0.6*A+0.4*(B)").expression).toBe("0.6*A + 0.4*B");
+		expect(parse("FORMULA:A - (B - C)").expression).toBe("A - (B - C)");
+		expect(parse("FORMULA:(A*B)/C").expression).toBe("A*B/C");
+		expect(parse("FORMULA:A/(B*C)").expression).toBe("A/(B*C)");
+	});
+
+	it("reads a hyphen between words as subtraction", () => {
+		expect(parse("FORMULA:A-B").symbols).toEqual(["A", "B"]);
+		expect(parse("FORMULA:A-B").expression).toBe("A - B");
+		expect(evaluateFormula(parse("FORMULA:2-1*A").root, { A: 3 })).toBe(-1);
+	});
+
+	it("keeps hyphens inside dated contract and option names", () => {
+		expect(
+			parse("FORMULA:BYBIT:FUTURE:BTC-27DEC24-BYBIT:FUTURE:BTCUSDT")
+				.symbols
+		).toEqual(["BYBIT:FUTURE:BTC-27DEC24", "BYBIT:FUTURE:BTCUSDT"]);
+		expect(
+			parse("FORMULA:BYBIT:OPTION:BTC-29MAR24-70000-C-USDT*2").symbols
+		).toEqual(["BYBIT:OPTION:BTC-29MAR24-70000-C-USDT"]);
+	});
+
+	it("throws for malformed formulas", () => {
+		expect(() => parseFormulaSymbol("FORMULA:A/")).toThrow(
+			"Unexpected end of formula"
+		);
+		expect(() => parseFormulaSymbol("FORMULA:(A+B")).toThrow();
+		expect(() => parseFormulaSymbol("FORMULA:A B")).toThrow(
+			'Unexpected "B"'
+		);
+		expect(() => parseFormulaSymbol("FORMULA:1+2")).toThrow(
+			"Formula names no symbols"
+		);
+	});
+});
+
+describe("evaluateFormula", () => {
+	it("follows operator precedence and unary minus", () => {
+		const { root } = parse("FORMULA:-A + B*2/C");
+		expect(evaluateFormula(root, { A: 1, B: 3, C: 4 })).toBe(0.5);
+	});
+
+	it("gives a non-finite value when dividing by zero", () => {
+		const { root } = parse("FORMULA:A/B");
+		expect(Number.isFinite(evaluateFormula(root, { A: 1, B: 0 }))).toBe(
+			false
+		);
+	});
+});
+
+describe("alignFormulaBars", () => {
+	it("keeps the times every constituent has a bar at", () => {
+		const formula = parse("FORMULA:A/B");
+		const bars = alignFormulaBars(formula, [
+			[bar(60, 10), bar(120, 12), bar(180, 9)],
+			[bar(60, 5), bar(180, 3)],
+		]);
+		expect(bars.map(({ time, close }) => [time, close])).toEqual([
+			[60, 2],
+			[180, 3],
+		]);
+		expect(bars[0].volume).toBe(0);
+	});
+
+	it("takes the extremes of the evaluated prices as high and low", () => {
+		const formula = parse("FORMULA:A - B");
+		const [spread] = alignFormulaBars(formula, [
+			[bar(60, 12, 10)],
+			[bar(60, 15, 5)],
+		]);
+		// open 10 - 5, high 12 - 15, low 10 - 5, close 12 - 15
+		expect(spread).toMatchObject({ open: 5, high: 5, low: -3, close: -3 });
+	});
+
+	it("skips bars the formula cannot be evaluated at", () => {
+		const formula = parse("FORMULA:A/B");
+		expect(alignFormulaBars(formula, [[bar(60, 1)], [bar(60, 0)]])).toEqual(
+			[]
+		);
+	});
+});
+
+describe("createFormulaSymbolInfo", () => {
+	const constituent = (overrides: Partial<SymbolInfo>): SymbolInfo =>
+		({
+			symbol: "X",
+			full_name: "X",
+			session: "24x7",
+			timezone: "Etc/UTC",
+			supported_resolutions: ["1", "60", "1D"],
+			max_tick_precision: 2,
+			has_intraday: true,
+			...overrides,
+		}) as SymbolInfo;
+
+	it("takes the session of a constituent with trading hours", () => {
+		const formula = parse("FORMULA:BYBIT:FUTURE:BTCUSDT/NASDAQ:AAPL");
+		const info = createFormulaSymbolInfo(formula, [
+			constituent({
+				symbol: "BTCUSDT",
+				supported_resolutions: ["1", "1D"],
+			}),
+			constituent({
+				symbol: "AAPL",
+				session: "0930-1600",
+				timezone: "America/New_York",
+			}),
+		]);
+		expect(info.full_name).toBe(formula.name);
+		expect(info.ticker).toBe("BTCUSDT/AAPL");
+		expect(info.session).toBe("0930-1600");
+		expect(info.timezone).toBe("America/New_York");
+		expect(info.supported_resolutions).toEqual(["1", "1D"]);
+		expect(info.max_tick_precision).toBe(6);
+		expect(info.tradeable).toBe(false);
+	});
+});
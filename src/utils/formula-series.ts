@@ -0,0 +1,469 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { RawBar } from "./datafeed-types";
+import { getWeeklyHours } from "./session";
+
+/**
+ * Exchange prefix of formula symbols, which marks a symbol name as a
+ * formula: FORMULA:BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT. Formulas
+ * resolve under this prefix however they were written.
+ */
+export const FORMULA_EXCHANGE = "FORMULA";
+const FORMULA_PREFIX = `${FORMULA_EXCHANGE}:`;
+
+/** Decimals kept at least when a formula divides, as ratios are small */
+const FORMULA_RATIO_PRECISION = 6;
+
+/**
+ * Arithmetic operator of a formula
+ */
+export type FormulaOperator = "+" | "-" | "*" | "/";
+
+/**
+ * Node of a parsed formula
+ */
+export type FormulaNode =
+	| { type: "number"; value: number }
+	| { type: "symbol"; name: string }
+	| { type: "negate"; operand: FormulaNode }
+	| {
+			type: "binary";
+			operator: FormulaOperator;
+			left: FormulaNode;
+			right: FormulaNode;
+	  };
+
+/**
+ * Arithmetic expression over other symbols, such as
+ * FORMULA:BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT
+ */
+export type FormulaSymbol = {
+	/** Prefixed canonical expression, used as the formula's full name */
+	name: string;
+	/** Expression written out in a canonical form */
+	expression: string;
+	root: FormulaNode;
+	/** Constituent symbol names, each once, in order of appearance */
+	symbols: string[];
+};
+
+type FormulaToken =
+	| { type: "number"; value: number }
+	| { type: "symbol"; name: string }
+	| { type: "operator"; operator: FormulaOperator | "(" | ")" };
+
+/** Binding strength of each operator; unary minus binds tighter */
+const PRECEDENCE: Record<FormulaOperator, number> = {
+	"+": 1,
+	"-": 1,
+	"*": 2,
+	"/": 2,
+};
+const NEGATE_PRECEDENCE = 3;
+
+/**
+ * Symbol names and numbers: anything but spaces, operators and
+ * parentheses, along with the hyphenated parts that may follow
+ */
+const WORD_PATTERN = /^[^\s+\-*/()]+(?:-[^\s+\-*/()]+)*/;
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)$/;
+/**
+ * Tickers written with hyphens: dated contracts such as BTC-27DEC24 or
+ * BTCUSDT-27DEC24 and options such as BTC-29MAR24-70000-C(-USDT)
+ */
+const HYPHENATED_TICKER =
+	/^[A-Z0-9]+-\d{1,2}[A-Z]{3}\d{2}(-[\d.]+-[CP](-[A-Z]+)?)?$/i;
+
+/**
+ * Word starting a match of WORD_PATTERN: the longest hyphenated run
+ * naming a dated contract or option, else the part before the first
+ * hyphen, which is then a subtraction (A-B, 2-1)
+ */
+const takeWord = (candidate: string): string => {
+	const parts = candidate.split("-");
+	for (let count = parts.length; count > 1; count -= 1) {
+		const word = parts.slice(0, count).join("-");
+		const ticker = word.slice(word.lastIndexOf(":") + 1);
+		if (HYPHENATED_TICKER.test(ticker)) return word;
+	}
+	return parts[0];
+};
+
+const tokenize = (text: string): FormulaToken[] => {
+	const tokens: FormulaToken[] = [];
+	let index = 0;
+	while (index < text.length) {
+		const char = text[index];
+		if (/\s/.test(char)) {
+			index += 1;
+			continue;
+		}
+		if ("+-*/()".includes(char)) {
+			tokens.push({
+				type: "operator",
+				operator: char as FormulaOperator | "(" | ")",
+			});
+			index += 1;
+			continue;
+		}
+		const word = takeWord(
+			(WORD_PATTERN.exec(text.slice(index)) as RegExpExecArray)[0]
+		);
+		tokens.push(
+			NUMBER_PATTERN.test(word)
+				? { type: "number", value: Number(word) }
+				: { type: "symbol", name: word }
+		);
+		index += word.length;
+	}
+	return tokens;
+};
+
+// Recursive descent over the tokens: sums of products of signed atoms
+const parseTokens = (tokens: FormulaToken[], text: string): FormulaNode => {
+	let position = 0;
+
+	const isOperator = (operators: string): boolean => {
+		const token = tokens[position];
+		return token?.type === "operator" && operators.includes(token.operator);
+	};
+
+	const fail = (): never => {
+		const token = tokens[position];
+		throw new Error(
+			token
+				? `Unexpected "${
+						token.type === "operator"
+							? token.operator
+							: token.type === "number"
+								? token.value
+								: token.name
+					}" in formula: ${text}`
+				: `Unexpected end of formula: ${text}`
+		);
+	};
+
+	const parseAtom = (): FormulaNode => {
+		const token = tokens[position];
+		if (isOperator("-")) {
+			position += 1;
+			return { type: "negate", operand: parseAtom() };
+		}
+		if (isOperator("(")) {
+			position += 1;
+			const node = parseSum();
+			if (!isOperator(")")) fail();
+			position += 1;
+			return node;
+		}
+		if (token?.type === "number" || token?.type === "symbol") {
+			position += 1;
+			return token;
+		}
+		return fail();
+	};
+
+	const parseProduct = (): FormulaNode => {
+		let node = parseAtom();
+		while (isOperator("*/")) {
+			const { operator } = tokens[position] as {
+				operator: FormulaOperator;
+			};
+			position += 1;
+			node = { type: "binary", operator, left: node, right: parseAtom() };
+		}
+		return node;
+	};
+
+	const parseSum = (): FormulaNode => {
+		let node = parseProduct();
+		while (isOperator("+-")) {
+			const { operator } = tokens[position] as {
+				operator: FormulaOperator;
+			};
+			position += 1;
+			node = {
+				type: "binary",
+				operator,
+				left: node,
+				right: parseProduct(),
+			};
+		}
+		return node;
+	};
+
+	const root = parseSum();
+	if (position < tokens.length) fail();
+	return root;
+};
+
+/**
+ * Writes a formula out with only the parentheses it needs, naming each
+ * symbol through getName
+ */
+export const formatFormula = (
+	node: FormulaNode,
+	getName: (symbolName: string) => string = (symbolName) => symbolName,
+	minPrecedence = 0
+): string => {
+	switch (node.type) {
+		case "number":
+			return String(node.value);
+		case "symbol":
+			return getName(node.name);
+		case "negate": {
+			const text = `-${formatFormula(
+				node.operand,
+				getName,
+				NEGATE_PRECEDENCE
+			)}`;
+			return minPrecedence > NEGATE_PRECEDENCE ? `(${text})` : text;
+		}
+		case "binary": {
+			const precedence = PRECEDENCE[node.operator];
+			const left = formatFormula(node.left, getName, precedence);
+			// a-(b-c) and a/(b/c) keep their parentheses
+			const right = formatFormula(
+				node.right,
+				getName,
+				node.operator === "-" || node.operator === "/"
+					? precedence + 1
+					: precedence
+			);
+			const operator =
+				precedence === 1 ? ` ${node.operator} ` : node.operator;
+			const text = `${left}${operator}${right}`;
+			return precedence < minPrecedence ? `(${text})` : text;
+		}
+	}
+};
+
+const collectSymbols = (node: FormulaNode, symbols: string[]): string[] => {
+	if (node.type === "symbol" && !symbols.includes(node.name)) {
+		symbols.push(node.name);
+	} else if (node.type === "negate") {
+		collectSymbols(node.operand, symbols);
+	} else if (node.type === "binary") {
+		collectSymbols(node.left, symbols);
+		collectSymbols(node.right, symbols);
+	}
+	return symbols;
+};
+
+/**
+ * Formula written without the prefix: arithmetic whose every operand is
+ * an exchange-qualified symbol, e.g. BYBIT:FUTURE:BTCUSDT/NASDAQ:AAPL.
+ * Anything else, such as FX:EUR/USD or NSE:BAJAJ-AUTO, is a plain symbol.
+ */
+const parseUnprefixedFormula = (
+	symbolName: string
+): { root: FormulaNode; symbols: string[] } | null => {
+	let root: FormulaNode;
+	try {
+		root = parseTokens(tokenize(symbolName), symbolName);
+	} catch (error) {
+		return null;
+	}
+	const symbols = collectSymbols(root, []);
+	if (
+		root.type === "symbol" ||
+		!symbols.length ||
+		symbols.some((symbol) => !symbol.includes(":"))
+	) {
+		return null;
+	}
+	return { root, symbols };
+};
+
+/**
+ * Parses a symbol name written as arithmetic over other symbols, e.g.
+ * BYBIT:FUTURE:BTCUSDT/BYBIT:FUTURE:ETHUSDT or FORMULA:0.6*A + 0.4*B.
+ * Bare tickers (A, B) need the FORMULA: prefix; without it, every symbol
+ * must name its exchange, so tickers such as EUR/USD stay plain symbols. Returns null for plain symbols; throws for malformed
+ * prefixed expressions.
+ */
+export const parseFormulaSymbol = (
+	symbolName: string
+): FormulaSymbol | null => {
+	let root: FormulaNode;
+	let symbols: string[];
+	if (
+		symbolName.slice(0, FORMULA_PREFIX.length).toUpperCase() ===
+		FORMULA_PREFIX
+	) {
+		const text = symbolName.slice(FORMULA_PREFIX.length);
+		root = parseTokens(tokenize(text), text);
+		symbols = collectSymbols(root, []);
+		if (!symbols.length) {
+			throw new Error(`Formula names no symbols: ${symbolName}`);
+		}
+	} else {
+		const unprefixed = parseUnprefixedFormula(symbolName);
+		if (!unprefixed) {
+			return null;
+		}
+		({ root, symbols } = unprefixed);
+	}
+	const expression = formatFormula(root);
+	return {
+		name: `${FORMULA_PREFIX}${expression}`,
+		expression,
+		root,
+		symbols,
+	};
+};
+
+/**
+ * Value of a formula given a value per constituent symbol name. Division
+ * by zero gives a non-finite number.
+ */
+export const evaluateFormula = (
+	node: FormulaNode,
+	values: Record<string, number>
+): number => {
+	switch (node.type) {
+		case "number":
+			return node.value;
+		case "symbol":
+			return values[node.name];
+		case "negate":
+			return -evaluateFormula(node.operand, values);
+		case "binary": {
+			const left = evaluateFormula(node.left, values);
+			const right = evaluateFormula(node.right, values);
+			switch (node.operator) {
+				case "+":
+					return left + right;
+				case "-":
+					return left - right;
+				case "*":
+					return left * right;
+				case "/":
+					return left / right;
+			}
+		}
+	}
+};
+
+const dividesBy = (node: FormulaNode): boolean =>
+	node.type === "binary"
+		? node.operator === "/" || dividesBy(node.left) || dividesBy(node.right)
+		: node.type === "negate" && dividesBy(node.operand);
+
+/**
+ * Bars of a formula from the bars of its constituents, given in the order
+ * of formula.symbols and oldest first
+ *
+ * Bars are aligned by start time, keeping the times every constituent has
+ * a bar at. Open, high, low and close are evaluated on the matching
+ * constituent prices; as those extremes need not coincide, the bar's high
+ * and low are the extremes of the four results. Formulas carry no volume.
+ */
+export const alignFormulaBars = (
+	formula: FormulaSymbol,
+	constituentBars: RawBar[][]
+): RawBar[] => {
+	const barsByTime = constituentBars.map(
+		(bars) => new Map(bars.map((bar) => [bar.time, bar]))
+	);
+	const aligned: RawBar[] = [];
+
+	(constituentBars[0] || []).forEach(({ time }) => {
+		const current = barsByTime.map((bars) => bars.get(time));
+		if (current.some((bar) => !bar)) return;
+
+		const evaluate = (field: "open" | "high" | "low" | "close") =>
+			evaluateFormula(
+				formula.root,
+				Object.fromEntries(
+					formula.symbols.map((symbol, index) => [
+						symbol,
+						(current[index] as RawBar)[field],
+					])
+				)
+			);
+		const open = evaluate("open");
+		const close = evaluate("close");
+		const prices = [open, evaluate("high"), evaluate("low"), close];
+		if (!prices.every(Number.isFinite)) return;
+		aligned.push({
+			time,
+			open,
+			high: Math.max(...prices),
+			low: Math.min(...prices),
+			close,
+			volume: 0,
+		});
+	});
+	return aligned;
+};
+
+/**
+ * Symbol info of a formula from that of its constituents, given in the
+ * order of formula.symbols
+ *
+ * The formula offers the intervals every constituent offers. Its bars only
+ * exist while every constituent trades, so it takes the session of the
+ * first constituent with trading hours, if any. Prices keep the most
+ * decimals of any constituent, and at least six for ratios.
+ */
+export const createFormulaSymbolInfo = (
+	formula: FormulaSymbol,
+	constituents: SymbolInfo[]
+): SymbolInfo => {
+	const [first] = constituents;
+	const ticker = formatFormula(
+		formula.root,
+		(symbolName) =>
+			constituents[formula.symbols.indexOf(symbolName)].symbol ||
+			symbolName
+	);
+	const sessionInfo =
+		constituents.find((info) => (info.session || "24x7") !== "24x7") ||
+		first;
+	const session = sessionInfo.session || "24x7";
+	const timezone = sessionInfo.timezone || "Etc/UTC";
+	const supported: string[] = (first.supported_resolutions || []).filter(
+		(interval: string) =>
+			constituents.every((info) =>
+				(info.supported_resolutions || []).includes(interval)
+			)
+	);
+	const precision = Math.max(
+		...constituents.map((info) => info.max_tick_precision ?? 2),
+		dividesBy(formula.root) ? FORMULA_RATIO_PRECISION : 0
+	);
+
+	return {
+		symbol: ticker,
+		full_name: formula.name,
+		description: ticker,
+		type: "formula",
+		session,
+		session_label: session,
+		timezone,
+		ticker,
+		exchange: FORMULA_EXCHANGE,
+		segment: "",
+		has_intraday: constituents.every((info) => info.has_intraday),
+		has_daily: constituents.every((info) => info.has_daily ?? true),
+		supported_resolutions: supported,
+		tradeable: false,
+		is_formula: true,
+		volume_precision: 0,
+		data_status: "streaming" as const,
+		tick_size: 1 / 10 ** precision,
+		max_tick_precision: precision,
+		quote_currency: "",
+		exchange_info: sessionInfo.exchange_info || {
+			name: FORMULA_EXCHANGE.toLowerCase(),
+			code: FORMULA_EXCHANGE,
+			country_cd: "",
+			zone: timezone,
+			has_unique_trade_id: false,
+			holidays: null,
+			hours: getWeeklyHours(session),
+			contains_ambiguous_symbols: false,
+			valid_intervals: supported,
+		},
+	};
+};
@@ -0,0 +1,294 @@
+import { parseLocalData } from "./local-data";
+
+// Monday 2024-01-08 00:00 UTC
+const MONDAY = Date.UTC(2024, 0, 8) / 1000;
+const DAY = 86400;
+
+/** "YYYY-MM-DD HH:MM" of wall-clock seconds */
+const formatWall = (seconds: number): string =>
+	new Date(seconds * 1000).toISOString().slice(0, 16).replace("T", " ");
+
+/** CSV rows of bars every stepMinutes from open to close on weekdays */
+const sessionRows = (
+	days: number,
+	openMinutes: number,
+	closeMinutes: number,
+	stepMinutes: number,
+	formatTime: (wall: number) => string | number
+): string[] => {
+	const rows: string[] = [];
+	for (let day = 0; day < days; day++) {
+		for (
+			let minutes = openMinutes;
+			minutes < closeMinutes;
+			minutes += stepMinutes
+		) {
+			const wall = MONDAY + day * DAY + minutes * 60;
+			rows.push(`${formatTime(wall)},1.5,1.75,1.25,1.5,100`);
+		}
+	}
+	return rows;
+};
+
+describe("parseLocalData", () => {
+	describe("columns", () => {
+		it("matches headers by alias, whatever their case and order", () => {
+			const series = parseLocalData(
+				"Volume;Last;Date;Max;Min;First\n10;2.5;2024-01-08;3;2;2.25"
+			);
+			expect(series.bars).toEqual([
+				{
+					time: MONDAY,
+					open: 2.25,
+					high: 3,
+					low: 2,
+					close: 2.5,
+					volume: 10,
+				},
+			]);
+			expect(series.hasVolume).toBe(true);
+		});
+
+		it("takes positional columns without a header", () => {
+			const series = parseLocalData(
+				`${MONDAY},1,2,0.5,1.5,7\n${MONDAY + DAY},1.5,2,1,1.75,8`
+			);
+			expect(series.bars[1]).toEqual({
+				time: MONDAY + DAY,
+				open: 1.5,
+				high: 2,
+				low: 1,
+				close: 1.75,
+				volume: 8,
+			});
+		});
+
+		it("joins separate date and time-of-day columns", () => {
+			const series = parseLocalData(
+				"date,time,close\n2024-01-08,00:01,1\n2024-01-08,00:02,2",
+				{ timezone: "Etc/UTC" }
+			);
+			expect(series.bars.map((bar) => bar.time)).toEqual([
+				MONDAY + 60,
+				MONDAY + 120,
+			]);
+		});
+
+		it("makes flat bars from a lone price without volume", () => {
+			const series = parseLocalData(
+				"timestamp,price\n2024-01-08,10\n2024-01-09,11"
+			);
+			expect(series.bars[1]).toEqual({
+				time: MONDAY + DAY,
+				open: 11,
+				high: 11,
+				low: 11,
+				close: 11,
+				volume: 0,
+			});
+			expect(series.hasVolume).toBe(false);
+		});
+
+		it("reads unrecognised headers by their contents", () => {
+			const series = parseLocalData(
+				"when,p1,p2,p3,p4,p5\n2024-01-08,1,2,0.5,1.5,9"
+			);
+			expect(series.bars[0]).toMatchObject({
+				open: 1,
+				high: 2,
+				low: 0.5,
+				close: 1.5,
+				volume: 9,
+			});
+		});
+
+		it("reads UDF-style parallel arrays", () => {
+			const series = parseLocalData(
+				JSON.stringify({
+					t: [MONDAY, MONDAY + DAY],
+					o: [1, 2],
+					h: [2, 3],
+					l: [0.5, 1.5],
+					c: [1.5, 2.5],
+					v: [5, 6],
+				})
+			);
+			expect(series.bars.map((bar) => bar.close)).toEqual([1.5, 2.5]);
+		});
+
+		it("fails without a close column", () => {
+			expect(() =>
+				parseLocalData("date,note\n2024-01-08,holiday")
+			).toThrow("No close or price column");
+		});
+	});
+
+	describe("timestamps", () => {
+		it.each([
+			["unix seconds", String(MONDAY)],
+			["unix milliseconds", String(MONDAY * 1000)],
+			["unix microseconds", String(MONDAY * 1e6)],
+			["YYYYMMDD", "20240108"],
+			["ISO dates", "2024-01-08"],
+			["slashed dates", "2024/01/08"],
+			["offsets", "2024-01-08T05:30:00+05:30"],
+			["UTC date-times", "2024-01-08T00:00:00Z"],
+		])("reads %s", (_, time) => {
+			const series = parseLocalData(`time,close\n${time},1`);
+			expect(series.bars[0].time).toBe(MONDAY);
+		});
+
+		it("skips unreadable rows and keeps the last of duplicates", () => {
+			const series = parseLocalData(
+				"date,close\n2024-01-08,1\nnot a date,2\n2024-01-08,3\n2024-01-09,x"
+			);
+			expect(series.bars).toHaveLength(1);
+			expect(series.bars[0].close).toBe(3);
+		});
+	});
+
+	describe("day-first dates", () => {
+		it("puts the day first when a first part is above 12", () => {
+			const series = parseLocalData(
+				"date,close\n08/01/2024,1\n13/01/2024,2"
+			);
+			expect(series.bars[0].time).toBe(MONDAY);
+		});
+
+		it("puts the month first when a second part is above 12", () => {
+			const series = parseLocalData(
+				"date,close\n01/08/2024,1\n01/13/2024,2"
+			);
+			expect(series.bars[0].time).toBe(MONDAY);
+		});
+
+		it("reads ambiguous dotted dates day first and slashed ones month first", () => {
+			expect(
+				parseLocalData("date,close\n08.01.2024,1").bars[0].time
+			).toBe(MONDAY);
+			expect(
+				parseLocalData("date,close\n01/08/2024,1").bars[0].time
+			).toBe(MONDAY);
+		});
+	});
+
+	describe("intervals", () => {
+		const everyDays = (days: number, count = 6) =>
+			Array.from(
+				{ length: count },
+				(_, index) => `${MONDAY + index * days * DAY},1`
+			).join("\n");
+
+		it.each([
+			[1, "D"],
+			[7, "W"],
+			[14, "2W"],
+		])("infers %i-day gaps as %s", (days, interval) => {
+			expect(
+				parseLocalData(`time,close\n${everyDays(days)}`).interval
+			).toBe(interval);
+		});
+
+		it("infers months from 28 to 31 day gaps", () => {
+			const series = parseLocalData(
+				"date,close\n2024-01-01,1\n2024-02-01,2\n2024-03-01,3\n2024-04-01,4"
+			);
+			expect(series.interval).toBe("M");
+		});
+
+		it("infers minutes and seconds from the most common gap", () => {
+			const minutes = [0, 300, 600, 900, 3600, 3900]
+				.map((offset) => `${MONDAY + offset},1`)
+				.join("\n");
+			expect(parseLocalData(`time,close\n${minutes}`).interval).toBe("5");
+			const seconds = [0, 15, 30, 45]
+				.map((offset) => `${MONDAY + offset},1`)
+				.join("\n");
+			expect(parseLocalData(`time,close\n${seconds}`).interval).toBe(
+				"15S"
+			);
+		});
+	});
+
+	describe("timezones and sessions", () => {
+		it("places naive times at an exchange open in its timezone", () => {
+			const series = parseLocalData(
+				[
+					"datetime,open,high,low,close,volume",
+					...sessionRows(5, 570, 960, 5, formatWall),
+				].join("\n")
+			);
+			expect(series.interval).toBe("5");
+			expect(series.timezone).toBe("America/New_York");
+			expect(series.session).toBe("0930-1600");
+			expect(series.openDays).toEqual([
+				false,
+				true,
+				true,
+				true,
+				true,
+				true,
+				false,
+			]);
+			// 09:30 EST is 14:30 UTC
+			expect(series.bars[0].time).toBe(MONDAY + 14.5 * 3600);
+		});
+
+		it("finds the timezone of unix times from their daily opens", () => {
+			// 09:15-15:30 in Kolkata, written in UTC
+			const series = parseLocalData(
+				[
+					"timestamp,open,high,low,close,volume",
+					...sessionRows(5, 225, 600, 15, (wall) => wall),
+				].join("\n")
+			);
+			expect(series.timezone).toBe("Asia/Kolkata");
+			expect(series.session).toBe("0915-1530");
+			expect(series.bars[0].time).toBe(MONDAY + 225 * 60);
+		});
+
+		it("keeps an explicit timezone", () => {
+			const series = parseLocalData(
+				[
+					"time,open,high,low,close,volume",
+					...sessionRows(2, 570, 960, 5, formatWall),
+				].join("\n"),
+				{ timezone: "Etc/UTC" }
+			);
+			expect(series.timezone).toBe("Etc/UTC");
+			expect(series.bars[0].time).toBe(MONDAY + 570 * 60);
+		});
+
+		it("trades round the clock when bars span the day", () => {
+			const series = parseLocalData(
+				[
+					"time,open,high,low,close,volume",
+					...sessionRows(2, 0, 1440, 60, (wall) => wall),
+				].join("\n")
+			);
+			expect(series.interval).toBe("60");
+			expect(series.timezone).toBe("Etc/UTC");
+			expect(series.session).toBe("24x7");
+		});
+	});
+
+	describe("precision", () => {
+		it("takes the most decimals written among prices and volumes", () => {
+			const series = parseLocalData(
+				"date,open,high,low,close,volume\n2024-01-08,1.5,2.125,1,1.25,0.001\n2024-01-09,1,2,1,1,3"
+			);
+			expect(series.pricePrecision).toBe(3);
+			expect(series.volumePrecision).toBe(3);
+		});
+
+		// Long enough to overflow the stack when spread into Math.max
+		it("handles files longer than the argument limit", () => {
+			const count = 130000;
+			const t = Array.from({ length: count }, (_, index) => index * 60);
+			const c = t.map((_, index) => (index === count - 1 ? 1.25 : 1));
+			const series = parseLocalData(JSON.stringify({ t, c }));
+			expect(series.bars).toHaveLength(count);
+			expect(series.pricePrecision).toBe(2);
+		}, 20000);
+	});
+});
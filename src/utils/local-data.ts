@@ -0,0 +1,598 @@
+import { RawBar } from "./datafeed-types";
+import {
+	createResolution,
+	getResolutionSeconds,
+	parseInterval,
+} from "./resolution";
+import { getTimeZoneOffset, getWeekday } from "./session";
+
+/**
+ * Options for parseLocalData
+ */
+export type LocalDataOptions = {
+	/**
+	 * Timezone of timestamps written without an offset, and of the symbol.
+	 * Inferred from the session opens when omitted.
+	 */
+	timezone?: string;
+};
+
+/**
+ * OHLCV series read from a file, with what could be inferred about it
+ */
+export type LocalSeries = {
+	/** Bars oldest first, time in unix seconds */
+	bars: RawBar[];
+	/** Bar interval in SDK notation, e.g. "1", "60", "D" */
+	interval: string;
+	timezone: string;
+	/** "24x7" or the trading hours, e.g. "0930-1600" */
+	session: string;
+	/** Whether the file has bars on each weekday, Sunday first */
+	openDays: boolean[];
+	/** Whether the file has a volume column */
+	hasVolume: boolean;
+	/** Most decimal places among the prices */
+	pricePrecision: number;
+	/** Most decimal places among the volumes */
+	volumePrecision: number;
+};
+
+type BarField = "time" | "date" | "open" | "high" | "low" | "close";
+
+/** Header names recognised per field, most specific first */
+const COLUMN_ALIASES: Record<BarField | "volume", string[]> = {
+	time: ["timestamp", "datetime", "time", "t", "opentime", "unix", "ts"],
+	date: ["date", "day", "d"],
+	open: ["open", "o", "openprice", "first"],
+	high: ["high", "h", "highprice", "max"],
+	low: ["low", "l", "lowprice", "min"],
+	close: ["close", "c", "closeprice", "last", "price", "adjclose", "value"],
+	volume: ["volume", "v", "vol", "basevolume", "qty", "quantity"],
+};
+
+/** Column order assumed for files without a header */
+const POSITIONAL_COLUMNS = ["time", "open", "high", "low", "close", "volume"];
+
+/** Delimiters tried on the first CSV line */
+const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+/**
+ * Timezones recognised from where their exchanges open, checked in order.
+ * A file whose days start at one of these opens is read in that zone.
+ */
+const KNOWN_OPENS: Array<{ timezone: string; open: number }> = [
+	{ timezone: "America/New_York", open: 9 * 60 + 30 },
+	{ timezone: "Europe/London", open: 8 * 60 },
+	{ timezone: "Europe/Berlin", open: 9 * 60 },
+	{ timezone: "Asia/Kolkata", open: 9 * 60 + 15 },
+	{ timezone: "Asia/Hong_Kong", open: 9 * 60 + 30 },
+	{ timezone: "Australia/Sydney", open: 10 * 60 },
+];
+
+/** Share of days that must open at a known time to adopt its timezone */
+const KNOWN_OPEN_MIN_SHARE = 0.6;
+/** Hours of the day with bars above which a file trades round the clock */
+const CONTINUOUS_MIN_HOURS = 22;
+/** Cap on inferred price and volume decimals, against float noise */
+const MAX_PRECISION = 8;
+
+/**
+ * Timestamp as read from a file. Naive timestamps are wall-clock seconds
+ * in an unknown timezone; others are unix seconds.
+ */
+type ParsedTime = { seconds: number; naive: boolean };
+
+const normalizeHeader = (header: string): string =>
+	header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Number in a cell, reading a lone comma as a decimal point ("1,25") */
+const toNumber = (value: unknown): number => {
+	if (typeof value === "number") return value;
+	const text = typeof value === "string" ? value.trim() : "";
+	if (!text) return NaN;
+	return Number(/^-?\d+,\d+$/.test(text) ? text.replace(",", ".") : text);
+};
+
+const isNumeric = (value: unknown): boolean => !Number.isNaN(toNumber(value));
+
+/**
+ * Seconds since 1970 of a calendar date and time, as if it were UTC
+ */
+const toWallSeconds = (
+	year: number,
+	month: number,
+	day: number,
+	hour = 0,
+	minute = 0,
+	second = 0
+): number => Date.UTC(year, month - 1, day, hour, minute, second) / 1000;
+
+/**
+ * Parses a timestamp: unix seconds, milliseconds, microseconds or
+ * nanoseconds; YYYYMMDD; ISO dates and date-times with or without an
+ * offset; "YYYY/MM/DD" and "YYYY.MM.DD"; "DD/MM/YYYY" or "MM/DD/YYYY"
+ * (dayFirst); anything Date.parse reads. Returns null when unreadable.
+ */
+const parseTimeValue = (
+	value: unknown,
+	dayFirst = false
+): ParsedTime | null => {
+	if (value === null || value === undefined || value === "") return null;
+	if (isNumeric(value)) {
+		const number = toNumber(value);
+		const digits = String(value).trim();
+		if (/^(19|20)\d{6}$/.test(digits)) {
+			return {
+				seconds: toWallSeconds(
+					Number(digits.slice(0, 4)),
+					Number(digits.slice(4, 6)),
+					Number(digits.slice(6, 8))
+				),
+				naive: true,
+			};
+		}
+		const divisor =
+			number < 1e11 ? 1 : number < 1e14 ? 1e3 : number < 1e17 ? 1e6 : 1e9;
+		return { seconds: Math.floor(number / divisor), naive: false };
+	}
+
+	const text = String(value).trim();
+	const time =
+		"(?:[T ](\\d{1,2}):?(\\d{2})(?::?(\\d{2})(?:\\.\\d+)?)?)?\\s*(Z|[+-]\\d{2}:?\\d{2})?";
+	const yearFirst = new RegExp(
+		`^(\\d{4})[-/.]?(\\d{1,2})[-/.]?(\\d{1,2})${time}$`
+	).exec(text);
+	const yearLast = new RegExp(
+		`^(\\d{1,2})[-/.](\\d{1,2})[-/.](\\d{4})${time}$`
+	).exec(text);
+	const match = yearFirst || yearLast;
+	if (match) {
+		const [, a, b, c, hour, minute, second, zone] = match;
+		const [year, month, day] = yearFirst
+			? [a, b, c]
+			: dayFirst
+				? [c, b, a]
+				: [c, a, b];
+		const seconds = toWallSeconds(
+			Number(year),
+			Number(month),
+			Number(day),
+			Number(hour || 0),
+			Number(minute || 0),
+			Number(second || 0)
+		);
+		if (!zone) return { seconds, naive: true };
+		if (zone === "Z") return { seconds, naive: false };
+		const sign = zone.startsWith("-") ? -1 : 1;
+		const digits = zone.replace(/[^0-9]/g, "");
+		const offset =
+			(Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2, 4))) * 60;
+		return { seconds: seconds - sign * offset, naive: false };
+	}
+
+	const parsed = Date.parse(text);
+	return Number.isNaN(parsed)
+		? null
+		: { seconds: Math.floor(parsed / 1000), naive: false };
+};
+
+/** Seconds after midnight of a time of day ("09:30", "0930", "9:30:15") */
+const parseClock = (value: unknown): number => {
+	const match = /^(\d{1,2}):?(\d{2})(?::?(\d{2}))?/.exec(
+		String(value ?? "").trim()
+	);
+	if (!match) return 0;
+	return (
+		Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] || 0)
+	);
+};
+
+/** Splits one CSV line, honouring double-quoted fields */
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+	const cells: string[] = [];
+	let cell = "";
+	let quoted = false;
+	for (let index = 0; index < line.length; index++) {
+		const char = line[index];
+		if (char === '"') {
+			if (quoted && line[index + 1] === '"') {
+				cell += '"';
+				index += 1;
+			} else {
+				quoted = !quoted;
+			}
+		} else if (char === delimiter && !quoted) {
+			cells.push(cell.trim());
+			cell = "";
+		} else {
+			cell += char;
+		}
+	}
+	cells.push(cell.trim());
+	return cells;
+};
+
+/**
+ * Records of a CSV file, keyed by header or, without a header, by
+ * POSITIONAL_COLUMNS
+ */
+const readCsv = (text: string): Array<Record<string, unknown>> => {
+	const lines = text
+		.split(/\r?\n/)
+		.filter((line) => line.trim() && !line.startsWith("#"));
+	if (!lines.length) return [];
+	const delimiter = CSV_DELIMITERS.reduce((best, candidate) =>
+		lines[0].split(candidate).length > lines[0].split(best).length
+			? candidate
+			: best
+	);
+	const rows = lines.map((line) => splitCsvLine(line, delimiter));
+	// A header row has a cell that is neither a number nor a date
+	const hasHeader = rows[0].some(
+		(cell) => !isNumeric(cell) && parseTimeValue(cell) === null
+	);
+	const header = hasHeader ? rows[0] : POSITIONAL_COLUMNS;
+	return (hasHeader ? rows.slice(1) : rows).map((row) =>
+		Object.fromEntries(header.map((name, index) => [name, row[index]]))
+	);
+};
+
+/**
+ * Records of a JSON file: a list of objects, a list of
+ * [time, open, high, low, close, volume] rows, UDF-style parallel arrays
+ * ({ t, o, h, l, c, v }) or an object wrapping any of these
+ */
+const readJson = (data: unknown): Array<Record<string, unknown>> => {
+	if (Array.isArray(data)) {
+		return data.map((row) =>
+			Array.isArray(row)
+				? Object.fromEntries(
+						POSITIONAL_COLUMNS.map((name, index) => [
+							name,
+							row[index],
+						])
+					)
+				: (row as Record<string, unknown>)
+		);
+	}
+	if (data && typeof data === "object") {
+		const record = data as Record<string, unknown>;
+		const columns = Object.keys(record).filter((key) =>
+			Array.isArray(record[key])
+		);
+		const times = columns.find((key) =>
+			COLUMN_ALIASES.time.includes(normalizeHeader(key))
+		);
+		if (times) {
+			return (record[times] as unknown[]).map((_, index) =>
+				Object.fromEntries(
+					columns.map((key) => [
+						key,
+						(record[key] as unknown[])[index],
+					])
+				)
+			);
+		}
+		if (columns.length) {
+			return readJson(record[columns[0]]);
+		}
+	}
+	throw new Error("No bars found in the JSON data");
+};
+
+/** Time of day without a date, e.g. "09:30", "0930" or "9:30:15" */
+const CLOCK_PATTERN = /^\d{1,2}:?\d{2}(?::?\d{2})?$/;
+
+/**
+ * Header of each field present in the records, plus the time-of-day
+ * column of files splitting date and time. Throws without a time and a
+ * close (or price) column.
+ */
+const detectColumns = (
+	records: Array<Record<string, unknown>>
+): Partial<Record<BarField | "volume" | "clock", string>> => {
+	const headers = Object.keys(records[0] || {});
+	const columns: Partial<Record<BarField | "volume" | "clock", string>> = {};
+	const taken = new Set<string>();
+	(Object.keys(COLUMN_ALIASES) as Array<BarField | "volume">).forEach(
+		(field) => {
+			for (const alias of COLUMN_ALIASES[field]) {
+				const header = headers.find(
+					(each) =>
+						!taken.has(each) && normalizeHeader(each) === alias
+				);
+				if (header) {
+					columns[field] = header;
+					taken.add(header);
+					return;
+				}
+			}
+		}
+	);
+	// Date and time of day in separate columns
+	if (
+		columns.date &&
+		columns.time &&
+		CLOCK_PATTERN.test(String(records[0][columns.time]).trim())
+	) {
+		columns.clock = columns.time;
+		columns.time = columns.date;
+	}
+	columns.time = columns.time || columns.date;
+
+	// Unrecognised headers: the first column holding dates is the time,
+	// and the numeric columns are open, high, low, close and volume, or
+	// the close when there are fewer than four
+	const sample = records[0] || {};
+	const untaken = headers.filter((header) => !taken.has(header));
+	columns.time =
+		columns.time ||
+		untaken.find(
+			(header) =>
+				!isNumeric(sample[header]) &&
+				parseTimeValue(sample[header]) !== null
+		);
+	if (!columns.close) {
+		const numeric = untaken.filter(
+			(header) => header !== columns.time && isNumeric(sample[header])
+		);
+		if (numeric.length >= 4 && !columns.open) {
+			[columns.open, columns.high, columns.low, columns.close] = numeric;
+			columns.volume = columns.volume || numeric[4];
+		} else {
+			columns.close = numeric[0];
+		}
+	}
+	if (!columns.time) {
+		throw new Error(`No timestamp column among: ${headers.join(", ")}`);
+	}
+	if (!columns.close) {
+		throw new Error(
+			`No close or price column among: ${headers.join(", ")}`
+		);
+	}
+	return columns;
+};
+
+/**
+ * Whether dates written with the year last put the day first: some value
+ * has a first part above 12, or none has a second part above 12 while
+ * dots or dashes separate them
+ */
+const isDayFirst = (values: unknown[]): boolean => {
+	const parts = values
+		.map((value) =>
+			/^(\d{1,2})([-/.])(\d{1,2})[-/.]\d{4}/.exec(String(value))
+		)
+		.filter((match): match is RegExpExecArray => match !== null);
+	if (!parts.length) return false;
+	if (parts.some((match) => Number(match[1]) > 12)) return true;
+	if (parts.some((match) => Number(match[3]) > 12)) return false;
+	return parts[0][2] !== "/";
+};
+
+/** Decimal places written in a number */
+const getDecimals = (value: number): number =>
+	Math.min(MAX_PRECISION, (String(value).split(".")[1] || "").length);
+
+/** Most frequent value, the smallest on ties */
+const getMode = (values: number[]): number | undefined => {
+	const counts = new Map<number, number>();
+	values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+	let mode: number | undefined;
+	counts.forEach((count, value) => {
+		const best = mode === undefined ? 0 : counts.get(mode) || 0;
+		if (count > best || (count === best && value < (mode as number))) {
+			mode = value;
+		}
+	});
+	return mode;
+};
+
+/**
+ * Bar interval from the most common gap between bars. Gaps of 28 to 31
+ * days are months; whole days are days or weeks.
+ */
+const inferInterval = (times: number[]): string => {
+	const gap = getMode(
+		times.slice(1).map((time, index) => time - times[index])
+	);
+	if (!gap) return "D";
+	if (gap >= 28 * 86400 && gap <= 31 * 86400) return "M";
+	if (gap >= 82800) {
+		const days = Math.round(gap / 86400);
+		return days % 7 === 0
+			? createResolution(days / 7, "weeks").label
+			: createResolution(days, "days").label;
+	}
+	return gap % 60 === 0
+		? createResolution(gap / 60, "minutes").label
+		: createResolution(gap, "seconds").label;
+};
+
+/** Wall-clock seconds in a timezone of a unix timestamp */
+const toLocal = (timestamp: number, timezone: string): number =>
+	timestamp + getTimeZoneOffset(timestamp, timezone);
+
+/** Unix timestamp of wall-clock seconds in a timezone */
+const fromLocal = (wall: number, timezone: string): number =>
+	wall -
+	getTimeZoneOffset(wall - getTimeZoneOffset(wall, timezone), timezone);
+
+/** First bar of each local day, as minutes after local midnight */
+const getDailyOpens = (localTimes: number[]): number[] => {
+	const opens = new Map<number, number>();
+	localTimes.forEach((time) => {
+		const day = Math.floor(time / 86400);
+		if (!opens.has(day)) opens.set(day, Math.floor((time % 86400) / 60));
+	});
+	return Array.from(opens.values());
+};
+
+/**
+ * Timezone of intraday bars. Naive times already read as the exchange's
+ * wall clock; unix times are tried in each known zone.
+ */
+const inferTimezone = (times: number[], naive: boolean): string => {
+	let best = { timezone: "Etc/UTC", share: 0 };
+	KNOWN_OPENS.forEach(({ timezone, open }) => {
+		const opens = getDailyOpens(
+			naive ? times : times.map((time) => toLocal(time, timezone))
+		);
+		const share =
+			opens.filter((each) => each === open).length / opens.length;
+		if (share > best.share) best = { timezone, share };
+	});
+	return best.share >= KNOWN_OPEN_MIN_SHARE ? best.timezone : "Etc/UTC";
+};
+
+/** "HHMM-HHMM" of minutes after midnight */
+const formatSession = (open: number, close: number): string => {
+	const format = (minutes: number) =>
+		`${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}${String(
+			minutes % 60
+		).padStart(2, "0")}`;
+	return `${format(open)}-${format(close)}`;
+};
+
+/**
+ * Reads OHLCV bars from CSV or JSON text and infers their interval,
+ * timezone and trading hours
+ *
+ * Columns are matched by header (time/date/timestamp, open, high, low,
+ * close/price, volume; a separate time-of-day column is joined to the
+ * date), or taken in that order when there is no header. Files with only
+ * a price make flat bars. Rows that cannot be read are skipped; duplicate
+ * times keep the last row.
+ *
+ * @throws Error when no bars can be read
+ *
+ * @example
+ * ```typescript
+ * const series = parseLocalData("date,close\n2024-01-02,101.5\n...");
+ * series.interval; // "D"
+ * ```
+ */
+export const parseLocalData = (
+	text: string,
+	options: LocalDataOptions = {}
+): LocalSeries => {
+	// Strip a byte order mark left by spreadsheet exports
+	const trimmed = text.replace(/^\uFEFF/, "").trim();
+	const records =
+		trimmed.startsWith("[") || trimmed.startsWith("{")
+			? readJson(JSON.parse(trimmed))
+			: readCsv(trimmed);
+	if (!records.length) {
+		throw new Error("The file contains no rows");
+	}
+	const columns = detectColumns(records);
+	const timeColumn = columns.time as string;
+	const dayFirst = isDayFirst(records.map((record) => record[timeColumn]));
+
+	let naive = false;
+	const rows: Array<{ time: number; bar: Omit<RawBar, "time"> }> = [];
+	records.forEach((record) => {
+		const parsed = parseTimeValue(record[timeColumn], dayFirst);
+		const close = toNumber(record[columns.close as string]);
+		if (!parsed || !Number.isFinite(close)) return;
+		naive = naive || parsed.naive;
+		const read = (
+			field: "open" | "high" | "low" | "volume",
+			fallback: number
+		) => {
+			const column = columns[field];
+			const value = column ? toNumber(record[column]) : NaN;
+			return Number.isFinite(value) ? value : fallback;
+		};
+		const open = read("open", close);
+		rows.push({
+			time:
+				parsed.seconds +
+				(columns.clock ? parseClock(record[columns.clock]) : 0),
+			bar: {
+				open,
+				high: read("high", Math.max(open, close)),
+				low: read("low", Math.min(open, close)),
+				close,
+				volume: read("volume", 0),
+			},
+		});
+	});
+	if (!rows.length) {
+		throw new Error("No row has a readable timestamp and close");
+	}
+
+	const byTime = new Map<number, Omit<RawBar, "time">>();
+	rows.forEach(({ time, bar }) => byTime.set(time, bar));
+	const times = Array.from(byTime.keys()).sort((a, b) => a - b);
+	const interval = inferInterval(times);
+	const intervalSeconds = getResolutionSeconds(parseInterval(interval));
+	const intraday = intervalSeconds < 86400;
+
+	// Date bars keep their date at UTC midnight; intraday bars are placed
+	// in the exchange's timezone
+	const timezone = intraday
+		? options.timezone || inferTimezone(times, naive)
+		: options.timezone || "Etc/UTC";
+	const unixTimes = times.map((time) =>
+		naive && intraday ? fromLocal(time, timezone) : time
+	);
+	const localTimes = unixTimes.map((time) => toLocal(time, timezone));
+
+	const openDays = [false, false, false, false, false, false, false];
+	localTimes.forEach((time) => {
+		openDays[getWeekday(Math.floor(time / 86400))] = true;
+	});
+
+	let session = "24x7";
+	if (intraday) {
+		const hours = new Set(
+			localTimes.map((time) => Math.floor((time % 86400) / 3600))
+		);
+		if (hours.size < CONTINUOUS_MIN_HOURS) {
+			const barMinutes = Math.max(1, Math.round(intervalSeconds / 60));
+			const closes = new Map<number, number>();
+			localTimes.forEach((time) =>
+				closes.set(
+					Math.floor(time / 86400),
+					Math.floor((time % 86400) / 60) + barMinutes
+				)
+			);
+			session = formatSession(
+				getMode(getDailyOpens(localTimes)) ?? 0,
+				getMode(Array.from(closes.values())) ?? 0
+			);
+		}
+	}
+
+	const bars = times.map((time, index) => ({
+		time: unixTimes[index],
+		...(byTime.get(time) as Omit<RawBar, "time">),
+	}));
+	return {
+		bars,
+		interval,
+		timezone,
+		session,
+		openDays,
+		hasVolume: Boolean(columns.volume),
+		// Folded rather than spread, which overflows the stack on long files
+		pricePrecision: bars.reduce(
+			(precision, bar) =>
+				Math.max(
+					precision,
+					getDecimals(bar.open),
+					getDecimals(bar.high),
+					getDecimals(bar.low),
+					getDecimals(bar.close)
+				),
+			0
+		),
+		volumePrecision: bars.reduce(
+			(precision, bar) => Math.max(precision, getDecimals(bar.volume)),
+			0
+		),
+	};
+};
@@ -0,0 +1,72 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { getExchangePrefix } from "../adapters/exchange-adapter";
+import { getLocalMidnight } from "../session";
+import { MarkSource, TimescaleMark } from "./mark-source";
+import nasdaqEvents from "./nasdaq-events.json";
+
+/**
+ * Earnings release or dividend ex-date
+ */
+export type CorporateEvent = {
+	type: "earnings" | "dividend";
+	/** Local date, "YYYY-MM-DD" */
+	date: string;
+	/** Fiscal period of an earnings release */
+	label?: string;
+	/** Dividend per share */
+	amount?: number;
+};
+
+const NASDAQ_TIMEZONE = "America/New_York";
+
+/**
+ * Mark source showing earnings ("E") and dividends ("D") on the time scale
+ *
+ * Defaults to the bundled NASDAQ table; pass events keyed by ticker to use
+ * other data.
+ */
+export const createCorporateEventsMarkSource = (
+	events: Record<string, CorporateEvent[]> = nasdaqEvents as Record<
+		string,
+		CorporateEvent[]
+	>,
+	exchanges: string[] = ["NASDAQ"]
+): MarkSource => ({
+	name: "corporate-events",
+
+	async getTimescaleMarks(
+		symbolInfo: SymbolInfo,
+		from: number,
+		to: number
+	): Promise<TimescaleMark[]> {
+		if (!exchanges.includes(getExchangePrefix(symbolInfo))) {
+			return [];
+		}
+		const ticker: string = symbolInfo.symbol || symbolInfo.ticker || "";
+		const timeZone: string = symbolInfo.timezone || NASDAQ_TIMEZONE;
+
+		return (events[ticker] || [])
+			.map((event) => {
+				const [year, month, day] = event.date.split("-").map(Number);
+				// Stamped at local midnight, like the daily bar of that date
+				const time = getLocalMidnight(
+					Date.UTC(year, month - 1, day) / 86400000,
+					timeZone
+				);
+				const isEarnings = event.type === "earnings";
+				return {
+					id: `${event.type}-${ticker}-${event.date}`,
+					time,
+					color: isEarnings ? "#2962ff" : "#ff9800",
+					label: isEarnings ? "E" : "D",
+					tooltip: isEarnings
+						? [`Earnings ${event.label || ""}`.trim(), event.date]
+						: [
+								`Dividend $${event.amount}`,
+								`Ex-date ${event.date}`,
+							],
+				};
+			})
+			.filter(({ time }) => time >= from && time <= to);
+	},
+});
@@ -0,0 +1,95 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { getBybitCategory } from "../adapters/bybit-adapter";
+import { getExchangePrefix } from "../adapters/exchange-adapter";
+import { getUnderlyingSymbol } from "../derived-series";
+import { MarkSource, TimescaleMark } from "./mark-source";
+
+/** Most settlements Bybit returns per request */
+const FUNDING_PAGE_LIMIT = 200;
+/** Upper bound on pages per request, i.e. about six months at 8h funding */
+const FUNDING_MAX_PAGES = 3;
+
+/**
+ * Bybit funding rate history API response structure
+ */
+type BybitFundingHistoryResponse = {
+	retCode: number;
+	retMsg: string;
+	result: {
+		category: string;
+		list: Array<{
+			symbol: string;
+			fundingRate: string;
+			/** Settlement time in milliseconds */
+			fundingRateTimestamp: string;
+		}>;
+	};
+};
+
+/**
+ * Mark source showing funding-rate settlements of Bybit perpetuals on
+ * the time scale. Dated futures, spot and options have no funding.
+ */
+export const createFundingMarkSource = (): MarkSource => ({
+	name: "funding",
+
+	async getTimescaleMarks(
+		symbolInfo: SymbolInfo,
+		from: number,
+		to: number
+	): Promise<TimescaleMark[]> {
+		const category = getBybitCategory(symbolInfo);
+		const symbol = getUnderlyingSymbol(symbolInfo);
+		if (
+			getExchangePrefix(symbolInfo) !== "BYBIT" ||
+			(category !== "linear" && category !== "inverse") ||
+			// Dated futures such as BTCUSDT-27DEC24 do not pay funding
+			symbol.includes("-")
+		) {
+			return [];
+		}
+
+		const marks: TimescaleMark[] = [];
+		// Bybit pages backwards from endTime, newest first
+		let endTime = to * 1000;
+		for (let page = 0; page < FUNDING_MAX_PAGES; page++) {
+			const url = new URL(
+				"https://api.bybit.com/v5/market/funding/history"
+			);
+			url.searchParams.append("category", category);
+			url.searchParams.append("symbol", symbol);
+			url.searchParams.append("startTime", String(from * 1000));
+			url.searchParams.append("endTime", String(endTime));
+			url.searchParams.append("limit", String(FUNDING_PAGE_LIMIT));
+
+			const response = await fetch(url.toString());
+			const data = (await response.json()) as BybitFundingHistoryResponse;
+			if (data.retCode !== 0 || !data.result?.list) {
+				throw new Error(
+					`No funding history from Bybit API: ${data.retMsg}`
+				);
+			}
+
+			const { list } = data.result;
+			list.forEach((settlement) => {
+				const rate = Number(settlement.fundingRate);
+				const time = Number(settlement.fundingRateTimestamp);
+				marks.push({
+					id: `funding-${symbol}-${time}`,
+					time: Math.floor(time / 1000),
+					color: rate >= 0 ? "#26a69a" : "#ef5350",
+					label: "F",
+					tooltip: [
+						"Funding settlement",
+						`Rate: ${(rate * 100).toFixed(4)}%`,
+					],
+				});
+			});
+			if (list.length < FUNDING_PAGE_LIMIT) {
+				break;
+			}
+			endTime = Number(list[list.length - 1].fundingRateTimestamp) - 1;
+		}
+		return marks.reverse();
+	},
+});
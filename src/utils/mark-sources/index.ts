@@ -0,0 +1,11 @@
+export { createTradeBookMarkSource } from "./trade-book-source";
+export { createFundingMarkSource } from "./funding-source";
+export { createCorporateEventsMarkSource } from "./corporate-events-source";
+export { createUdfMarkSource } from "./udf-source";
+export type { CorporateEvent } from "./corporate-events-source";
+export type {
+	MarkSource,
+	ChartMark,
+	TimescaleMark,
+	MarkColor,
+} from "./mark-source";
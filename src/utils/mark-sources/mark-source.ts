@@ -0,0 +1,63 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+
+/**
+ * Mark color: a named color or explicit border and background colors
+ */
+export type MarkColor =
+	| "red"
+	| "green"
+	| "blue"
+	| "yellow"
+	| { border: string; background: string };
+
+/**
+ * Mark drawn on a bar, e.g. a fill
+ */
+export type ChartMark = {
+	id: string | number;
+	/** Unix seconds */
+	time: number;
+	color: MarkColor;
+	/** Tooltip text */
+	text: string;
+	/** Single character shown inside the mark */
+	label: string;
+	labelFontColor: string;
+	minSize: number;
+};
+
+/**
+ * Mark drawn on the time scale, e.g. an earnings date
+ */
+export type TimescaleMark = {
+	id: string | number;
+	/** Unix seconds */
+	time: number;
+	color: string;
+	label: string;
+	/** Tooltip lines */
+	tooltip: string[];
+};
+
+/**
+ * Contract every event source implements to feed getMarks and
+ * getTimescaleMarks. Both methods are optional and receive the visible
+ * range in unix seconds and, when the chart names it, its interval in
+ * SDK notation ("60", "D").
+ */
+export type MarkSource = {
+	/** Identifier used in logs */
+	name: string;
+	getMarks?: (
+		symbolInfo: SymbolInfo,
+		from: number,
+		to: number,
+		resolution?: string
+	) => Promise<ChartMark[]>;
+	getTimescaleMarks?: (
+		symbolInfo: SymbolInfo,
+		from: number,
+		to: number,
+		resolution?: string
+	) => Promise<TimescaleMark[]>;
+};
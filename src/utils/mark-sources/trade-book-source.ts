@@ -0,0 +1,64 @@
+import { SymbolInfo, Trade } from "@gocharting/chart-sdk";
+import { ChartMark, MarkSource } from "./mark-source";
+
+/**
+ * Whether a broker trade was made in the charted symbol
+ */
+const isTradeInSymbol = (trade: Trade, symbolInfo: SymbolInfo): boolean => {
+	const fullName = trade.security?.full_name;
+	if (fullName && symbolInfo.full_name) {
+		return fullName === symbolInfo.full_name;
+	}
+	// Trade symbols may carry an exchange prefix ("BYBIT:FUTURE:BTCUSDT")
+	const symbol = String(trade.symbol || "").replace(/^.*:/, "");
+	return symbol === (symbolInfo.symbol || symbolInfo.ticker);
+};
+
+/**
+ * Mark source showing a broker's fills as buy and sell marks
+ *
+ * getTrades is read on every request, so fills added to the trade book
+ * appear the next time the chart asks for marks.
+ *
+ * @example
+ * ```typescript
+ * const datafeed = createChartDatafeed({
+ *   markSources: [createTradeBookMarkSource(() => tradeBook.current)],
+ * });
+ * ```
+ */
+export const createTradeBookMarkSource = (
+	getTrades: () => Trade[]
+): MarkSource => ({
+	name: "trade-book",
+
+	async getMarks(
+		symbolInfo: SymbolInfo,
+		from: number,
+		to: number
+	): Promise<ChartMark[]> {
+		return getTrades()
+			.filter((trade) => isTradeInSymbol(trade, symbolInfo))
+			.map((trade) => ({
+				trade,
+				time: Math.floor(
+					Number(trade.timeStamp || new Date(trade.timestamp)) / 1000
+				),
+			}))
+			.filter(({ time }) => time >= from && time <= to)
+			.map(({ trade, time }) => {
+				const isBuy = String(trade.side).toLowerCase() === "buy";
+				return {
+					id: trade.tradeId,
+					time,
+					color: isBuy ? "green" : "red",
+					text: `${isBuy ? "Bought" : "Sold"} ${trade.size} @ ${
+						trade.price
+					}`,
+					label: isBuy ? "B" : "S",
+					labelFontColor: "#ffffff",
+					minSize: 14,
+				};
+			});
+	},
+});
@@ -0,0 +1,76 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { UdfClient, UdfMark, UdfMarksResponse } from "../udf-client";
+import { ChartMark, MarkColor, MarkSource, TimescaleMark } from "./mark-source";
+
+/** Resolution sent when the chart does not name one */
+const UDF_DEFAULT_MARK_RESOLUTION = "D";
+
+/**
+ * Marks of a UDF /marks response, which may list marks or give parallel
+ * arrays of their fields
+ */
+const toMarkList = (response: UdfMarksResponse): UdfMark[] => {
+	if (Array.isArray(response)) return response;
+	return (response.id || []).map((id, index) => ({
+		id,
+		time: response.time[index],
+		color: response.color[index],
+		text: response.text[index],
+		label: response.label[index],
+		labelFontColor: response.labelFontColor[index],
+		minSize: response.minSize[index],
+	}));
+};
+
+/**
+ * Mark source serving a UDF server's /marks and /timescale_marks, for
+ * servers whose /config announces them
+ */
+export const createUdfMarkSource = (client: UdfClient): MarkSource => {
+	const getTicker = (symbolInfo: SymbolInfo): string =>
+		symbolInfo.ticker || symbolInfo.symbol || "";
+
+	return {
+		name: "udf",
+
+		async getMarks(
+			symbolInfo: SymbolInfo,
+			from: number,
+			to: number,
+			resolution?: string
+		): Promise<ChartMark[]> {
+			const config = await client.getConfig();
+			if (!config.supports_marks) {
+				return [];
+			}
+			const response = await client.getMarks(
+				getTicker(symbolInfo),
+				from,
+				to,
+				resolution || UDF_DEFAULT_MARK_RESOLUTION
+			);
+			return toMarkList(response).map((mark) => ({
+				...mark,
+				color: mark.color as MarkColor,
+			}));
+		},
+
+		async getTimescaleMarks(
+			symbolInfo: SymbolInfo,
+			from: number,
+			to: number,
+			resolution?: string
+		): Promise<TimescaleMark[]> {
+			const config = await client.getConfig();
+			if (!config.supports_timescale_marks) {
+				return [];
+			}
+			return client.getTimescaleMarks(
+				getTicker(symbolInfo),
+				from,
+				to,
+				resolution || UDF_DEFAULT_MARK_RESOLUTION
+			);
+		},
+	};
+};
@@ -0,0 +1,133 @@
+import { DepthUpdate } from "./datafeed-types";
+import { createOrderBook } from "./order-book";
+
+const update = (
+	type: DepthUpdate["type"],
+	sequence: number,
+	bids: Array<[number, number]>,
+	asks: Array<[number, number]>
+): DepthUpdate => ({ type, bids, asks, sequence, time: sequence * 100 });
+
+describe("createOrderBook", () => {
+	it("starts empty and unsynced", () => {
+		const book = createOrderBook();
+		expect(book.isSynced()).toBe(false);
+		expect(book.getSnapshot(5)).toEqual({
+			bids: [],
+			asks: [],
+			time: 0,
+			sequence: 0,
+		});
+	});
+
+	it("keeps a snapshot's levels sorted best first", () => {
+		const book = createOrderBook();
+		expect(
+			book.apply(
+				update(
+					"snapshot",
+					10,
+					[
+						[99, 1],
+						[100, 2],
+						[98, 3],
+					],
+					[
+						[102, 1],
+						[101, 2],
+					]
+				)
+			)
+		).toBe(true);
+		expect(book.isSynced()).toBe(true);
+		expect(book.getSnapshot(2)).toEqual({
+			bids: [
+				{ price: 100, size: 2 },
+				{ price: 99, size: 1 },
+			],
+			asks: [
+				{ price: 101, size: 2 },
+				{ price: 102, size: 1 },
+			],
+			time: 1000,
+			sequence: 10,
+		});
+	});
+
+	it("applies deltas that follow the previous update", () => {
+		const book = createOrderBook();
+		book.apply(update("snapshot", 10, [[100, 2]], [[101, 2]]));
+		// Sizes replace the level; zero removes it
+		expect(
+			book.apply(
+				update(
+					"delta",
+					11,
+					[
+						[100, 5],
+						[99.5, 1],
+					],
+					[[101, 0]]
+				)
+			)
+		).toBe(true);
+		expect(book.apply(update("delta", 12, [], [[101.5, 4]]))).toBe(true);
+		expect(book.getSnapshot(5)).toEqual({
+			bids: [
+				{ price: 100, size: 5 },
+				{ price: 99.5, size: 1 },
+			],
+			asks: [{ price: 101.5, size: 4 }],
+			time: 1200,
+			sequence: 12,
+		});
+	});
+
+	it("drops the book on a sequence gap and resyncs on the next snapshot", () => {
+		const book = createOrderBook();
+		book.apply(update("snapshot", 10, [[100, 2]], [[101, 2]]));
+		expect(book.apply(update("delta", 12, [[100, 3]], []))).toBe(false);
+		expect(book.isSynced()).toBe(false);
+		expect(book.getSnapshot(5).bids).toEqual([]);
+		expect(book.getSnapshot(5).asks).toEqual([]);
+
+		// Deltas stay rejected until a snapshot arrives
+		expect(book.apply(update("delta", 13, [[100, 4]], []))).toBe(false);
+		expect(book.apply(update("snapshot", 20, [[99, 1]], [[102, 1]]))).toBe(
+			true
+		);
+		expect(book.apply(update("delta", 21, [[99, 2]], []))).toBe(true);
+		expect(book.getSnapshot(5)).toEqual({
+			bids: [{ price: 99, size: 2 }],
+			asks: [{ price: 102, size: 1 }],
+			time: 2100,
+			sequence: 21,
+		});
+	});
+
+	it("rejects deltas before any snapshot", () => {
+		const book = createOrderBook();
+		expect(book.apply(update("delta", 1, [[100, 1]], []))).toBe(false);
+		expect(book.getSnapshot(5).bids).toEqual([]);
+	});
+
+	it("replaces the whole book on a snapshot", () => {
+		const book = createOrderBook();
+		book.apply(update("snapshot", 10, [[100, 2]], [[101, 2]]));
+		book.apply(update("snapshot", 30, [[90, 1]], []));
+		expect(book.getSnapshot(5)).toEqual({
+			bids: [{ price: 90, size: 1 }],
+			asks: [],
+			time: 3000,
+			sequence: 30,
+		});
+	});
+
+	it("waits for a snapshot after a reset", () => {
+		const book = createOrderBook();
+		book.apply(update("snapshot", 10, [[100, 2]], [[101, 2]]));
+		book.reset();
+		expect(book.isSynced()).toBe(false);
+		expect(book.apply(update("delta", 11, [[100, 3]], []))).toBe(false);
+	});
+});
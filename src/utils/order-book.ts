@@ -0,0 +1,117 @@
+import { DepthUpdate } from "./datafeed-types";
+
+/**
+ * Price level of an order book
+ */
+export type OrderBookLevel = {
+	price: number;
+	size: number;
+};
+
+/**
+ * Top of an order book, as handed to depth subscribers
+ */
+export type DepthSnapshot = {
+	/** Bids, best (highest) first */
+	bids: OrderBookLevel[];
+	/** Asks, best (lowest) first */
+	asks: OrderBookLevel[];
+	/** Exchange time of the last update in unix milliseconds */
+	time: number;
+	/** Venue update id of the last update */
+	sequence: number;
+};
+
+/**
+ * Local copy of a venue's order book, kept from a snapshot and its deltas
+ */
+export type OrderBook = {
+	/**
+	 * Applies an update. Returns false for a delta that does not follow the
+	 * previous update or arrives before any snapshot; the book then stays
+	 * empty until the next snapshot.
+	 */
+	apply: (update: DepthUpdate) => boolean;
+	/** Whether a snapshot has been applied since the last gap or reset */
+	isSynced: () => boolean;
+	/** Drops every level until the next snapshot */
+	reset: () => void;
+	/** Best levels on each side */
+	getSnapshot: (levels: number) => DepthSnapshot;
+};
+
+/**
+ * Creates an empty order book
+ *
+ * @example
+ * ```typescript
+ * const book = createOrderBook();
+ * if (!book.apply(update)) {
+ *   // Sequence gap: request a fresh snapshot
+ * }
+ * const { bids, asks } = book.getSnapshot(20);
+ * ```
+ */
+export const createOrderBook = (): OrderBook => {
+	const bids = new Map<number, number>();
+	const asks = new Map<number, number>();
+	let sequence: number | null = null;
+	let time = 0;
+
+	const reset = () => {
+		bids.clear();
+		asks.clear();
+		sequence = null;
+	};
+
+	const applyLevels = (
+		side: Map<number, number>,
+		levels: Array<[number, number]>
+	) => {
+		levels.forEach(([price, size]) => {
+			if (size === 0) {
+				side.delete(price);
+			} else {
+				side.set(price, size);
+			}
+		});
+	};
+
+	const getTopLevels = (
+		side: Map<number, number>,
+		levels: number,
+		descending: boolean
+	): OrderBookLevel[] =>
+		Array.from(side.entries())
+			.sort(([a], [b]) => (descending ? b - a : a - b))
+			.slice(0, levels)
+			.map(([price, size]) => ({ price, size }));
+
+	return {
+		apply(update: DepthUpdate): boolean {
+			if (update.type === "snapshot") {
+				bids.clear();
+				asks.clear();
+			} else if (sequence === null || update.sequence !== sequence + 1) {
+				reset();
+				return false;
+			}
+			applyLevels(bids, update.bids);
+			applyLevels(asks, update.asks);
+			sequence = update.sequence;
+			time = update.time;
+			return true;
+		},
+
+		isSynced: () => sequence !== null,
+
+		reset,
+
+		getSnapshot: (levels: number): DepthSnapshot => ({
+			bids: getTopLevels(bids, levels, true),
+			asks: getTopLevels(asks, levels, false),
+			time,
+			sequence: sequence ?? 0,
+		}),
+	};
+};
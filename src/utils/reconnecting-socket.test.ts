@@ -0,0 +1,154 @@
+import {
+	createReconnectingSocket,
+	getBackoffDelay,
+	SocketState,
+} from "./reconnecting-socket";
+import { fakeSockets, installFakeWebSocket } from "./test-utils/fake-socket";
+
+describe("getBackoffDelay", () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("grows exponentially up to the cap", () => {
+		jest.spyOn(Math, "random").mockReturnValue(0);
+		expect(
+			[0, 1, 2, 3, 4, 5].map((attempt) =>
+				getBackoffDelay(attempt, 1000, 10000, 2, 0.5)
+			)
+		).toEqual([1000, 2000, 4000, 8000, 10000, 10000]);
+	});
+
+	it("takes off up to the jitter fraction", () => {
+		jest.spyOn(Math, "random").mockReturnValue(1);
+		expect(getBackoffDelay(1, 1000, 10000, 2, 0.5)).toBe(1000);
+		expect(getBackoffDelay(1, 1000, 10000, 2, 0)).toBe(2000);
+	});
+});
+
+describe("createReconnectingSocket", () => {
+	let restoreWebSocket: () => void;
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		restoreWebSocket = installFakeWebSocket();
+	});
+
+	afterEach(() => {
+		restoreWebSocket();
+		jest.useRealTimers();
+	});
+
+	const createSocket = (
+		options: Partial<Parameters<typeof createReconnectingSocket>[0]> = {}
+	) => {
+		const states: SocketState[] = [];
+		const opens: boolean[] = [];
+		const messages: unknown[] = [];
+		const socket = createReconnectingSocket({
+			url: "wss://stream.example.com",
+			onMessage: (event) => messages.push(event.data),
+			onOpen: (isReconnect) => opens.push(isReconnect),
+			onStateChange: (state) => states.push(state),
+			jitter: 0,
+			...options,
+		});
+		return { socket, states, opens, messages };
+	};
+
+	it("connects once and reports the first open as not a reconnect", () => {
+		const { socket, states, opens, messages } = createSocket();
+		expect(socket.state).toBe("idle");
+		expect(socket.send("early")).toBe(false);
+
+		socket.connect();
+		socket.connect();
+		expect(fakeSockets).toHaveLength(1);
+		fakeSockets[0].open();
+		fakeSockets[0].receive("hello");
+
+		expect(states).toEqual(["connecting", "open"]);
+		expect(opens).toEqual([false]);
+		expect(messages).toEqual(["hello"]);
+		expect(socket.send("ping")).toBe(true);
+		expect(fakeSockets[0].sent).toEqual(["ping"]);
+		socket.close();
+	});
+
+	it("reconnects after drops with growing delays, reset by a good open", () => {
+		const { socket, states, opens } = createSocket({
+			initialDelayMs: 1000,
+			maxDelayMs: 3000,
+		});
+		socket.connect();
+		fakeSockets[0].open();
+
+		// Dropped, then two failed attempts: 1s, 2s, then capped at 3s
+		fakeSockets[0].drop();
+		expect(socket.state).toBe("reconnecting");
+		jest.advanceTimersByTime(999);
+		expect(fakeSockets).toHaveLength(1);
+		jest.advanceTimersByTime(1);
+		expect(fakeSockets).toHaveLength(2);
+		fakeSockets[1].drop();
+		jest.advanceTimersByTime(2000);
+		expect(fakeSockets).toHaveLength(3);
+		fakeSockets[2].drop();
+		jest.advanceTimersByTime(2999);
+		expect(fakeSockets).toHaveLength(3);
+		jest.advanceTimersByTime(1);
+		expect(fakeSockets).toHaveLength(4);
+
+		fakeSockets[3].open();
+		expect(opens).toEqual([false, true]);
+		expect(states.slice(-2)).toEqual(["connecting", "open"]);
+
+		// A successful open starts the backoff over
+		fakeSockets[3].drop();
+		jest.advanceTimersByTime(1000);
+		expect(fakeSockets).toHaveLength(5);
+		socket.close();
+	});
+
+	it("reconnects when nothing arrives within the heartbeat timeout", () => {
+		const { socket } = createSocket({
+			heartbeatTimeoutMs: 5000,
+			heartbeatMessage: () => "ping",
+			heartbeatIntervalMs: 2000,
+		});
+		socket.connect();
+		fakeSockets[0].open();
+
+		jest.advanceTimersByTime(4000);
+		expect(fakeSockets[0].sent).toEqual(["ping", "ping"]);
+		// Any message re-arms the timeout
+		fakeSockets[0].receive("pong");
+		jest.advanceTimersByTime(4999);
+		expect(socket.state).toBe("open");
+		jest.advanceTimersByTime(1);
+		expect(socket.state).toBe("reconnecting");
+		jest.advanceTimersByTime(1000);
+		expect(fakeSockets).toHaveLength(2);
+		socket.close();
+	});
+
+	it("stops for good once closed", () => {
+		const { socket, states, messages } = createSocket();
+		socket.connect();
+		fakeSockets[0].open();
+		socket.close();
+		jest.advanceTimersByTime(60000);
+
+		expect(fakeSockets).toHaveLength(1);
+		expect(socket.state).toBe("closed");
+		expect(states[states.length - 1]).toBe("closed");
+		expect(socket.send("late")).toBe(false);
+
+		// Sockets from before the close are no longer heard
+		fakeSockets[0].receive("late");
+		expect(messages).toEqual([]);
+		socket.connect();
+		expect(fakeSockets).toHaveLength(2);
+		socket.close();
+	});
+});
@@ -0,0 +1,236 @@
+/**
+ * Lifecycle of a reconnecting socket
+ *
+ * idle -> connecting -> open -> reconnecting -> connecting -> ... -> closed
+ */
+export type SocketState =
+	"idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+/**
+ * Options for createReconnectingSocket
+ */
+export type ReconnectingSocketOptions = {
+	url: string;
+	/** Called for every message received on the underlying WebSocket */
+	onMessage: (event: MessageEvent) => void;
+	/** Called each time a connection opens; isReconnect is false only for the first one */
+	onOpen?: (isReconnect: boolean) => void;
+	onStateChange?: (state: SocketState) => void;
+	/** First reconnect delay in milliseconds (default 1000) */
+	initialDelayMs?: number;
+	/** Upper bound for the reconnect delay in milliseconds (default 30000) */
+	maxDelayMs?: number;
+	/** Multiplier applied to the delay after each failed attempt (default 2) */
+	backoffFactor?: number;
+	/** Fraction of the delay that is randomised, 0..1 (default 0.5) */
+	jitter?: number;
+	/** Reconnect when nothing was received for this long (default 60000, 0 disables) */
+	heartbeatTimeoutMs?: number;
+	/** Application-level ping payload, sent every heartbeatIntervalMs while open */
+	heartbeatMessage?: () => string;
+	/** How often heartbeatMessage is sent (default 20000) */
+	heartbeatIntervalMs?: number;
+};
+
+/**
+ * WebSocket wrapper that reconnects with jittered exponential backoff
+ */
+export type ReconnectingSocket = {
+	readonly readyState: number;
+	readonly state: SocketState;
+	readonly url: string;
+	/** Sends only while open; returns false when the message was dropped */
+	send: (message: string) => boolean;
+	/** Opens the connection if it is idle or closed */
+	connect: () => void;
+	/** Closes the connection for good; no reconnect is attempted */
+	close: () => void;
+};
+
+/**
+ * Reconnect delay for the given attempt (0-based), with jitter applied
+ */
+export const getBackoffDelay = (
+	attempt: number,
+	initialDelayMs: number,
+	maxDelayMs: number,
+	backoffFactor: number,
+	jitter: number
+): number => {
+	const delay = Math.min(
+		maxDelayMs,
+		initialDelayMs * Math.pow(backoffFactor, attempt)
+	);
+	// Spread reconnects of many clients over [delay * (1 - jitter), delay]
+	return Math.round(delay * (1 - jitter * Math.random()));
+};
+
+/**
+ * Creates a WebSocket connection that survives drops
+ *
+ * The socket is re-created after every close or heartbeat timeout until
+ * close() is called. Consumers replay their subscriptions from onOpen.
+ *
+ * @example
+ * ```typescript
+ * const socket = createReconnectingSocket({
+ *   url: 'wss://stream.bybit.com/v5/public/linear',
+ *   onMessage: (event) => handle(event),
+ *   onOpen: () => socket.send(JSON.stringify({ op: 'subscribe', args })),
+ * });
+ * socket.connect();
+ * ```
+ */
+export const createReconnectingSocket = (
+	options: ReconnectingSocketOptions
+): ReconnectingSocket => {
+	const {
+		url,
+		onMessage,
+		onOpen,
+		onStateChange,
+		initialDelayMs = 1000,
+		maxDelayMs = 30000,
+		backoffFactor = 2,
+		jitter = 0.5,
+		heartbeatTimeoutMs = 60000,
+		heartbeatMessage,
+		heartbeatIntervalMs = 20000,
+	} = options;
+
+	let ws: WebSocket | null = null;
+	let state: SocketState = "idle";
+	let attempt = 0;
+	let hasConnected = false;
+	let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	let heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+	let pingTimer: ReturnType<typeof setInterval> | null = null;
+
+	const setState = (next: SocketState) => {
+		if (state === next) return;
+		state = next;
+		onStateChange?.(next);
+	};
+
+	const clearTimers = () => {
+		if (reconnectTimer) {
+			clearTimeout(reconnectTimer);
+			reconnectTimer = null;
+		}
+		if (heartbeatTimer) {
+			clearTimeout(heartbeatTimer);
+			heartbeatTimer = null;
+		}
+		if (pingTimer) {
+			clearInterval(pingTimer);
+			pingTimer = null;
+		}
+	};
+
+	// Keep idle connections alive; the server's reply re-arms the heartbeat
+	const startPinging = () => {
+		if (!heartbeatMessage) return;
+		if (pingTimer) clearInterval(pingTimer);
+		pingTimer = setInterval(() => {
+			if (ws && ws.readyState === WebSocket.OPEN) {
+				ws.send(heartbeatMessage());
+			}
+		}, heartbeatIntervalMs);
+	};
+
+	// Any inbound message proves the connection is alive
+	const armHeartbeat = () => {
+		if (heartbeatTimer) clearTimeout(heartbeatTimer);
+		if (!heartbeatTimeoutMs) return;
+		heartbeatTimer = setTimeout(() => {
+			console.warn(
+				`⚠️ [ReconnectingSocket] No data for ${heartbeatTimeoutMs}ms, reconnecting ${url}`
+			);
+			// close() fires the close listener, which schedules the reconnect
+			ws?.close();
+		}, heartbeatTimeoutMs);
+	};
+
+	const scheduleReconnect = () => {
+		if (state === "closed") return;
+		setState("reconnecting");
+		const delay = getBackoffDelay(
+			attempt,
+			initialDelayMs,
+			maxDelayMs,
+			backoffFactor,
+			jitter
+		);
+		attempt += 1;
+		reconnectTimer = setTimeout(() => {
+			reconnectTimer = null;
+			open();
+		}, delay);
+	};
+
+	const open = () => {
+		setState("connecting");
+		const socket = new WebSocket(url);
+		ws = socket;
+
+		socket.addEventListener("open", () => {
+			if (ws !== socket) return;
+			const isReconnect = hasConnected;
+			hasConnected = true;
+			attempt = 0;
+			setState("open");
+			armHeartbeat();
+			startPinging();
+			onOpen?.(isReconnect);
+		});
+
+		socket.addEventListener("message", (event: MessageEvent) => {
+			if (ws !== socket) return;
+			armHeartbeat();
+			onMessage(event);
+		});
+
+		socket.addEventListener("error", () => {
+			console.error(
+				"WebSocket connection failed. Please check network connectivity and URL."
+			);
+		});
+
+		socket.addEventListener("close", () => {
+			if (ws !== socket) return;
+			ws = null;
+			clearTimers();
+			scheduleReconnect();
+		});
+	};
+
+	return {
+		get readyState() {
+			return ws ? ws.readyState : WebSocket.CLOSED;
+		},
+		get state() {
+			return state;
+		},
+		url,
+		send(message: string): boolean {
+			if (ws && ws.readyState === WebSocket.OPEN) {
+				ws.send(message);
+				return true;
+			}
+			return false;
+		},
+		connect() {
+			if (state === "idle" || state === "closed") {
+				attempt = 0;
+				open();
+			}
+		},
+		close() {
+			setState("closed");
+			clearTimers();
+			const socket = ws;
+			ws = null;
+			socket?.close();
+		},
+	};
+};
@@ -0,0 +1,196 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import {
+	createReplayPlayer,
+	getReplayTrades,
+	ReplayPlayerOptions,
+	ReplayState,
+} from "./replay";
+import { RawBar } from "./datafeed-types";
+import { parseInterval } from "./resolution";
+
+// Minute bars closing at their minute number
+const START = Date.UTC(2025, 5, 2) / 1000;
+const NOW = START + 3 * 3600;
+
+const bar = (time: number): RawBar => ({
+	time,
+	open: time / 60 - 1,
+	high: time / 60 + 1,
+	low: time / 60 - 2,
+	close: time / 60,
+	volume: 5,
+});
+
+// Bars of every minute asked for, past the present too, but for a gap
+// in the second hour
+const loadMinuteBars = async (from: number, to: number): Promise<RawBar[]> => {
+	const bars: RawBar[] = [];
+	for (let time = Math.ceil(from / 60) * 60; time <= to; time += 60) {
+		const inGap = time >= START + 3600 && time < START + 7200;
+		if (!inGap) bars.push(bar(time));
+	}
+	return bars;
+};
+
+// Lets pending loads and their continuations settle
+const flush = async () => {
+	for (let i = 0; i < 20; i++) await Promise.resolve();
+};
+
+const createPlayer = (overrides: Partial<ReplayPlayerOptions> = {}) => {
+	const revealed: RawBar[] = [];
+	const states: ReplayState[] = [];
+	const errors: unknown[] = [];
+	const player = createReplayPlayer({
+		symbol: "BYBIT:FUTURE:BTCUSDT",
+		step: parseInterval("1"),
+		startTime: START + 30,
+		speed: 2,
+		now: () => NOW * 1000,
+		loadBars: loadMinuteBars,
+		onBar: (each) => revealed.push(each),
+		onChange: (state) => states.push(state),
+		onError: (error) => errors.push(error),
+		...overrides,
+	});
+	return { player, revealed, states, errors };
+};
+
+describe("createReplayPlayer", () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("starts paused at the start of the step bar, priced from the bar before", async () => {
+		const { player } = createPlayer();
+		await flush();
+		expect(player.getState()).toEqual({
+			symbol: "BYBIT:FUTURE:BTCUSDT",
+			cursor: START,
+			speed: 2,
+			step: "1",
+			playing: false,
+			ended: false,
+			price: START / 60 - 1,
+		});
+	});
+
+	it("steps bar by bar over closed periods", async () => {
+		const { player, revealed } = createPlayer({
+			startTime: START + 3540,
+		});
+		await expect(player.step(2)).resolves.toBe(2);
+		expect(revealed.map(({ time }) => time)).toEqual([
+			START + 3540,
+			START + 7200,
+		]);
+		expect(player.getState()).toMatchObject({
+			cursor: START + 7260,
+			price: START / 60 + 120,
+		});
+	});
+
+	it("reveals bars at the playing speed", async () => {
+		jest.useFakeTimers();
+		const { player, revealed } = createPlayer();
+		player.play();
+		for (let i = 0; i < 4; i++) {
+			jest.advanceTimersByTime(500);
+			await flush();
+		}
+		expect(revealed).toHaveLength(4);
+
+		player.setSpeed(4);
+		jest.advanceTimersByTime(500);
+		await flush();
+		jest.advanceTimersByTime(250);
+		await flush();
+		expect(revealed).toHaveLength(6);
+
+		player.pause();
+		jest.advanceTimersByTime(5000);
+		await flush();
+		expect(revealed).toHaveLength(6);
+	});
+
+	it("ends at the present", async () => {
+		const { player, revealed } = createPlayer({
+			startTime: NOW - 120,
+		});
+		await expect(player.step(10)).resolves.toBe(3);
+		expect(revealed[revealed.length - 1].time).toBe(NOW);
+		expect(player.getState()).toMatchObject({
+			ended: true,
+			playing: false,
+		});
+	});
+
+	it("seeks back and plays on from there", async () => {
+		const { player, revealed } = createPlayer();
+		await player.step(5);
+		player.seek(START + 90);
+		expect(player.getState()).toMatchObject({
+			cursor: START + 60,
+			price: null,
+		});
+		await flush();
+		expect(player.getState().price).toBe(START / 60);
+		await player.step(1);
+		expect(revealed[revealed.length - 1].time).toBe(START + 60);
+	});
+
+	it("pauses and reports failed loads while playing", async () => {
+		jest.useFakeTimers();
+		const failure = new Error("offline");
+		const { player, errors } = createPlayer({
+			loadBars: async (from) => {
+				if (from >= START) throw failure;
+				return [];
+			},
+		});
+		player.play();
+		jest.advanceTimersByTime(500);
+		await flush();
+		expect(errors).toEqual([failure]);
+		expect(player.getState().playing).toBe(false);
+	});
+
+	it("rejects speeds that are not positive", () => {
+		expect(() => createPlayer({ speed: 0 })).toThrow(
+			"Invalid replay speed: 0"
+		);
+		const { player } = createPlayer();
+		expect(() => player.setSpeed(Infinity)).toThrow("Invalid replay speed");
+	});
+});
+
+describe("getReplayTrades", () => {
+	const symbolInfo = {
+		symbol: "BTCUSDT",
+		full_name: "BYBIT:FUTURE:BTCUSDT",
+		exchange: "BYBIT",
+	} as SymbolInfo;
+
+	it("visits the low first in a rising bar, ending on the close", () => {
+		const trades = getReplayTrades(bar(START), symbolInfo, 60);
+		const close = START / 60;
+		expect(trades.map(({ price }) => price)).toEqual([
+			close - 1,
+			close - 2,
+			close + 1,
+			close,
+		]);
+		expect(trades.map(({ quantity }) => quantity)).toEqual([0, 0, 0, 5]);
+		trades.forEach(({ timeStamp }) => {
+			expect(timeStamp.getTime()).toBeGreaterThanOrEqual(START * 1000);
+			expect(timeStamp.getTime()).toBeLessThan((START + 60) * 1000);
+		});
+	});
+
+	it("visits the high first in a falling bar", () => {
+		const falling = { ...bar(START), open: START / 60 + 0.5 };
+		const trades = getReplayTrades(falling, symbolInfo, 60);
+		expect(trades[1].price).toBe(falling.high);
+		expect(trades[3].amount).toBe(falling.close * falling.volume);
+	});
+});
@@ -0,0 +1,297 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { RawBar, ResolutionInfo, TradeMessage } from "./datafeed-types";
+import { getBarStartTime, getResolutionSeconds } from "./resolution";
+
+/** Step bars loaded ahead of the cursor per request */
+const REPLAY_PRELOAD_BARS = 500;
+/** Step bars looked back over for the price at a new cursor */
+const REPLAY_PRICE_LOOKBACK_BARS = 1440;
+
+/**
+ * Where a replay stands
+ */
+export type ReplayState = {
+	/** Full name of the replayed symbol */
+	symbol: string;
+	/** Unix seconds; step bars starting before it have been revealed */
+	cursor: number;
+	/** Step bars revealed per second while playing */
+	speed: number;
+	/** Interval each step reveals, e.g. "1" */
+	step: string;
+	playing: boolean;
+	/** Set when playback ran out of bars at the present */
+	ended: boolean;
+	/** Close of the latest bar before the cursor, once known */
+	price: number | null;
+};
+
+/**
+ * Options for createReplayPlayer
+ */
+export type ReplayPlayerOptions = {
+	symbol: string;
+	step: ResolutionInfo;
+	/** Unix seconds; rounded down to the start of its step bar */
+	startTime: number;
+	speed: number;
+	/** Current time in milliseconds; playback ends there */
+	now: () => number;
+	/** Step bars starting in [from, to], oldest first */
+	loadBars: (from: number, to: number) => Promise<RawBar[]>;
+	/** Receives each step bar as it is revealed */
+	onBar: (bar: RawBar) => void;
+	/** Receives the state after every change */
+	onChange: (state: ReplayState) => void;
+	/** Receives failures to load bars; playback pauses on them */
+	onError: (error: unknown) => void;
+};
+
+/**
+ * Plays the bars of one symbol forward from a point in the past
+ */
+export type ReplayPlayer = {
+	getState: () => ReplayState;
+	/** Reveals step bars at the current speed */
+	play: () => void;
+	pause: () => void;
+	/** Reveals up to count bars; resolves with how many were revealed */
+	step: (count?: number) => Promise<number>;
+	/** Moves the cursor to a time (unix seconds), hiding later bars */
+	seek: (time: number) => void;
+	setSpeed: (speed: number) => void;
+	/** Stops playback for good; loads in flight are discarded */
+	stop: () => void;
+};
+
+/**
+ * Trades replaying a step bar: the open, both extremes in the order the
+ * bar most likely made them, and the close carrying the bar's volume.
+ * They are spread over the bar so every one of them lands inside it.
+ */
+export const getReplayTrades = (
+	bar: RawBar,
+	symbolInfo: SymbolInfo,
+	stepSeconds: number
+): TradeMessage[] => {
+	const symbol = symbolInfo.ticker || symbolInfo.symbol || "";
+	const extremes =
+		bar.close >= bar.open ? [bar.low, bar.high] : [bar.high, bar.low];
+	const prices = [bar.open, ...extremes, bar.close];
+	const startMs = bar.time * 1000;
+	const stepMs = stepSeconds * 1000;
+	return prices.map((price, index) => {
+		const isClose = index === prices.length - 1;
+		const quantity = isClose ? bar.volume : 0;
+		return {
+			type: "trade",
+			productId: symbolInfo.full_name || symbol,
+			symbol,
+			exchange: symbolInfo.exchange || "",
+			segment: symbolInfo.segment || "",
+			timeStamp: new Date(
+				isClose
+					? startMs + stepMs - 1
+					: startMs + Math.floor((stepMs * index) / prices.length)
+			),
+			tradeID: `replay-${symbol}-${bar.time}-${index}`,
+			price,
+			quantity,
+			amount: isClose ? (bar.turnover ?? price * quantity) : 0,
+			side: "",
+		};
+	});
+};
+
+/**
+ * Creates a replay player
+ *
+ * The player starts paused with its cursor at startTime. Bars are loaded
+ * in windows ahead of the cursor, walking over closed sessions, until the
+ * windows pass the present; playback then pauses and reports ended.
+ *
+ * @example
+ * ```typescript
+ * const player = createReplayPlayer({
+ *   symbol: "BYBIT:FUTURE:BTCUSDT",
+ *   step: parseInterval("1"),
+ *   startTime: Date.UTC(2024, 0, 2) / 1000,
+ *   speed: 5,
+ *   now: Date.now,
+ *   loadBars: (from, to) => fetchMinuteBars(from, to),
+ *   onBar: (bar) => feedChart(bar),
+ *   onChange: (state) => render(state),
+ *   onError: (error) => console.error(error),
+ * });
+ * player.play();
+ * ```
+ */
+export const createReplayPlayer = (
+	options: ReplayPlayerOptions
+): ReplayPlayer => {
+	const { symbol, step, now, loadBars, onBar, onChange, onError } = options;
+	const stepSeconds = getResolutionSeconds(step);
+
+	const checkSpeed = (speed: number) => {
+		if (!(speed > 0) || !Number.isFinite(speed)) {
+			throw new Error(`Invalid replay speed: ${speed}`);
+		}
+	};
+	checkSpeed(options.speed);
+
+	let cursor = getBarStartTime(options.startTime, step);
+	let speed = options.speed;
+	let playing = false;
+	let ended = false;
+	let price: number | null = null;
+	// Step bars loaded ahead of the cursor, and where the next window starts
+	let pending: RawBar[] = [];
+	let loadedUntil = cursor;
+	let timer: ReturnType<typeof setInterval> | null = null;
+	let advancing = false;
+	// Bumped by seek and stop, so work started before them is discarded
+	let generation = 0;
+
+	const getState = (): ReplayState => ({
+		symbol,
+		cursor,
+		speed,
+		step: step.label,
+		playing,
+		ended,
+		price,
+	});
+
+	const notify = () => onChange(getState());
+
+	const stopTimer = () => {
+		if (timer) {
+			clearInterval(timer);
+			timer = null;
+		}
+	};
+
+	// Price at the cursor from the bars before it, unless a revealed bar
+	// set one first
+	const loadPrice = async () => {
+		const current = generation;
+		const bars = await loadBars(
+			cursor - stepSeconds * REPLAY_PRICE_LOOKBACK_BARS,
+			cursor - 1
+		);
+		const lastBar = bars.filter((bar) => bar.time < cursor).pop();
+		if (current !== generation || price !== null || !lastBar) return;
+		price = lastBar.close;
+		notify();
+	};
+
+	// Next unrevealed step bar, loading windows ahead until one holds bars.
+	// Null once the windows pass the present.
+	const getNextBar = async (): Promise<RawBar | null> => {
+		const current = generation;
+		// A seek while loading starts a new generation, so the cursor holds
+		const start = cursor;
+		while (!pending.length) {
+			if (loadedUntil * 1000 > now()) return null;
+			const from = loadedUntil;
+			const to = from + stepSeconds * REPLAY_PRELOAD_BARS - 1;
+			const bars = await loadBars(from, to);
+			if (current !== generation) return null;
+			loadedUntil = to + 1;
+			// Generated data runs ahead of the present; replays stop there
+			pending = bars.filter(
+				(bar) =>
+					bar.time >= start &&
+					bar.time <= to &&
+					bar.time * 1000 <= now()
+			);
+		}
+		return pending.shift() as RawBar;
+	};
+
+	const advance = async (count: number): Promise<number> => {
+		if (advancing) return 0;
+		advancing = true;
+		const current = generation;
+		let revealed = 0;
+		try {
+			while (revealed < count) {
+				const bar = await getNextBar();
+				if (current !== generation) break;
+				if (!bar) {
+					ended = true;
+					playing = false;
+					stopTimer();
+					break;
+				}
+				cursor = bar.time + stepSeconds;
+				price = bar.close;
+				revealed += 1;
+				onBar(bar);
+			}
+		} finally {
+			if (current === generation) advancing = false;
+		}
+		if (current === generation) notify();
+		return revealed;
+	};
+
+	const pause = () => {
+		playing = false;
+		stopTimer();
+		notify();
+	};
+
+	const startTimer = () => {
+		stopTimer();
+		timer = setInterval(() => {
+			advance(1).catch((error) => {
+				pause();
+				onError(error);
+			});
+		}, 1000 / speed);
+	};
+
+	loadPrice().catch(onError);
+
+	return {
+		getState,
+
+		play() {
+			// Bars may have appeared since playback ended
+			ended = false;
+			playing = true;
+			startTimer();
+			notify();
+		},
+
+		pause,
+
+		step: (count = 1) => advance(count),
+
+		seek(time: number) {
+			generation += 1;
+			cursor = getBarStartTime(time, step);
+			pending = [];
+			loadedUntil = cursor;
+			advancing = false;
+			ended = false;
+			price = null;
+			notify();
+			loadPrice().catch(onError);
+		},
+
+		setSpeed(nextSpeed: number) {
+			checkSpeed(nextSpeed);
+			speed = nextSpeed;
+			if (playing) startTimer();
+			notify();
+		},
+
+		stop() {
+			generation += 1;
+			playing = false;
+			stopTimer();
+		},
+	};
+};
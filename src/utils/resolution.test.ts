@@ -0,0 +1,176 @@
+import {
+	aggregateBars,
+	createResolution,
+	getBarStartTime,
+	parseInterval,
+	planResolution,
+} from "./resolution";
+import { RawBar } from "./datafeed-types";
+
+// US equities open at 09:30 New York, 13:30 or 14:30 UTC
+const NEW_YORK_ALIGNMENTS = [48600, 52200];
+
+describe("parseInterval", () => {
+	it("reads SDK and GoCharting notation", () => {
+		expect(parseInterval("15")).toEqual({
+			scale: 15,
+			units: "minutes",
+			label: "15",
+		});
+		expect(parseInterval("30S").label).toBe("30S");
+		expect(parseInterval("3m").label).toBe("3");
+		expect(parseInterval("2h")).toEqual({
+			scale: 2,
+			units: "hours",
+			label: "120",
+		});
+		expect(parseInterval("D").label).toBe("D");
+		expect(parseInterval("2D").label).toBe("2D");
+		expect(parseInterval("1W").label).toBe("W");
+		expect(parseInterval("6M").label).toBe("6M");
+		expect(parseInterval("1Y")).toEqual({
+			scale: 12,
+			units: "months",
+			label: "12M",
+		});
+	});
+
+	it("writes whole hours in hours", () => {
+		expect(parseInterval("240")).toEqual(createResolution(4, "hours"));
+	});
+
+	it("throws for anything else", () => {
+		expect(() => parseInterval("")).toThrow("Unsupported interval");
+		expect(() => parseInterval("5x")).toThrow("Unsupported interval: 5x");
+		expect(() => parseInterval("0")).toThrow("Unsupported interval");
+	});
+});
+
+describe("getBarStartTime", () => {
+	// Wednesday 2025-06-04 13:47:12 UTC
+	const time = Date.UTC(2025, 5, 4, 13, 47, 12) / 1000;
+
+	it("aligns intraday bars to the epoch", () => {
+		expect(getBarStartTime(time, parseInterval("5"))).toBe(
+			Date.UTC(2025, 5, 4, 13, 45) / 1000
+		);
+		expect(getBarStartTime(time, parseInterval("240"))).toBe(
+			Date.UTC(2025, 5, 4, 12) / 1000
+		);
+	});
+
+	it("starts weeks on Monday and months on the 1st", () => {
+		expect(getBarStartTime(time, parseInterval("W"))).toBe(
+			Date.UTC(2025, 5, 2) / 1000
+		);
+		expect(getBarStartTime(time, parseInterval("M"))).toBe(
+			Date.UTC(2025, 5, 1) / 1000
+		);
+		expect(getBarStartTime(time, parseInterval("3M"))).toBe(
+			Date.UTC(2025, 3, 1) / 1000
+		);
+	});
+});
+
+describe("planResolution", () => {
+	const natives = ["1", "5", "30", "60", "D", "W", "M"];
+
+	it("serves native intervals as they are", () => {
+		expect(planResolution(parseInterval("60"), natives)).toMatchObject({
+			base: { label: "60" },
+			factor: 1,
+		});
+		expect(planResolution(parseInterval("7"), undefined).factor).toBe(1);
+	});
+
+	it("builds other intervals from the longest native one that fits", () => {
+		expect(planResolution(parseInterval("120"), natives)).toMatchObject({
+			base: { label: "60" },
+			factor: 2,
+		});
+		expect(planResolution(parseInterval("10"), natives)).toMatchObject({
+			base: { label: "5" },
+			factor: 2,
+		});
+		expect(planResolution(parseInterval("2D"), natives).base.label).toBe(
+			"D"
+		);
+		expect(planResolution(parseInterval("3M"), natives)).toMatchObject({
+			base: { label: "M" },
+			factor: 3,
+		});
+	});
+
+	it("skips native bars that miss the session open", () => {
+		expect(
+			planResolution(parseInterval("60"), natives, NEW_YORK_ALIGNMENTS)
+		).toMatchObject({ base: { label: "30" }, factor: 2 });
+		expect(
+			planResolution(parseInterval("90"), natives, NEW_YORK_ALIGNMENTS)
+				.base.label
+		).toBe("30");
+		expect(
+			planResolution(parseInterval("D"), natives, NEW_YORK_ALIGNMENTS)
+				.base.label
+		).toBe("D");
+	});
+
+	it("throws when nothing can build the interval", () => {
+		expect(() => planResolution(parseInterval("7"), ["5", "D"])).toThrow(
+			"The 7 interval is not available and cannot be built from 5, D"
+		);
+		expect(() => planResolution(parseInterval("D"), ["W"])).toThrow();
+	});
+});
+
+describe("aggregateBars", () => {
+	const bar = (
+		minute: number,
+		open: number,
+		close: number,
+		turnover?: number
+	): RawBar => ({
+		time: minute * 60,
+		open,
+		high: Math.max(open, close) + 1,
+		low: Math.min(open, close) - 1,
+		close,
+		volume: 2,
+		...(turnover !== undefined && { turnover }),
+	});
+
+	it("merges bars into the target bar they start in", () => {
+		const bars = aggregateBars(
+			[bar(3, 10, 12, 20), bar(4, 12, 8, 16), bar(5, 8, 9, 18)],
+			parseInterval("5")
+		);
+		expect(bars).toEqual([
+			{
+				time: 0,
+				open: 10,
+				high: 13,
+				low: 7,
+				close: 8,
+				volume: 4,
+				turnover: 36,
+			},
+			{
+				time: 300,
+				open: 8,
+				high: 10,
+				low: 7,
+				close: 9,
+				volume: 2,
+				turnover: 18,
+			},
+		]);
+	});
+
+	it("leaves out turnover when the bars have none", () => {
+		const [merged] = aggregateBars(
+			[bar(0, 1, 2), bar(1, 2, 3)],
+			parseInterval("5")
+		);
+		expect(merged).not.toHaveProperty("turnover");
+	});
+});
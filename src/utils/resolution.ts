@@ -0,0 +1,306 @@
+import { RawBar, ResolutionInfo } from "./datafeed-types";
+
+/**
+ * How bars at a requested resolution are obtained from a venue: fetched at
+ * base and, when base differs from target, aggregated into target bars
+ */
+export type ResolutionPlan = {
+	target: ResolutionInfo;
+	base: ResolutionInfo;
+	/** Base bars per target bar (approximate for months) */
+	factor: number;
+};
+
+/** Canonical units, shortest first */
+const UNITS = ["seconds", "minutes", "hours", "days", "weeks", "months"];
+
+/** Unit aliases accepted in intervals and SDK resolution objects */
+const UNIT_ALIASES: Record<string, string> = {
+	s: "seconds",
+	S: "seconds",
+	sec: "seconds",
+	second: "seconds",
+	m: "minutes",
+	min: "minutes",
+	minute: "minutes",
+	h: "hours",
+	H: "hours",
+	hour: "hours",
+	d: "days",
+	D: "days",
+	day: "days",
+	w: "weeks",
+	W: "weeks",
+	week: "weeks",
+	M: "months",
+	month: "months",
+	y: "years",
+	Y: "years",
+	year: "years",
+};
+
+/** 1970-01-01 was a Thursday, so Mondays are offset by 4 days */
+const MONDAY_OFFSET = 4 * 86400;
+
+/**
+ * Canonical units for a unit name or alias; throws for unknown units
+ */
+const normalizeUnits = (units: string): string => {
+	if (UNITS.includes(units)) return units;
+	const alias =
+		UNIT_ALIASES[units] ||
+		UNIT_ALIASES[units.toLowerCase().replace(/s$/, "")];
+	if (!alias) {
+		throw new Error(`Unsupported resolution units: ${units}`);
+	}
+	return alias;
+};
+
+/**
+ * Label for a resolution in the SDK's interval notation:
+ * "30S", "15", "240", "D", "2D", "W", "2W", "M", "3M"
+ */
+export const getIntervalLabel = (resolutionInfo: {
+	scale: number;
+	units: string;
+}): string => {
+	const { scale, units } = resolutionInfo;
+	switch (units) {
+		case "seconds":
+			return `${scale}S`;
+		case "minutes":
+			return scale.toString();
+		case "hours":
+			return (scale * 60).toString();
+		case "days":
+			return scale === 1 ? "D" : `${scale}D`;
+		case "weeks":
+			return scale === 1 ? "W" : `${scale}W`;
+		case "months":
+			return scale === 1 ? "M" : `${scale}M`;
+		default:
+			throw new Error(`Unsupported resolution units: ${units}`);
+	}
+};
+
+/**
+ * Canonical resolution for a scale and units: whole hours are expressed in
+ * hours and years in months. Throws for unknown units or invalid scales.
+ */
+export const createResolution = (
+	scale: number,
+	units: string
+): ResolutionInfo => {
+	let canonicalUnits = normalizeUnits(units);
+	let canonicalScale = Number(scale);
+	if (!Number.isInteger(canonicalScale) || canonicalScale <= 0) {
+		throw new Error(`Unsupported resolution scale: ${scale}`);
+	}
+	if (canonicalUnits === "years") {
+		canonicalScale *= 12;
+		canonicalUnits = "months";
+	}
+	if (canonicalUnits === "minutes" && canonicalScale % 60 === 0) {
+		canonicalScale /= 60;
+		canonicalUnits = "hours";
+	}
+	const resolution = { scale: canonicalScale, units: canonicalUnits };
+	return { ...resolution, label: getIntervalLabel(resolution) };
+};
+
+/**
+ * Parses an interval in SDK or GoCharting notation
+ *
+ * Bare numbers are minutes ("1", "240"); otherwise a count followed by a
+ * unit, where the count defaults to 1: "1S", "3m", "2h", "12H", "D", "2D",
+ * "1W", "M", "6M", "1Y". Lowercase "m" is minutes, uppercase "M" months.
+ *
+ * @throws Error when the interval cannot be parsed
+ */
+export const parseInterval = (interval: string): ResolutionInfo => {
+	const match = /^(\d*)\s*([a-zA-Z]*)$/.exec(String(interval).trim());
+	if (!match || (!match[1] && !match[2])) {
+		throw new Error(`Unsupported interval: ${interval}`);
+	}
+	const scale = match[1] ? Number(match[1]) : 1;
+	try {
+		return createResolution(scale, match[2] || "minutes");
+	} catch {
+		throw new Error(`Unsupported interval: ${interval}`);
+	}
+};
+
+/**
+ * Length of a bar in seconds (months approximated as 30 days)
+ */
+export const getResolutionSeconds = (
+	resolutionInfo: ResolutionInfo
+): number => {
+	const { scale, units } = resolutionInfo;
+	switch (units) {
+		case "seconds":
+			return scale;
+		case "minutes":
+			return scale * 60;
+		case "hours":
+			return scale * 3600;
+		case "weeks":
+			return scale * 7 * 86400;
+		case "months":
+			return scale * 30 * 86400;
+		default:
+			return scale * 86400;
+	}
+};
+
+/**
+ * Start of the bar (unix seconds, UTC) that contains the given timestamp.
+ * Weeks start on Monday like Bybit's weekly klines, months on the 1st.
+ */
+export const getBarStartTime = (
+	timestamp: number,
+	resolutionInfo: ResolutionInfo
+): number => {
+	const { scale, units } = resolutionInfo;
+	switch (units) {
+		case "weeks": {
+			const weekSeconds = scale * 7 * 86400;
+			const shifted = timestamp - MONDAY_OFFSET;
+			return (
+				shifted -
+				(((shifted % weekSeconds) + weekSeconds) % weekSeconds) +
+				MONDAY_OFFSET
+			);
+		}
+		case "months": {
+			const date = new Date(timestamp * 1000);
+			const monthIndex = date.getUTCFullYear() * 12 + date.getUTCMonth();
+			const bucket = monthIndex - (monthIndex % scale);
+			return Date.UTC(Math.floor(bucket / 12), bucket % 12, 1) / 1000;
+		}
+		default: {
+			const seconds = getResolutionSeconds(resolutionInfo);
+			return timestamp - (((timestamp % seconds) + seconds) % seconds);
+		}
+	}
+};
+
+/**
+ * Whether every bar at base falls inside exactly one bar at target
+ */
+const isBuildableFrom = (
+	target: ResolutionInfo,
+	base: ResolutionInfo
+): boolean => {
+	const baseSeconds = getResolutionSeconds(base);
+	if (target.units === "months") {
+		return base.units === "months"
+			? target.scale % base.scale === 0
+			: base.units !== "weeks" && 86400 % baseSeconds === 0;
+	}
+	if (base.units === "months") return false;
+	if (target.units === "weeks" && base.units !== "weeks") {
+		// Anything aligned to day boundaries fits the Monday-based weeks
+		return 86400 % baseSeconds === 0;
+	}
+	if (base.units === "weeks" && target.units !== "weeks") return false;
+	return getResolutionSeconds(target) % baseSeconds === 0;
+};
+
+/**
+ * Whether bars at the resolution start on every given alignment (seconds
+ * after UTC midnight). Multi-day bars never do, since session-aligned ones
+ * count trading days rather than calendar days.
+ */
+const isAligned = (
+	resolutionInfo: ResolutionInfo,
+	alignments?: number[]
+): boolean => {
+	if (!alignments) return true;
+	const { scale, units } = resolutionInfo;
+	if (units === "seconds" || units === "minutes" || units === "hours") {
+		const seconds = getResolutionSeconds(resolutionInfo);
+		return alignments.every((alignment) => alignment % seconds === 0);
+	}
+	return units !== "days" || scale === 1;
+};
+
+/**
+ * Picks how to serve target from a venue's native intervals: natively when
+ * possible, otherwise from the longest native interval it can be built from
+ * (2D from 1D, 10 from 5). Every interval is native when nativeIntervals is
+ * undefined.
+ *
+ * Alignments are the session opens of a symbol that does not trade round
+ * the clock in UTC; native bars must start on them to be used.
+ *
+ * @throws Error when no native interval can build the target
+ */
+export const planResolution = (
+	target: ResolutionInfo,
+	nativeIntervals?: string[],
+	alignments?: number[]
+): ResolutionPlan => {
+	if (!nativeIntervals) {
+		return { target, base: target, factor: 1 };
+	}
+	const natives = nativeIntervals
+		.map(parseInterval)
+		.filter((each) => isAligned(each, alignments));
+	const native = natives.find((each) => each.label === target.label);
+	if (native) {
+		return { target, base: native, factor: 1 };
+	}
+
+	const base = natives
+		.filter((each) => isBuildableFrom(target, each))
+		.sort((a, b) => getResolutionSeconds(b) - getResolutionSeconds(a))[0];
+	if (!base) {
+		throw new Error(
+			`The ${target.label} interval is not available and cannot be built from ${nativeIntervals.join(", ")}`
+		);
+	}
+	const factor =
+		target.units === "months" && base.units === "months"
+			? target.scale / base.scale
+			: getResolutionSeconds(target) / getResolutionSeconds(base);
+	return { target, base, factor };
+};
+
+/**
+ * Aggregates bars (oldest first) into bars at the target resolution.
+ * getBucket maps a bar's time to the start of its target bar and defaults
+ * to UTC alignment.
+ */
+export const aggregateBars = (
+	bars: RawBar[],
+	target: ResolutionInfo,
+	getBucket: (time: number) => number = (time) =>
+		getBarStartTime(time, target)
+): RawBar[] => {
+	const aggregated: RawBar[] = [];
+	bars.forEach((bar) => {
+		const time = getBucket(bar.time);
+		const current = aggregated[aggregated.length - 1];
+		if (current && current.time === time) {
+			current.high = Math.max(current.high, bar.high);
+			current.low = Math.min(current.low, bar.low);
+			current.close = bar.close;
+			current.volume += bar.volume;
+			if (bar.turnover !== undefined) {
+				current.turnover = (current.turnover || 0) + bar.turnover;
+			}
+		} else {
+			aggregated.push({
+				time,
+				open: bar.open,
+				high: bar.high,
+				low: bar.low,
+				close: bar.close,
+				volume: bar.volume,
+				...(bar.turnover !== undefined && { turnover: bar.turnover }),
+			});
+		}
+	});
+	return aggregated;
+};
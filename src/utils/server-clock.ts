@@ -0,0 +1,79 @@
+/** Trade timestamps kept for the fallback offset estimate */
+const TRADE_SAMPLE_LIMIT = 50;
+
+/**
+ * Estimate of the exchange's clock, corrected for the local clock's skew
+ */
+export type ServerClock = {
+	/** Current server time in milliseconds */
+	now: () => number;
+	/** Server time minus local time in milliseconds */
+	getOffset: () => number;
+	/**
+	 * Records a reading of the server's time endpoint, requested and
+	 * received at the given local times (ms)
+	 */
+	recordServerTime: (
+		serverTime: number,
+		requestedAt: number,
+		receivedAt: number
+	) => void;
+	/** Records the exchange timestamp (ms) of a live trade as it arrives */
+	recordTrade: (tradeTime: number, receivedAt?: number) => void;
+	/** Whether a server time reading younger than maxAgeMs exists */
+	isSynced: (maxAgeMs: number) => boolean;
+};
+
+/**
+ * Creates a server clock
+ *
+ * A reading of the server's time endpoint is corrected by half the round
+ * trip. Until one exists, trade timestamps stand in: each trade is at most
+ * as recent as its arrival, so the largest trade offset is the closest to
+ * the true one.
+ *
+ * @example
+ * ```typescript
+ * const clock = createServerClock();
+ * const requestedAt = Date.now();
+ * const serverTime = await fetchServerTime();
+ * clock.recordServerTime(serverTime, requestedAt, Date.now());
+ * const barStart = getBarStartTime(clock.now() / 1000, resolutionInfo);
+ * ```
+ */
+export const createServerClock = (): ServerClock => {
+	let serverOffset: number | null = null;
+	let syncedAt = 0;
+	const tradeOffsets: number[] = [];
+
+	const getOffset = (): number => {
+		if (serverOffset !== null) return serverOffset;
+		return tradeOffsets.length ? Math.max(...tradeOffsets) : 0;
+	};
+
+	return {
+		now: () => Date.now() + getOffset(),
+
+		getOffset,
+
+		recordServerTime(
+			serverTime: number,
+			requestedAt: number,
+			receivedAt: number
+		) {
+			serverOffset =
+				serverTime + (receivedAt - requestedAt) / 2 - receivedAt;
+			syncedAt = receivedAt;
+		},
+
+		recordTrade(tradeTime: number, receivedAt = Date.now()) {
+			tradeOffsets.push(tradeTime - receivedAt);
+			if (tradeOffsets.length > TRADE_SAMPLE_LIMIT) {
+				tradeOffsets.shift();
+			}
+		},
+
+		isSynced: (maxAgeMs: number) =>
+			serverOffset !== null && Date.now() - syncedAt < maxAgeMs,
+	};
+};
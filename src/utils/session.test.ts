@@ -0,0 +1,144 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import {
+	getLocalMidnight,
+	getSessionAlignments,
+	getSessionBarStartTime,
+	getTradingSession,
+	isContinuousUtcSession,
+	isInTradingSession,
+	isMarketOpen,
+} from "./session";
+import { parseInterval } from "./resolution";
+
+const utc = (...parts: [number, number, number, number?, number?]) =>
+	Date.UTC(...parts) / 1000;
+const dayOf = (year: number, month: number, date: number) =>
+	Date.UTC(year, month, date) / 86400000;
+
+const NASDAQ = getTradingSession({
+	symbol: "AAPL",
+	exchange: "NASDAQ",
+	session: "0930-1600",
+	timezone: "America/New_York",
+	exchange_info: {
+		hours: [false, true, true, true, true, true, false].map((open) => ({
+			open,
+		})),
+	},
+} as SymbolInfo);
+
+describe("getTradingSession", () => {
+	it("reads hours, open days and the bundled calendar", () => {
+		expect(NASDAQ).toMatchObject({
+			timeZone: "America/New_York",
+			open: 570,
+			close: 960,
+		});
+		expect(NASDAQ.openDays).toEqual([
+			false,
+			true,
+			true,
+			true,
+			true,
+			true,
+			false,
+		]);
+		expect(NASDAQ.holidays.has(dayOf(2025, 6, 4))).toBe(true);
+		expect(NASDAQ.earlyCloses.get(dayOf(2025, 6, 3))).toBe(780);
+	});
+
+	it("treats 24x7 symbols in UTC as continuous", () => {
+		const session = getTradingSession({
+			session: "24x7",
+			timezone: "Etc/UTC",
+		} as SymbolInfo);
+		expect(isContinuousUtcSession(session)).toBe(true);
+		expect(isContinuousUtcSession(NASDAQ)).toBe(false);
+	});
+});
+
+describe("getLocalMidnight", () => {
+	it("follows daylight saving time", () => {
+		// New York moved to EDT on 2025-03-09
+		expect(getLocalMidnight(dayOf(2025, 2, 9), "America/New_York")).toBe(
+			utc(2025, 2, 9, 5)
+		);
+		expect(getLocalMidnight(dayOf(2025, 2, 10), "America/New_York")).toBe(
+			utc(2025, 2, 10, 4)
+		);
+	});
+});
+
+describe("isMarketOpen", () => {
+	it("keeps to the session, holidays and early closes", () => {
+		// 13:30 New York on a Wednesday, the early close day, the holiday
+		expect(isMarketOpen(utc(2025, 6, 2, 17, 30), NASDAQ)).toBe(true);
+		expect(isMarketOpen(utc(2025, 6, 3, 17, 30), NASDAQ)).toBe(false);
+		expect(isMarketOpen(utc(2025, 6, 4, 17, 30), NASDAQ)).toBe(false);
+		// 09:00 New York, before the open
+		expect(isMarketOpen(utc(2025, 6, 2, 13), NASDAQ)).toBe(false);
+	});
+
+	it("checks only the date of daily bars", () => {
+		expect(isInTradingSession(utc(2025, 6, 3, 4), NASDAQ, 86400)).toBe(
+			true
+		);
+		expect(isInTradingSession(utc(2025, 6, 4, 4), NASDAQ, 86400)).toBe(
+			false
+		);
+		expect(isInTradingSession(utc(2025, 6, 5), NASDAQ, 86400)).toBe(false);
+	});
+});
+
+describe("getSessionBarStartTime", () => {
+	it("counts intraday bars from the session open", () => {
+		const ninety = parseInterval("90");
+		// 09:30, 11:00 and 12:30 New York (EDT)
+		expect(
+			getSessionBarStartTime(utc(2025, 5, 3, 13, 45), ninety, NASDAQ)
+		).toBe(utc(2025, 5, 3, 13, 30));
+		expect(
+			getSessionBarStartTime(utc(2025, 5, 3, 15, 15), ninety, NASDAQ)
+		).toBe(utc(2025, 5, 3, 15));
+		expect(
+			getSessionBarStartTime(utc(2025, 5, 3, 17), ninety, NASDAQ)
+		).toBe(utc(2025, 5, 3, 16, 30));
+	});
+
+	it("starts date bars at the exchange's local midnight", () => {
+		const day = parseInterval("D");
+		expect(getSessionBarStartTime(utc(2025, 5, 3, 20), day, NASDAQ)).toBe(
+			utc(2025, 5, 3, 4)
+		);
+		// A date bar stamped at UTC midnight keeps its date
+		expect(getSessionBarStartTime(utc(2025, 5, 3), day, NASDAQ, true)).toBe(
+			utc(2025, 5, 3, 4)
+		);
+		expect(
+			getSessionBarStartTime(
+				utc(2025, 5, 4, 20),
+				parseInterval("W"),
+				NASDAQ
+			)
+		).toBe(utc(2025, 5, 2, 4));
+	});
+
+	it("groups trading days into multi-day bars", () => {
+		const twoDays = parseInterval("2D");
+		const start = (date: number) =>
+			getSessionBarStartTime(utc(2025, 5, date, 15), twoDays, NASDAQ);
+		// Trading days pair up across the weekend, which joins Friday's bar
+		const friday = start(6);
+		expect(start(7)).toBe(friday);
+		expect(start(8)).toBe(friday);
+		const groups = [2, 3, 4, 5, 6, 9, 10, 11, 12].map(start);
+		expect(new Set(groups).size).toBe(5);
+		groups.forEach((group) => expect(group % 86400).toBe(4 * 3600));
+	});
+});
+
+describe("getSessionAlignments", () => {
+	it("gives the open in UTC across standard and daylight time", () => {
+		expect(getSessionAlignments(NASDAQ).sort()).toEqual([48600, 52200]);
+	});
+});
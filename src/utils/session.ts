@@ -0,0 +1,339 @@
+import { SymbolInfo } from "@gocharting/chart-sdk";
+import { ResolutionInfo } from "./datafeed-types";
+import { getBarStartTime, getResolutionSeconds } from "./resolution";
+import exchangeCalendars from "./exchange-calendars.json";
+
+/**
+ * When a symbol trades, in the exchange's local time
+ */
+export type TradingSession = {
+	timeZone: string;
+	/** Session open in minutes after local midnight */
+	open: number;
+	/** Session close in minutes after local midnight; equal to open for 24h */
+	close: number;
+	/** Whether the exchange trades on each weekday, Sunday first */
+	openDays: boolean[];
+	/** Local days (days since 1970-01-01) the exchange is closed */
+	holidays: Set<number>;
+	/** Early close in minutes after local midnight, by local day */
+	earlyCloses: Map<number, number>;
+};
+
+/**
+ * Holidays ("YYYY-MM-DD") and early closes ("HHMM" by date) of an exchange
+ */
+export type ExchangeCalendar = {
+	holidays: string[];
+	earlyCloses: Record<string, string>;
+};
+
+const UTC_ZONES = ["UTC", "Etc/UTC", "GMT", "Etc/GMT"];
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+/** Offsets keyed by time zone and quarter hour; zones change on those */
+const offsetCache = new Map<string, number>();
+
+/**
+ * Seconds to add to a UTC timestamp to get local wall-clock time
+ */
+export const getTimeZoneOffset = (
+	timestamp: number,
+	timeZone: string
+): number => {
+	if (UTC_ZONES.includes(timeZone)) return 0;
+	const cacheKey = `${timeZone}|${Math.floor(timestamp / 900)}`;
+	const cached = offsetCache.get(cacheKey);
+	if (cached !== undefined) return cached;
+
+	let formatter = offsetFormatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+			second: "2-digit",
+			hourCycle: "h23",
+		});
+		offsetFormatters.set(timeZone, formatter);
+	}
+	const seconds = Math.floor(timestamp);
+	const parts: Record<string, number> = {};
+	formatter.formatToParts(new Date(seconds * 1000)).forEach((part) => {
+		parts[part.type] = Number(part.value);
+	});
+	const local =
+		Date.UTC(
+			parts.year,
+			parts.month - 1,
+			parts.day,
+			parts.hour,
+			parts.minute,
+			parts.second
+		) / 1000;
+	const offset = local - seconds;
+
+	if (offsetCache.size > 10000) offsetCache.clear();
+	offsetCache.set(cacheKey, offset);
+	return offset;
+};
+
+/**
+ * Local calendar day of a timestamp, as days since 1970-01-01
+ */
+export const getLocalDay = (timestamp: number, timeZone: string): number =>
+	Math.floor((timestamp + getTimeZoneOffset(timestamp, timeZone)) / 86400);
+
+/**
+ * UTC timestamp of local midnight starting the given local day
+ */
+export const getLocalMidnight = (day: number, timeZone: string): number => {
+	// Refine once so days with a DST change use the offset at midnight
+	const guess = day * 86400 - getTimeZoneOffset(day * 86400, timeZone);
+	return day * 86400 - getTimeZoneOffset(guess, timeZone);
+};
+
+/**
+ * Weekday (0 = Sunday) of a day number
+ */
+export const getWeekday = (day: number): number => (((day + 4) % 7) + 7) % 7;
+
+/**
+ * Day of a daily or longer bar. Such bars denote a date and may be stamped
+ * at local or at UTC midnight, so the nearest local midnight is taken.
+ */
+const getDateBarDay = (timestamp: number, timeZone: string): number =>
+	Math.round((timestamp + getTimeZoneOffset(timestamp, timeZone)) / 86400);
+
+const parseDay = (date: string): number => {
+	const [year, month, day] = date.split("-").map(Number);
+	return Date.UTC(year, month - 1, day) / 86400000;
+};
+
+const toMinutes = (hhmm: string): number =>
+	Number(hhmm.slice(0, 2)) * 60 + Number(hhmm.slice(2, 4));
+
+/**
+ * Bundled holiday calendar of an exchange, or null when none is bundled
+ */
+export const getExchangeCalendar = (
+	exchange: string
+): ExchangeCalendar | null => {
+	const { calendars, exchanges } = exchangeCalendars as {
+		calendars: Record<string, ExchangeCalendar>;
+		exchanges: Record<string, string>;
+	};
+	const calendarName = exchanges[(exchange || "").toUpperCase()];
+	return (calendarName && calendars[calendarName]) || null;
+};
+
+/**
+ * exchange_info.hours for a session string: every day for 24x7,
+ * Monday to Friday otherwise
+ */
+export const getWeeklyHours = (session: string): Array<{ open: boolean }> =>
+	[0, 1, 2, 3, 4, 5, 6].map((weekday) => ({
+		open: session === "24x7" || (weekday !== 0 && weekday !== 6),
+	}));
+
+/**
+ * Whether the exchange trades at all on a local day
+ */
+export const isTradingDay = (day: number, session: TradingSession): boolean =>
+	session.openDays[getWeekday(day)] && !session.holidays.has(day);
+
+/**
+ * Trading session of a symbol from its session string ("0930-1600",
+ * "24x7", "24x5"), timezone and exchange_info.hours, with holidays from
+ * exchange_info.holidays and the exchange's bundled calendar
+ */
+export const getTradingSession = (symbolInfo: SymbolInfo): TradingSession => {
+	const session: string = symbolInfo.session || "24x7";
+	const timeZone: string =
+		symbolInfo.timezone || symbolInfo.exchange_info?.zone || "Etc/UTC";
+	const hours: Array<{ open: boolean }> | undefined =
+		symbolInfo.exchange_info?.hours;
+
+	// Several windows ("0930-1200,1300-1600") span first open to last close
+	const windows: string[] = session.match(/\d{4}-\d{4}/g) || [];
+	const open = windows.length ? toMinutes(windows[0].slice(0, 4)) : 0;
+	const close = windows.length
+		? toMinutes(windows[windows.length - 1].slice(5, 9)) % 1440
+		: 0;
+
+	let openDays = [true, true, true, true, true, true, true];
+	if (hours && hours.length === 7) {
+		openDays = hours.map((day) => Boolean(day.open));
+	} else if (session === "24x5") {
+		openDays = [false, true, true, true, true, true, false];
+	}
+
+	const calendar = getExchangeCalendar(
+		symbolInfo.exchange_info?.code || symbolInfo.exchange || ""
+	);
+	const holidayDates: string[] = [
+		...(symbolInfo.exchange_info?.holidays || []),
+		...(calendar ? calendar.holidays : []),
+	];
+	const earlyCloses = new Map<number, number>();
+	Object.entries(calendar ? calendar.earlyCloses : {}).forEach(
+		([date, time]) => earlyCloses.set(parseDay(date), toMinutes(time))
+	);
+
+	return {
+		timeZone,
+		open,
+		close,
+		openDays,
+		holidays: new Set(holidayDates.map(parseDay)),
+		earlyCloses,
+	};
+};
+
+/**
+ * Round-the-clock, every day, in UTC: bars need no session handling
+ */
+export const isContinuousUtcSession = (session: TradingSession): boolean =>
+	session.open === 0 &&
+	session.close === 0 &&
+	UTC_ZONES.includes(session.timeZone) &&
+	session.openDays.every(Boolean) &&
+	session.holidays.size === 0;
+
+/**
+ * Start (UTC timestamp) of the session containing the timestamp, or null
+ * when the timestamp falls outside any session. Sessions end early on
+ * the calendar's early-close days.
+ */
+const getSessionStart = (
+	timestamp: number,
+	session: TradingSession
+): number | null => {
+	const day = getLocalDay(timestamp, session.timeZone);
+	// Overnight and 24h sessions may have opened on the previous local day
+	for (const candidate of [day, day - 1]) {
+		if (!isTradingDay(candidate, session)) continue;
+		const close = session.earlyCloses.get(candidate) ?? session.close;
+		const length = ((close - session.open + 1440) % 1440 || 1440) * 60;
+		const start =
+			getLocalMidnight(candidate, session.timeZone) + session.open * 60;
+		if (start <= timestamp && timestamp < start + length) {
+			return start;
+		}
+	}
+	return null;
+};
+
+/**
+ * Whether the market is open at the timestamp
+ */
+export const isMarketOpen = (
+	timestamp: number,
+	session: TradingSession
+): boolean => getSessionStart(timestamp, session) !== null;
+
+/**
+ * Whether a bar starting at the timestamp lies in a trading session.
+ * Bars of a day or longer only need their date to be a trading day.
+ */
+export const isInTradingSession = (
+	timestamp: number,
+	session: TradingSession,
+	intervalSeconds: number
+): boolean => {
+	if (intervalSeconds >= 7 * 86400) return true;
+	if (intervalSeconds >= 86400) {
+		return isTradingDay(
+			getDateBarDay(timestamp, session.timeZone),
+			session
+		);
+	}
+	return isMarketOpen(timestamp, session);
+};
+
+/**
+ * Trading days from 1970-01-01 up to and including the given day
+ */
+const countTradingDays = (day: number, session: TradingSession): number => {
+	const { openDays } = session;
+	const perWeek = openDays.filter(Boolean).length;
+	const weeks = Math.floor(day / 7);
+	let count = weeks * perWeek;
+	for (let each = weeks * 7; each <= day; each++) {
+		if (openDays[getWeekday(each)]) count += 1;
+	}
+	session.holidays.forEach((holiday) => {
+		if (holiday <= day && openDays[getWeekday(holiday)]) count -= 1;
+	});
+	return count;
+};
+
+/**
+ * Start of the bar containing the timestamp, aligned to the symbol's
+ * sessions and timezone:
+ *
+ * - intraday bars count from the session open (09:30, 11:00, 12:30 for
+ *   90 minutes), restarting every session
+ * - daily and longer bars follow the local trading date and start at the
+ *   exchange's local midnight
+ * - multi-day bars group trading days, so 3D skips weekends and holidays
+ *
+ * isDateBar marks timestamps of daily or longer bars, which denote a date
+ * rather than an instant.
+ */
+export const getSessionBarStartTime = (
+	timestamp: number,
+	resolutionInfo: ResolutionInfo,
+	session: TradingSession,
+	isDateBar = false
+): number => {
+	if (isContinuousUtcSession(session)) {
+		return getBarStartTime(timestamp, resolutionInfo);
+	}
+
+	const { scale, units } = resolutionInfo;
+	const { timeZone } = session;
+	if (units === "seconds" || units === "minutes" || units === "hours") {
+		const interval = getResolutionSeconds(resolutionInfo);
+		const anchor =
+			getSessionStart(timestamp, session) ??
+			getLocalMidnight(getLocalDay(timestamp, timeZone), timeZone);
+		return anchor + Math.floor((timestamp - anchor) / interval) * interval;
+	}
+
+	const day = isDateBar
+		? getDateBarDay(timestamp, timeZone)
+		: getLocalDay(timestamp, timeZone);
+	if (units !== "days" || scale === 1 || !session.openDays.some(Boolean)) {
+		const first = getBarStartTime(day * 86400, resolutionInfo) / 86400;
+		return getLocalMidnight(first, timeZone);
+	}
+
+	// Closed days join the group of the trading day before them
+	const group = Math.floor((countTradingDays(day, session) - 1) / scale);
+	let first = day;
+	while (countTradingDays(first - 1, session) > group * scale) {
+		first -= 1;
+	}
+	return getLocalMidnight(first, timeZone);
+};
+
+/**
+ * Offsets (seconds after UTC midnight) at which the session opens, across
+ * the timezone's standard and daylight time. Intraday bars built from a
+ * venue's bars must line up with these.
+ */
+export const getSessionAlignments = (session: TradingSession): number[] => {
+	const year = new Date().getUTCFullYear();
+	const offsets = new Set(
+		[Date.UTC(year, 0, 1), Date.UTC(year, 6, 1)].map((time) =>
+			getTimeZoneOffset(time / 1000, session.timeZone)
+		)
+	);
+	return Array.from(offsets).map(
+		(offset) => (((session.open * 60 - offset) % 86400) + 86400) % 86400
+	);
+};
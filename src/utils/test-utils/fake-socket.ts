@@ -0,0 +1,78 @@
+// ============================================================================
+// In-process stand-in for WebSocket, for tests of streaming code
+// ============================================================================
+
+type Listener = (event: { data?: unknown }) => void;
+
+/**
+ * WebSocket opened by code under test, driven by the test
+ */
+export class FakeWebSocket {
+	static readonly CONNECTING = 0;
+	static readonly OPEN = 1;
+	static readonly CLOSING = 2;
+	static readonly CLOSED = 3;
+
+	readonly url: string;
+	readyState = FakeWebSocket.CONNECTING;
+	/** Messages sent by the code under test, oldest first */
+	readonly sent: string[] = [];
+	private readonly listeners: Record<string, Listener[]> = {};
+
+	constructor(url: string) {
+		this.url = url;
+		fakeSockets.push(this);
+	}
+
+	addEventListener(type: string, listener: Listener) {
+		(this.listeners[type] = this.listeners[type] || []).push(listener);
+	}
+
+	send(message: string) {
+		this.sent.push(message);
+	}
+
+	close() {
+		this.drop();
+	}
+
+	/** Completes the connection */
+	open() {
+		this.readyState = FakeWebSocket.OPEN;
+		this.emit("open", {});
+	}
+
+	/** Delivers a message from the server */
+	receive(data: unknown) {
+		this.emit("message", {
+			data: typeof data === "string" ? data : JSON.stringify(data),
+		});
+	}
+
+	/** Loses the connection, as a server or network would */
+	drop() {
+		if (this.readyState === FakeWebSocket.CLOSED) return;
+		this.readyState = FakeWebSocket.CLOSED;
+		this.emit("close", {});
+	}
+
+	private emit(type: string, event: { data?: unknown }) {
+		(this.listeners[type] || []).forEach((listener) => listener(event));
+	}
+}
+
+/** Sockets created since installFakeWebSocket, oldest first */
+export const fakeSockets: FakeWebSocket[] = [];
+
+/**
+ * Replaces the global WebSocket with FakeWebSocket. Returns a function
+ * putting the real one back.
+ */
+export const installFakeWebSocket = (): (() => void) => {
+	const realWebSocket = globalThis.WebSocket;
+	fakeSockets.length = 0;
+	globalThis.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+	return () => {
+		globalThis.WebSocket = realWebSocket;
+	};
+};
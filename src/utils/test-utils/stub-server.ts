@@ -0,0 +1,70 @@
+// ============================================================================
+// In-process stand-in for an HTTP server, for tests of REST clients
+// ============================================================================
+
+/**
+ * Reply of a stub route: a JSON body, a text body, or a status with a body
+ */
+export type StubReply =
+	{ status: number; body?: unknown } | string | object | unknown[];
+
+/**
+ * Stub server answering fetch requests in this process
+ */
+export type StubServer = {
+	/** URLs requested so far, oldest first */
+	requests: URL[];
+	/** Puts the real fetch back */
+	close: () => void;
+};
+
+const isStatusReply = (
+	reply: StubReply
+): reply is { status: number; body?: unknown } =>
+	typeof reply === "object" &&
+	reply !== null &&
+	!Array.isArray(reply) &&
+	typeof (reply as { status?: unknown }).status === "number";
+
+/**
+ * Routes every fetch to handle until closed. handle receives the parsed URL
+ * and returns the reply, or throws to fail the request like a network error.
+ *
+ * @example
+ * ```typescript
+ * const server = startStubServer((url) =>
+ *   url.pathname === "/udf/time" ? "1700000000" : { status: 404 }
+ * );
+ * // ... exercise the client
+ * server.close();
+ * ```
+ */
+export const startStubServer = (
+	handle: (url: URL) => StubReply | Promise<StubReply>
+): StubServer => {
+	const realFetch = globalThis.fetch;
+	const requests: URL[] = [];
+
+	globalThis.fetch = (async (input: RequestInfo | URL) => {
+		const url = new URL(String(input));
+		requests.push(url);
+		const reply = await handle(url);
+		const status = isStatusReply(reply) ? reply.status : 200;
+		const body = isStatusReply(reply) ? reply.body : reply;
+		const text = typeof body === "string" ? body : JSON.stringify(body);
+		return {
+			ok: status >= 200 && status < 300,
+			status,
+			statusText: status === 200 ? "OK" : "Stub Error",
+			json: async () => JSON.parse(text),
+			text: async () => text,
+		} as Response;
+	}) as typeof fetch;
+
+	return {
+		requests,
+		close: () => {
+			globalThis.fetch = realFetch;
+		},
+	};
+};
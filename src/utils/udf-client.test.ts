@@ -0,0 +1,74 @@
+import { createUdfClient } from "./udf-client";
+import { startStubServer, StubServer } from "./test-utils/stub-server";
+
+describe("createUdfClient", () => {
+	let server: StubServer;
+
+	afterEach(() => {
+		server.close();
+	});
+
+	it("resolves a relative base URL against the page", async () => {
+		server = startStubServer(() => "1700000000");
+		const client = createUdfClient("/udf/");
+		expect(client.baseUrl).toBe("/udf");
+		await expect(client.getTime()).resolves.toBe(1700000000);
+		expect(server.requests[0].href).toBe(
+			new URL("/udf/time", window.location.href).href
+		);
+	});
+
+	it("sends history parameters, leaving out a missing countback", async () => {
+		server = startStubServer(() => ({ s: "no_data", nextTime: 120 }));
+		const client = createUdfClient("https://data.example.com/udf");
+		await expect(client.getHistory("AAPL", "D", 100, 200)).resolves.toEqual(
+			{ s: "no_data", nextTime: 120 }
+		);
+		await client.getHistory("AAPL", "60", 100, 200, 300);
+		const [first, second] = server.requests;
+		expect(first.pathname).toBe("/udf/history");
+		expect(Object.fromEntries(first.searchParams)).toEqual({
+			symbol: "AAPL",
+			resolution: "D",
+			from: "100",
+			to: "200",
+		});
+		expect(second.searchParams.get("countback")).toBe("300");
+	});
+
+	it("throws server errors and failed requests", async () => {
+		server = startStubServer((url) =>
+			url.pathname.endsWith("/symbols")
+				? { s: "error", errmsg: "unknown symbol" }
+				: { status: 500 }
+		);
+		const client = createUdfClient("https://data.example.com/udf");
+		await expect(client.resolveSymbol("NOPE")).rejects.toThrow(
+			"UDF server error on /symbols: unknown symbol"
+		);
+		await expect(client.getTime()).rejects.toThrow("HTTP 500");
+	});
+
+	it("rejects a server time that is not a number", async () => {
+		server = startStubServer(() => "soon");
+		const client = createUdfClient("https://data.example.com/udf");
+		await expect(client.getTime()).rejects.toThrow(
+			"Invalid UDF server time: soon"
+		);
+	});
+
+	it("requests /config once, asking again after a failure", async () => {
+		let failing = true;
+		server = startStubServer(() =>
+			failing ? { status: 503 } : { supports_time: true }
+		);
+		const client = createUdfClient("https://data.example.com/udf");
+		await expect(client.getConfig()).rejects.toThrow("HTTP 503");
+		failing = false;
+		await expect(client.getConfig()).resolves.toEqual({
+			supports_time: true,
+		});
+		await client.getConfig();
+		expect(server.requests).toHaveLength(2);
+	});
+});
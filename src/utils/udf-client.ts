@@ -0,0 +1,281 @@
+// ============================================================================
+// Client for data servers speaking the UDF protocol
+// ============================================================================
+
+/**
+ * UDF /config response
+ */
+export type UdfConfig = {
+	supported_resolutions?: string[];
+	supports_search?: boolean;
+	supports_group_request?: boolean;
+	supports_marks?: boolean;
+	supports_timescale_marks?: boolean;
+	supports_time?: boolean;
+	exchanges?: Array<{ value: string; name: string; desc: string }>;
+	symbols_types?: Array<{ name: string; value: string }>;
+};
+
+/**
+ * UDF /symbols response
+ */
+export type UdfSymbolInfo = {
+	name: string;
+	ticker?: string;
+	description?: string;
+	type?: string;
+	/** Trading hours, e.g. "0930-1600", "0930-1600:23456" or "24x7" */
+	session?: string;
+	exchange?: string;
+	listed_exchange?: string;
+	timezone?: string;
+	minmov?: number;
+	pricescale?: number;
+	has_intraday?: boolean;
+	has_daily?: boolean;
+	supported_resolutions?: string[];
+	/** Minute intervals the server stores; others are built from these */
+	intraday_multipliers?: string[];
+	volume_precision?: number;
+	currency_code?: string;
+};
+
+/**
+ * Item of a UDF /search response
+ */
+export type UdfSearchResult = {
+	symbol: string;
+	full_name: string;
+	description: string;
+	exchange: string;
+	ticker?: string;
+	type: string;
+};
+
+/**
+ * UDF /history response: parallel arrays of bar fields, times in unix
+ * seconds. no_data may name the time of the closest older bar.
+ */
+export type UdfHistoryResponse = {
+	s: "ok" | "no_data" | "error";
+	t?: number[];
+	o?: number[];
+	h?: number[];
+	l?: number[];
+	c?: number[];
+	v?: number[];
+	nextTime?: number;
+	errmsg?: string;
+};
+
+/**
+ * Mark of a UDF /marks response
+ */
+export type UdfMark = {
+	id: string | number;
+	time: number;
+	color: string | { border: string; background: string };
+	text: string;
+	label: string;
+	labelFontColor: string;
+	minSize: number;
+};
+
+/**
+ * UDF /marks response: a list of marks or parallel arrays of their fields
+ */
+export type UdfMarksResponse =
+	UdfMark[] | { [Field in keyof UdfMark]: Array<UdfMark[Field]> };
+
+/**
+ * Item of a UDF /timescale_marks response
+ */
+export type UdfTimescaleMark = {
+	id: string | number;
+	time: number;
+	color: string;
+	label: string;
+	tooltip: string[];
+};
+
+/**
+ * Options for createUdfClient
+ */
+export type UdfClientOptions = {
+	/** Extra request headers, e.g. an Authorization header */
+	headers?: Record<string, string>;
+};
+
+/**
+ * Requests to one UDF server. Times are in unix seconds.
+ */
+export type UdfClient = {
+	/** Server root, without trailing slashes */
+	baseUrl: string;
+	/** Server configuration, requested once and shared */
+	getConfig: () => Promise<UdfConfig>;
+	resolveSymbol: (symbolName: string) => Promise<UdfSymbolInfo>;
+	searchSymbols: (
+		query: string,
+		type: string,
+		exchange: string,
+		limit: number
+	) => Promise<UdfSearchResult[]>;
+	getHistory: (
+		symbol: string,
+		resolution: string,
+		from: number,
+		to: number,
+		countBack?: number
+	) => Promise<UdfHistoryResponse>;
+	getMarks: (
+		symbol: string,
+		from: number,
+		to: number,
+		resolution: string
+	) => Promise<UdfMarksResponse>;
+	getTimescaleMarks: (
+		symbol: string,
+		from: number,
+		to: number,
+		resolution: string
+	) => Promise<UdfTimescaleMark[]>;
+	getTime: () => Promise<number>;
+};
+
+/**
+ * Creates a client for the UDF server at baseUrl, absolute or relative to
+ * the page (e.g. "/udf" behind a same-origin proxy)
+ *
+ * Responses with status "error" are thrown as errors carrying the server's
+ * errmsg.
+ *
+ * @example
+ * ```typescript
+ * const client = createUdfClient("https://data.example.com/udf");
+ * const history = await client.getHistory("AAPL", "D", from, to);
+ * ```
+ */
+export const createUdfClient = (
+	baseUrl: string,
+	options: UdfClientOptions = {}
+): UdfClient => {
+	const root = baseUrl.replace(/\/+$/, "");
+	let configRequest: Promise<UdfConfig> | null = null;
+
+	const request = async (
+		path: string,
+		params: Record<string, string | number | undefined> = {}
+	): Promise<Response> => {
+		// Relative roots such as "/udf" point at the page's own origin
+		const url = new URL(
+			`${root}${path}`,
+			typeof window !== "undefined" ? window.location.href : undefined
+		);
+		Object.keys(params).forEach((key) => {
+			if (params[key] !== undefined) {
+				url.searchParams.append(key, String(params[key]));
+			}
+		});
+		const res = await fetch(url.toString(), { headers: options.headers });
+		if (!res.ok) {
+			throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+		}
+		return res;
+	};
+
+	const requestJson = async <T>(
+		path: string,
+		params?: Record<string, string | number | undefined>
+	): Promise<T> => {
+		const data = await (await request(path, params)).json();
+		if (data && data.s === "error") {
+			throw new Error(
+				`UDF server error on ${path}: ${data.errmsg || "unknown error"}`
+			);
+		}
+		return data as T;
+	};
+
+	return {
+		baseUrl: root,
+
+		getConfig(): Promise<UdfConfig> {
+			if (!configRequest) {
+				configRequest = requestJson<UdfConfig>("/config");
+				// Ask again next time rather than caching a failure
+				configRequest.catch(() => {
+					configRequest = null;
+				});
+			}
+			return configRequest;
+		},
+
+		resolveSymbol: (symbolName: string) =>
+			requestJson<UdfSymbolInfo>("/symbols", { symbol: symbolName }),
+
+		searchSymbols: (
+			query: string,
+			type: string,
+			exchange: string,
+			limit: number
+		) =>
+			requestJson<UdfSearchResult[]>("/search", {
+				query,
+				type,
+				exchange,
+				limit,
+			}),
+
+		getHistory: (
+			symbol: string,
+			resolution: string,
+			from: number,
+			to: number,
+			countBack?: number
+		) =>
+			requestJson<UdfHistoryResponse>("/history", {
+				symbol,
+				resolution,
+				from,
+				to,
+				countback: countBack,
+			}),
+
+		getMarks: (
+			symbol: string,
+			from: number,
+			to: number,
+			resolution: string
+		) =>
+			requestJson<UdfMarksResponse>("/marks", {
+				symbol,
+				from,
+				to,
+				resolution,
+			}),
+
+		getTimescaleMarks: (
+			symbol: string,
+			from: number,
+			to: number,
+			resolution: string
+		) =>
+			requestJson<UdfTimescaleMark[]>("/timescale_marks", {
+				symbol,
+				from,
+				to,
+				resolution,
+			}),
+
+		// /time answers with bare unix seconds
+		async getTime(): Promise<number> {
+			const text = await (await request("/time")).text();
+			const time = Number(text.trim());
+			if (!Number.isFinite(time)) {
+				throw new Error(`Invalid UDF server time: ${text}`);
+			}
+			return time;
+		},
+	};
+};
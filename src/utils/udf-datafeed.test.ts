@@ -0,0 +1,99 @@
+import { createUdfDatafeed } from "./udf-datafeed";
+import {
+	startStubServer,
+	StubReply,
+	StubServer,
+} from "./test-utils/stub-server";
+
+const DAY = 86400;
+
+// A UDF server storing daily bars of NASDAQ:AAPL
+const serveUdf =
+	(history: () => StubReply) =>
+	(url: URL): StubReply => {
+		switch (url.pathname) {
+			case "/udf/config":
+				return { supported_resolutions: ["D"], supports_time: false };
+			case "/udf/symbols":
+				return {
+					name: "AAPL",
+					exchange: "NASDAQ",
+					session: "24x7",
+					timezone: "Etc/UTC",
+					minmov: 1,
+					pricescale: 100,
+					has_daily: true,
+				};
+			case "/udf/history":
+				return history();
+			default:
+				return { status: 404 };
+		}
+	};
+
+describe("createUdfDatafeed", () => {
+	let server: StubServer;
+	let datafeed: any;
+
+	afterEach(() => {
+		datafeed?.destroy();
+		server.close();
+	});
+
+	const resolve = () =>
+		new Promise<any>((onResolve, onError) =>
+			datafeed.resolveSymbol("NASDAQ:AAPL", onResolve, onError)
+		);
+
+	it("serves the server's bars through a relative base URL", async () => {
+		server = startStubServer(
+			serveUdf(() => ({
+				s: "ok",
+				t: [DAY, 2 * DAY],
+				o: [10, 11],
+				h: [12, 13],
+				l: [9, 10],
+				c: [11, 12],
+				v: [100, 200],
+			}))
+		);
+		datafeed = createUdfDatafeed("/udf", { cache: false });
+		const symbolInfo = await resolve();
+		expect(symbolInfo).toMatchObject({
+			full_name: "NASDAQ:AAPL",
+			tick_size: 0.01,
+		});
+
+		const result = await datafeed.getBars(symbolInfo, "1D", {
+			from: 0,
+			to: 3 * DAY,
+			firstDataRequest: true,
+		});
+		expect(result).toMatchObject({
+			s: "ok",
+			t: [DAY, 2 * DAY],
+			c: [11, 12],
+			v: [100, 200],
+		});
+		const historyRequest = server.requests.find(
+			(url) => url.pathname === "/udf/history"
+		);
+		expect(historyRequest?.origin).toBe(window.location.origin);
+		expect(historyRequest?.searchParams.get("symbol")).toBe("AAPL");
+	});
+
+	it("reports a failing server instead of serving demo bars", async () => {
+		server = startStubServer(
+			serveUdf(() => ({ s: "error", errmsg: "database offline" }))
+		);
+		datafeed = createUdfDatafeed("/udf", { cache: false });
+		const symbolInfo = await resolve();
+		const result = await datafeed.getBars(symbolInfo, "1D", {
+			from: 0,
+			to: 3 * DAY,
+			firstDataRequest: true,
+		});
+		expect(result.s).toBe("error");
+		expect(result.errmsg).toContain("database offline");
+	});
+});
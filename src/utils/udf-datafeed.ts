@@ -0,0 +1,68 @@
+import { createUdfAdapter, UdfAdapterOptions } from "./adapters";
+import {
+	ChartDatafeed,
+	ChartDatafeedOptions,
+	createChartDatafeed,
+} from "./chart-datafeed";
+import { createUdfMarkSource } from "./mark-sources";
+import { createServerClock } from "./server-clock";
+import { createUdfClient, UdfClientOptions } from "./udf-client";
+
+/**
+ * Options for createUdfDatafeed
+ */
+export type UdfDatafeedOptions = Omit<
+	ChartDatafeedOptions,
+	"adapters" | "getConfig"
+> &
+	UdfClientOptions &
+	UdfAdapterOptions;
+
+/**
+ * Creates a datafeed for a self-hosted data server speaking the UDF
+ * protocol (/config, /symbols, /search, /history, /marks, /time)
+ *
+ * Every symbol is resolved, searched and loaded through the server, on top
+ * of the same bar cache, interval building and streaming as
+ * createChartDatafeed. Intervals the server lacks are built from the ones
+ * it stores, and live bars are polled from /history.
+ *
+ * @param baseUrl - Server root, e.g. "https://data.example.com/udf"
+ * @param options - Request headers, poll interval and createChartDatafeed options
+ * @returns Datafeed object compatible with GoCharting SDK with additional destroy(), local file and replay methods
+ *
+ * @example
+ * ```typescript
+ * const datafeed = createUdfDatafeed("https://data.example.com/udf", {
+ *   headers: { Authorization: `Bearer ${token}` },
+ * });
+ *
+ * const chart = createChart('#chart', {
+ *   symbol: 'NASDAQ:AAPL',
+ *   interval: '1D',
+ *   datafeed: datafeed,
+ *   licenseKey: 'your-key'
+ * });
+ * ```
+ */
+export const createUdfDatafeed = (
+	baseUrl: string,
+	options: UdfDatafeedOptions = {}
+): ChartDatafeed => {
+	const { headers, pollIntervalMs, ...datafeedOptions } = options;
+	const client = createUdfClient(baseUrl, { headers });
+	// Live bars are polled up to the server's time, not the local one
+	const clock = datafeedOptions.clock || createServerClock();
+	return createChartDatafeed({
+		...datafeedOptions,
+		clock,
+		adapters: [
+			createUdfAdapter(client, { pollIntervalMs, now: clock.now }),
+		],
+		markSources: [
+			createUdfMarkSource(client),
+			...(datafeedOptions.markSources || []),
+		],
+		getConfig: () => client.getConfig(),
+	});
+};